@@ -0,0 +1,97 @@
+/**
+ * One-off migration: set CampaignJob.repliedAt for campaign messages sent before the
+ * field existed, so reply counts, the "replied" filter and no-reply follow-ups keep
+ * covering older campaigns.
+ *
+ * A sent job counts as replied when its number wrote to the same WABA account after
+ * the message went out; repliedAt is the time of that first inbound message.
+ *
+ * Usage: node scripts/backfill-campaign-job-replies.js [--dry-run]
+ */
+
+const { buildDatabaseUrl, loadEnvFile } = require('./build-database-url');
+const { PrismaClient } = require('@prisma/client');
+
+const env = { ...process.env, ...loadEnvFile() };
+process.env.DATABASE_URL = buildDatabaseUrl(env);
+
+const dryRun = process.argv.includes('--dry-run');
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+const stats = { replied: 0, withoutReply: 0 };
+
+async function backfillBatch(jobs) {
+  for (const job of jobs) {
+    // Jobs sent before they were linked to their message were marked sent right after it
+    const sentAt = job.message?.createdAt ?? job.updatedAt;
+    const reply = await prisma.message.findFirst({
+      where: {
+        wabaAccountId: job.campaign.wabaAccountId,
+        direction: 'inbound',
+        from: job.toNumber,
+        createdAt: { gte: sentAt },
+      },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!reply) {
+      stats.withoutReply++;
+      continue;
+    }
+
+    stats.replied++;
+    if (dryRun) {
+      continue;
+    }
+
+    await prisma.campaignJob.update({
+      where: { id: job.id },
+      data: { repliedAt: reply.createdAt },
+    });
+  }
+}
+
+async function backfillCampaignJobReplies() {
+  try {
+    if (dryRun) {
+      console.log('Dry run, nothing will be written\n');
+    }
+
+    // Paged by id: updated rows leave the filter, skipped ones must not be read again
+    let cursor;
+    for (;;) {
+      const jobs = await prisma.campaignJob.findMany({
+        where: { status: 'sent', repliedAt: null, ...(cursor && { id: { gt: cursor } }) },
+        select: {
+          id: true,
+          toNumber: true,
+          updatedAt: true,
+          campaign: { select: { wabaAccountId: true } },
+          message: { select: { createdAt: true } },
+        },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (!jobs.length) {
+        break;
+      }
+
+      await backfillBatch(jobs);
+      cursor = jobs[jobs.length - 1].id;
+    }
+
+    console.log('\n✅ Done');
+    console.log(`  Jobs marked as replied: ${stats.replied}`);
+    console.log(`  Jobs without a reply: ${stats.withoutReply}`);
+  } catch (error) {
+    console.error('Error backfilling campaign replies:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillCampaignJobReplies();
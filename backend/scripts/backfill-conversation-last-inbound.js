@@ -0,0 +1,90 @@
+/**
+ * One-off migration: set Conversation.lastInboundAt for conversations that existed
+ * before the field did, so their 24h service window reflects the latest message the
+ * contact sent instead of showing as closed until they write again.
+ *
+ * Only conversations without a lastInboundAt are touched; the value is the creation
+ * time of their latest inbound message.
+ *
+ * Usage: node scripts/backfill-conversation-last-inbound.js [--dry-run]
+ */
+
+const { buildDatabaseUrl, loadEnvFile } = require('./build-database-url');
+const { PrismaClient } = require('@prisma/client');
+
+const env = { ...process.env, ...loadEnvFile() };
+process.env.DATABASE_URL = buildDatabaseUrl(env);
+
+const dryRun = process.argv.includes('--dry-run');
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+const stats = { updated: 0, withoutInbound: 0 };
+
+async function backfillBatch(conversations) {
+  const latest = await prisma.message.groupBy({
+    by: ['conversationId'],
+    where: {
+      conversationId: { in: conversations.map((c) => c.id) },
+      direction: 'inbound',
+    },
+    _max: { createdAt: true },
+  });
+  const lastInbound = new Map(latest.map((row) => [row.conversationId, row._max.createdAt]));
+
+  for (const conversation of conversations) {
+    const lastInboundAt = lastInbound.get(conversation.id);
+
+    if (!lastInboundAt) {
+      stats.withoutInbound++;
+      continue;
+    }
+
+    stats.updated++;
+    if (dryRun) {
+      continue;
+    }
+
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { lastInboundAt },
+    });
+  }
+}
+
+async function backfillConversationLastInbound() {
+  try {
+    if (dryRun) {
+      console.log('Dry run, nothing will be written\n');
+    }
+
+    // Paged by id: updated rows leave the filter, skipped ones must not be read again
+    let cursor;
+    for (;;) {
+      const conversations = await prisma.conversation.findMany({
+        where: { lastInboundAt: null, ...(cursor && { id: { gt: cursor } }) },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (!conversations.length) {
+        break;
+      }
+
+      await backfillBatch(conversations);
+      cursor = conversations[conversations.length - 1].id;
+    }
+
+    console.log('\n✅ Done');
+    console.log(`  Conversations updated: ${stats.updated}`);
+    console.log(`  Conversations without inbound messages: ${stats.withoutInbound}`);
+  } catch (error) {
+    console.error('Error backfilling conversations:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillConversationLastInbound();
@@ -0,0 +1,117 @@
+/**
+ * One-off migration: link campaign jobs sent before CampaignJob.messageId existed to
+ * the message they produced, so their delivered/read counts survive the switch from
+ * phone number matching to the direct link.
+ *
+ * A job is matched to the first unlinked outbound message to its number sent between
+ * the job's creation and its last update (when it was marked sent).
+ *
+ * Usage: node scripts/link-campaign-job-messages.js [--dry-run]
+ */
+
+const { buildDatabaseUrl, loadEnvFile } = require('./build-database-url');
+const { PrismaClient } = require('@prisma/client');
+
+const env = { ...process.env, ...loadEnvFile() };
+process.env.DATABASE_URL = buildDatabaseUrl(env);
+
+const dryRun = process.argv.includes('--dry-run');
+const prisma = new PrismaClient();
+
+// The message row is written after Meta answers, a moment after the send started
+const SEND_SLACK_MS = 60 * 1000;
+
+const stats = { linked: 0, unmatched: 0 };
+
+function deliveryData(message) {
+  switch (message.status) {
+    case 'read':
+      return { deliveryStatus: 'read', deliveredAt: message.updatedAt, readAt: message.updatedAt };
+    case 'delivered':
+      return { deliveryStatus: 'delivered', deliveredAt: message.updatedAt };
+    case 'failed':
+      return { deliveryStatus: 'failed' };
+    default:
+      return { deliveryStatus: 'sent' };
+  }
+}
+
+async function linkCampaign(campaign) {
+  const jobs = await prisma.campaignJob.findMany({
+    where: { campaignId: campaign.id, status: 'sent', localMessageId: null },
+    orderBy: { updatedAt: 'asc' },
+  });
+  if (!jobs.length) {
+    return;
+  }
+
+  console.log(`Campaign ${campaign.id}: ${jobs.length} unlinked sent jobs`);
+  const linkedIds = new Set();
+
+  for (const job of jobs) {
+    const candidates = await prisma.message.findMany({
+      where: {
+        wabaAccountId: campaign.wabaAccountId,
+        direction: 'outbound',
+        to: job.toNumber,
+        campaignJob: null,
+        createdAt: {
+          gte: job.createdAt,
+          lte: new Date(job.updatedAt.getTime() + SEND_SLACK_MS),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 5,
+    });
+    // In a dry run nothing is written, so skip messages this run already claimed
+    const message = candidates.find((m) => !linkedIds.has(m.id));
+
+    if (!message) {
+      stats.unmatched++;
+      continue;
+    }
+
+    linkedIds.add(message.id);
+    stats.linked++;
+    if (dryRun) {
+      continue;
+    }
+
+    await prisma.campaignJob.update({
+      where: { id: job.id },
+      data: {
+        messageId: message.messageId,
+        localMessageId: message.id,
+        ...deliveryData(message),
+      },
+    });
+  }
+}
+
+async function linkCampaignJobMessages() {
+  try {
+    if (dryRun) {
+      console.log('Dry run, nothing will be written\n');
+    }
+
+    const campaigns = await prisma.campaign.findMany({
+      select: { id: true, wabaAccountId: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const campaign of campaigns) {
+      await linkCampaign(campaign);
+    }
+
+    console.log('\n✅ Done');
+    console.log(`  Jobs linked: ${stats.linked}`);
+    console.log(`  Jobs without a matching message: ${stats.unmatched}`);
+  } catch (error) {
+    console.error('Error linking campaign messages:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+linkCampaignJobMessages();
@@ -0,0 +1,210 @@
+/**
+ * One-off migration: rewrite stored phone numbers to the canonical E.164 digits
+ * and merge the duplicate contacts and conversations created while numbers were
+ * stored exactly as typed ("11 99999-9999" vs "5511999999999").
+ *
+ * Usage: node scripts/merge-duplicate-conversations.js [--dry-run]
+ */
+
+// Reuse the exact normalization rules of the API
+require('ts-node').register({ transpileOnly: true });
+
+const { buildDatabaseUrl, loadEnvFile } = require('./build-database-url');
+const { PrismaClient } = require('@prisma/client');
+const { normalizePhoneNumber } = require('../src/common/utils/phone.util');
+
+const env = { ...process.env, ...loadEnvFile() };
+process.env.DATABASE_URL = buildDatabaseUrl(env);
+
+const dryRun = process.argv.includes('--dry-run');
+const prisma = new PrismaClient();
+
+const stats = {
+  contactsMerged: 0,
+  conversationsMerged: 0,
+  numbersRewritten: 0,
+  invalidNumbers: 0,
+};
+
+function groupByNumber(rows, getNumber, normalize) {
+  const groups = new Map();
+  for (const row of rows) {
+    const number = normalize(getNumber(row));
+    if (!number) {
+      stats.invalidNumbers++;
+      console.warn(`  ⚠️  Skipping invalid number "${getNumber(row)}" (${row.id})`);
+      continue;
+    }
+    groups.set(number, [...(groups.get(number) || []), row]);
+  }
+  return groups;
+}
+
+async function mergeContacts(shopId, normalize) {
+  // Oldest contact survives, it is the one most likely referenced elsewhere
+  const contacts = await prisma.contact.findMany({
+    where: { shopId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const [number, group] of groupByNumber(contacts, (c) => c.phoneNumber, normalize)) {
+    const [keep, ...duplicates] = group;
+    if (!duplicates.length && keep.phoneNumber === number) {
+      continue;
+    }
+
+    console.log(
+      `  Contact ${number}: ${group.map((c) => c.phoneNumber).join(', ')}`,
+    );
+    stats.contactsMerged += duplicates.length;
+    stats.numbersRewritten += keep.phoneNumber === number ? 0 : 1;
+    if (dryRun) {
+      continue;
+    }
+
+    const ids = duplicates.map((c) => c.id);
+    const memberships = await prisma.contactListMember.findMany({
+      where: { contactId: { in: ids } },
+      select: { listId: true },
+    });
+
+    await prisma.$transaction([
+      prisma.conversation.updateMany({
+        where: { contactId: { in: ids } },
+        data: { contactId: keep.id },
+      }),
+      prisma.campaignJob.updateMany({
+        where: { contactId: { in: ids } },
+        data: { contactId: keep.id },
+      }),
+      prisma.contactListMember.createMany({
+        data: memberships.map((m) => ({ listId: m.listId, contactId: keep.id })),
+        skipDuplicates: true,
+      }),
+      // Duplicates go first so the unique (shopId, phoneNumber) is free for the survivor
+      prisma.contact.deleteMany({ where: { id: { in: ids } } }),
+      prisma.contact.update({
+        where: { id: keep.id },
+        data: {
+          phoneNumber: number,
+          name: keep.name ?? group.find((c) => c.name)?.name ?? null,
+          profileName:
+            keep.profileName ?? group.find((c) => c.profileName)?.profileName ?? null,
+          customFields: Object.assign({}, ...[...group].reverse().map((c) => c.customFields || {})),
+          tags: [...new Set(group.flatMap((c) => c.tags || []))],
+          lastSeenAt: latest(group.map((c) => c.lastSeenAt)),
+        },
+      }),
+    ]);
+  }
+}
+
+async function mergeConversations(wabaAccountId, normalize) {
+  // Most recently active conversation survives and keeps its status and assignee
+  const conversations = await prisma.conversation.findMany({
+    where: { wabaAccountId },
+    orderBy: { lastAt: 'desc' },
+  });
+
+  for (const [number, group] of groupByNumber(conversations, (c) => c.contactNumber, normalize)) {
+    const [keep, ...duplicates] = group;
+    if (!duplicates.length && keep.contactNumber === number) {
+      continue;
+    }
+
+    console.log(
+      `  Conversation ${number}: ${group.map((c) => c.contactNumber).join(', ')}`,
+    );
+    stats.conversationsMerged += duplicates.length;
+    stats.numbersRewritten += keep.contactNumber === number ? 0 : 1;
+    if (dryRun) {
+      continue;
+    }
+
+    const ids = duplicates.map((c) => c.id);
+    await prisma.$transaction([
+      prisma.message.updateMany({
+        where: { conversationId: { in: ids } },
+        data: { conversationId: keep.id },
+      }),
+      prisma.conversation.deleteMany({ where: { id: { in: ids } } }),
+      prisma.conversation.update({
+        where: { id: keep.id },
+        data: {
+          contactNumber: number,
+          contactId: keep.contactId ?? group.find((c) => c.contactId)?.contactId ?? null,
+          unreadCount: group.reduce((sum, c) => sum + c.unreadCount, 0),
+          lastInboundAt: latest(group.map((c) => c.lastInboundAt)),
+        },
+      }),
+    ]);
+  }
+}
+
+/**
+ * Rewrite a free-standing number column (Message.to/from, CampaignJob.toNumber) value by value
+ */
+async function rewriteColumn(label, model, column, where, normalize) {
+  const values = await model.groupBy({ by: [column], where });
+
+  for (const row of values) {
+    const value = row[column];
+    const number = normalize(value);
+    if (!number || number === value) {
+      continue;
+    }
+
+    const { count } = dryRun
+      ? { count: await model.count({ where: { ...where, [column]: value } }) }
+      : await model.updateMany({
+          where: { ...where, [column]: value },
+          data: { [column]: number },
+        });
+    console.log(`  ${label} ${value} -> ${number} (${count} rows)`);
+    stats.numbersRewritten += count;
+  }
+}
+
+function latest(dates) {
+  return dates.filter(Boolean).sort((a, b) => b - a)[0] ?? null;
+}
+
+async function mergeDuplicateConversations() {
+  try {
+    if (dryRun) {
+      console.log('Dry run, nothing will be written\n');
+    }
+
+    const shops = await prisma.shop.findMany({
+      select: { id: true, name: true, defaultCountry: true, waba: { select: { id: true } } },
+    });
+
+    for (const shop of shops) {
+      console.log(`Shop ${shop.name} (${shop.id}, default country ${shop.defaultCountry})`);
+      const normalize = (value) => normalizePhoneNumber(value, shop.defaultCountry);
+
+      // Contacts first, so merged conversations point at the surviving contact
+      await mergeContacts(shop.id, normalize);
+
+      for (const { id: wabaAccountId } of shop.waba) {
+        await mergeConversations(wabaAccountId, normalize);
+        await rewriteColumn('Message.to', prisma.message, 'to', { wabaAccountId, direction: 'outbound' }, normalize);
+        await rewriteColumn('Message.from', prisma.message, 'from', { wabaAccountId, direction: 'inbound' }, normalize);
+        await rewriteColumn('CampaignJob.toNumber', prisma.campaignJob, 'toNumber', { campaign: { wabaAccountId } }, normalize);
+      }
+    }
+
+    console.log('\n✅ Done');
+    console.log(`  Contacts merged: ${stats.contactsMerged}`);
+    console.log(`  Conversations merged: ${stats.conversationsMerged}`);
+    console.log(`  Numbers rewritten: ${stats.numbersRewritten}`);
+    console.log(`  Invalid numbers left untouched: ${stats.invalidNumbers}`);
+  } catch (error) {
+    console.error('Error merging duplicates:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+mergeDuplicateConversations();
@@ -2,12 +2,17 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { PrismaModule } from './prisma/prisma.module';
+import { TenancyModule } from './tenancy/tenancy.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { PhoneNumbersModule } from './phone-numbers/phone-numbers.module';
 import { AuthModule } from './auth/auth.module';
 import { ShopsModule } from './shops/shops.module';
 import { WabaModule } from './waba/waba.module';
 import { WebhooksModule } from './webhooks/webhooks.module';
 import { MessagesModule } from './messages/messages.module';
 import { InboxModule } from './inbox/inbox.module';
+import { ContactsModule } from './contacts/contacts.module';
+import { ConsentModule } from './consent/consent.module';
 import { TemplatesModule } from './templates/templates.module';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { HealthModule } from './health/health.module';
@@ -37,12 +42,17 @@ import Redis from 'ioredis';
       },
     }),
     PrismaModule,
+    TenancyModule,
+    RealtimeModule,
+    PhoneNumbersModule,
     AuthModule,
     ShopsModule,
     WabaModule,
     WebhooksModule,
     MessagesModule,
     InboxModule,
+    ContactsModule,
+    ConsentModule,
     TemplatesModule,
     CampaignsModule,
     HealthModule,
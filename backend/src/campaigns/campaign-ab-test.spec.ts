@@ -0,0 +1,104 @@
+import { VariantResult, pickWinner, splitAudience } from './campaign-ab-test';
+
+const numbers = (count: number) =>
+  Array.from(
+    { length: count },
+    (_, i) => `55119999${String(i).padStart(5, '0')}`,
+  );
+
+const result = (
+  label: string,
+  rates: Partial<VariantResult> = {},
+): VariantResult => ({
+  variantId: label,
+  label,
+  templateId: `template-${label}`,
+  isWinner: false,
+  sentCount: 100,
+  deliveredCount: 100,
+  readCount: 0,
+  repliedCount: 0,
+  deliveryRate: 1,
+  readRate: 0,
+  replyRate: 0,
+  ...rates,
+});
+
+describe('splitAudience', () => {
+  it('deals the whole audience to the variants in turn', () => {
+    const audience = numbers(10);
+    const { assigned, held } = splitAudience(audience, 3);
+
+    expect(held).toEqual([]);
+    expect(assigned.map((a) => a.phoneNumber).sort()).toEqual(audience);
+    const counts = [0, 1, 2].map(
+      (index) => assigned.filter((a) => a.variantIndex === index).length,
+    );
+    expect(counts).toEqual([4, 3, 3]);
+  });
+
+  it('holds back the recipients outside the test share', () => {
+    const audience = numbers(101);
+    const { assigned, held } = splitAudience(audience, 2, 10);
+
+    // 10% of 101, rounded up
+    expect(assigned).toHaveLength(11);
+    expect(held).toHaveLength(90);
+    expect([...assigned.map((a) => a.phoneNumber), ...held].sort()).toEqual(
+      audience,
+    );
+  });
+
+  it('tests at least one recipient per variant', () => {
+    const { assigned, held } = splitAudience(numbers(20), 4, 5);
+
+    expect(assigned.map((a) => a.variantIndex)).toEqual([0, 1, 2, 3]);
+    expect(held).toHaveLength(16);
+  });
+
+  it('never tests more recipients than the audience has', () => {
+    const { assigned, held } = splitAudience(numbers(3), 4, 50);
+
+    expect(assigned).toHaveLength(3);
+    expect(held).toEqual([]);
+  });
+
+  it('handles an empty audience', () => {
+    expect(splitAudience([], 2, 10)).toEqual({ assigned: [], held: [] });
+  });
+});
+
+describe('pickWinner', () => {
+  it('picks the best rate on the metric', () => {
+    const results = [
+      result('A', { readRate: 0.4, replyRate: 0.2 }),
+      result('B', { readRate: 0.6, replyRate: 0.1 }),
+    ];
+
+    expect(pickWinner(results, 'read').label).toBe('B');
+    expect(pickWinner(results, 'reply').label).toBe('A');
+  });
+
+  it('breaks ties on the delivery rate', () => {
+    const results = [
+      result('A', { readRate: 0.5, deliveryRate: 0.9 }),
+      result('B', { readRate: 0.5, deliveryRate: 0.95 }),
+      result('C', { readRate: 0.5, deliveryRate: 0.8 }),
+    ];
+
+    expect(pickWinner(results, 'read').label).toBe('B');
+  });
+
+  it('keeps the earlier variant on a full tie', () => {
+    const results = [
+      result('A', { readRate: 0.5 }),
+      result('B', { readRate: 0.5 }),
+    ];
+
+    expect(pickWinner(results, 'read').label).toBe('A');
+  });
+
+  it('picks the earlier variant when nothing was read', () => {
+    expect(pickWinner([result('A'), result('B')], 'read').label).toBe('A');
+  });
+});
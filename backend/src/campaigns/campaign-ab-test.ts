@@ -0,0 +1,88 @@
+import { CampaignVariable } from './campaign-variables';
+
+export type AbTestMetric = 'read' | 'reply';
+
+export const AB_TEST_METRICS: AbTestMetric[] = ['read', 'reply'];
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+export interface CampaignVariantInput {
+  templateId: string;
+  variables?: CampaignVariable[];
+}
+
+/**
+ * Send to a share of the audience first, then release the rest with the variant
+ * that did best on the metric after the wait
+ */
+export interface AbTestSettings {
+  testPercentage: number;
+  waitHours: number;
+  metric: AbTestMetric;
+}
+
+export interface VariantResult {
+  variantId: string;
+  label: string;
+  templateId: string;
+  isWinner: boolean;
+  sentCount: number;
+  deliveredCount: number;
+  readCount: number;
+  repliedCount: number;
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+}
+
+/**
+ * Shuffle the audience and deal it to the variants in turn. With a test percentage
+ * only that share (at least one recipient per variant) is dealt; the rest is held
+ * for the winner.
+ */
+export function splitAudience(
+  phoneNumbers: string[],
+  variantCount: number,
+  testPercentage?: number,
+) {
+  const shuffled = [...phoneNumbers];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const testSize = testPercentage
+    ? Math.min(
+        shuffled.length,
+        Math.max(
+          variantCount,
+          Math.ceil((shuffled.length * testPercentage) / 100),
+        ),
+      )
+    : shuffled.length;
+
+  return {
+    assigned: shuffled.slice(0, testSize).map((phoneNumber, index) => ({
+      phoneNumber,
+      variantIndex: index % variantCount,
+    })),
+    held: shuffled.slice(testSize),
+  };
+}
+
+/**
+ * Best rate on the metric; ties go to the better delivery rate, then to the earlier variant
+ */
+export function pickWinner(results: VariantResult[], metric: AbTestMetric) {
+  const rate = (result: VariantResult) =>
+    metric === 'reply' ? result.replyRate : result.readRate;
+
+  return results.reduce((best, result) =>
+    rate(result) > rate(best) ||
+    (rate(result) === rate(best) && result.deliveryRate > best.deliveryRate)
+      ? result
+      : best,
+  );
+}
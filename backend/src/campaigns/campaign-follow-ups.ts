@@ -0,0 +1,46 @@
+export type CampaignFollowUpType = 'retry_failed' | 'not_read' | 'no_reply';
+
+export const CAMPAIGN_FOLLOW_UP_TYPES: CampaignFollowUpType[] = [
+  'retry_failed',
+  'not_read',
+  'no_reply',
+];
+
+/**
+ * Recorded as the error code of sends the Cloud API never answered (timeout,
+ * network error)
+ */
+export const NO_RESPONSE_ERROR_CODE = 408;
+
+/**
+ * Cloud API errors that are worth sending again later: rate limits, temporary
+ * outages, Meta holding back marketing messages (131049) and sends that got no
+ * response. HTTP statuses are recorded when the API gave no error code.
+ */
+export const RETRYABLE_ERROR_CODES = [
+  1, // API unknown
+  2, // API service
+  4, // Application rate limit
+  80007, // WABA rate limit
+  130429, // Cloud API throughput
+  131000, // Something went wrong
+  131016, // Service unavailable
+  131048, // Spam rate limit
+  131049, // Meta chose not to deliver (per-user marketing limit)
+  131056, // Pair rate limit
+  133004, // Server temporarily unavailable
+  NO_RESPONSE_ERROR_CODE,
+  429,
+  500,
+  502,
+  503,
+  504,
+];
+
+/**
+ * Failures without a code have no known cause, e.g. a failed delivery reported
+ * without an error, and are not sent again
+ */
+export function isRetryableError(errorCode: number | null) {
+  return errorCode !== null && RETRYABLE_ERROR_CODES.includes(errorCode);
+}
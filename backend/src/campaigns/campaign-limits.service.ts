@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  BusinessHours,
+  nextOpenTime,
+} from '../common/utils/business-hours.util';
+
+// Template categories Meta does not bill or treat as marketing
+const NON_MARKETING_CATEGORIES = ['UTILITY', 'AUTHENTICATION'];
+
+function isMarketing(history: unknown) {
+  return !NON_MARKETING_CATEGORIES.includes(
+    String((history as any)?.category ?? '').toUpperCase(),
+  );
+}
+
+/**
+ * Per-shop rules on when and how often campaign messages reach a contact: quiet
+ * hours outside the business hours and the marketing frequency cap
+ */
+@Injectable()
+export class CampaignLimitsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * When a campaign message may go out: now, or the next opening time when the shop
+   * holds campaigns outside its business hours
+   */
+  async getNextSendTime(shopId: string, now: Date = new Date()) {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: { timezone: true, businessHours: true, campaignQuietHours: true },
+    });
+
+    if (!shop?.campaignQuietHours || !shop.businessHours) {
+      return now;
+    }
+
+    // A week without opening hours would hold campaigns forever
+    return (
+      nextOpenTime(
+        shop.businessHours as unknown as BusinessHours,
+        shop.timezone,
+        now,
+      ) ?? now
+    );
+  }
+
+  /**
+   * Whether the contact already got the shop's maximum of marketing campaign messages
+   * in the rolling window. Templates without a known category count as marketing.
+   */
+  async isOverFrequencyCap(
+    shopId: string,
+    toNumber: string,
+    templateId: string | null,
+  ) {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: { frequencyCapCount: true, frequencyCapHours: true },
+    });
+
+    if (!shop?.frequencyCapCount || !templateId) {
+      return false;
+    }
+
+    const template = await this.prisma.template.findUnique({
+      where: { id: templateId },
+      select: { history: true },
+    });
+    if (!template || !isMarketing(template.history)) {
+      return false;
+    }
+
+    // Only this contact's sends in the window, a handful of rows at most
+    const since = new Date(
+      Date.now() - shop.frequencyCapHours * 60 * 60 * 1000,
+    );
+    const sentJobs = await this.prisma.campaignJob.findMany({
+      where: {
+        toNumber,
+        status: 'sent',
+        campaign: { wabaAccount: { shopId } },
+        message: { createdAt: { gte: since } },
+      },
+      select: {
+        campaign: { select: { templateId: true } },
+        // A/B test recipients got their variant's template
+        variant: { select: { templateId: true } },
+      },
+    });
+    if (sentJobs.length < shop.frequencyCapCount) {
+      return false;
+    }
+
+    const sentTemplateIds = sentJobs.map(
+      (job) => job.variant?.templateId ?? job.campaign.templateId,
+    );
+    const sentTemplates = await this.prisma.template.findMany({
+      where: { id: { in: [...new Set(sentTemplateIds.filter(Boolean))] } },
+      select: { id: true, history: true },
+    });
+    const marketingIds = new Set(
+      sentTemplates
+        .filter((sent) => isMarketing(sent.history))
+        .map((sent) => sent.id),
+    );
+    const sentCount = sentTemplateIds.filter((id) =>
+      marketingIds.has(id),
+    ).length;
+
+    return sentCount >= shop.frequencyCapCount;
+  }
+}
@@ -0,0 +1,207 @@
+import { Writable } from 'stream';
+import { Prisma } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { escapeCsv } from '../common/utils/csv.util';
+
+export type CampaignJobFilter =
+  | 'held'
+  | 'pending'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
+
+export const CAMPAIGN_JOB_FILTERS: CampaignJobFilter[] = [
+  'held',
+  'pending',
+  'sent',
+  'delivered',
+  'read',
+  'failed',
+  'skipped',
+  'cancelled',
+];
+
+export type CampaignReportFormat = 'csv' | 'xlsx';
+
+export const CAMPAIGN_REPORT_FORMATS: CampaignReportFormat[] = ['csv', 'xlsx'];
+
+export interface CampaignJobFilters {
+  status?: CampaignJobFilter;
+  // Only sent messages can be replied to, both values leave the others out
+  replied?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Job statuses tell how dispatch went; delivered and read come from status webhooks
+ * and a failure can come from either
+ */
+export function jobStatusWhere(
+  status?: CampaignJobFilter,
+): Prisma.CampaignJobWhereInput {
+  switch (status) {
+    case undefined:
+      return {};
+    case 'delivered':
+      return { deliveredAt: { not: null } };
+    case 'read':
+      return { readAt: { not: null } };
+    case 'failed':
+      return { OR: [{ status: 'failed' }, { deliveryStatus: 'failed' }] };
+    default:
+      return { status };
+  }
+}
+
+export const REPORT_JOB_INCLUDE = {
+  contact: { select: { name: true, profileName: true } },
+  variant: { select: { label: true } },
+  message: { select: { createdAt: true } },
+} satisfies Prisma.CampaignJobInclude;
+
+type ReportJob = Prisma.CampaignJobGetPayload<{
+  include: typeof REPORT_JOB_INCLUDE;
+}>;
+
+/**
+ * One recipient of the per-recipient report
+ */
+export function toJobReport(job: ReportJob) {
+  return {
+    id: job.id,
+    phoneNumber: job.toNumber,
+    name: job.contact?.name || job.contact?.profileName || null,
+    variant: job.variant?.label ?? null,
+    status: job.status,
+    deliveryStatus: job.deliveryStatus,
+    error: job.lastError,
+    errorCode: job.errorCode,
+    sentAt:
+      job.status === 'sent' ? (job.message?.createdAt ?? job.updatedAt) : null,
+    deliveredAt: job.deliveredAt,
+    readAt: job.readAt,
+    replied: job.repliedAt !== null,
+  };
+}
+
+export type JobReport = ReturnType<typeof toJobReport>;
+
+// Columns of the exported file, in order
+const REPORT_COLUMNS: { key: keyof JobReport; header: string }[] = [
+  { key: 'phoneNumber', header: 'phone' },
+  { key: 'name', header: 'name' },
+  { key: 'variant', header: 'variant' },
+  { key: 'status', header: 'status' },
+  { key: 'deliveryStatus', header: 'delivery_status' },
+  { key: 'error', header: 'error' },
+  { key: 'errorCode', header: 'error_code' },
+  { key: 'sentAt', header: 'sent_at' },
+  { key: 'deliveredAt', header: 'delivered_at' },
+  { key: 'readAt', header: 'read_at' },
+  { key: 'replied', header: 'replied' },
+];
+
+export interface ReportWriter {
+  // The output was closed, e.g. the client disconnected; nothing more gets written
+  readonly closed: boolean;
+  write(report: JobReport): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * Write report rows to the output as they come, so large campaigns are never held
+ * in memory as a whole file
+ */
+export function createReportWriter(
+  format: CampaignReportFormat,
+  output: Writable,
+): ReportWriter {
+  let closed = output.destroyed;
+  output.once('close', () => {
+    closed = true;
+  });
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+    });
+    const sheet = workbook.addWorksheet('Report');
+    sheet.columns = REPORT_COLUMNS.map(({ key, header }) => ({
+      key,
+      header,
+      width: key === 'error' ? 40 : 20,
+    }));
+
+    return {
+      get closed() {
+        return closed;
+      },
+      write: async (report) => {
+        sheet
+          .addRow({ ...report, replied: report.replied ? 'yes' : 'no' })
+          .commit();
+      },
+      end: async () => {
+        sheet.commit();
+        await workbook.commit();
+      },
+    };
+  }
+
+  const toLine = (cells: string[]) => cells.map(escapeCsv).join(',') + '\n';
+
+  // BOM so Excel opens accented names correctly
+  output.write('\uFEFF' + toLine(REPORT_COLUMNS.map(({ header }) => header)));
+
+  return {
+    get closed() {
+      return closed;
+    },
+    write: async (report) => {
+      const cells = REPORT_COLUMNS.map(({ key }) => {
+        const value = report[key];
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        if (typeof value === 'boolean') {
+          return value ? 'yes' : 'no';
+        }
+        return value === null ? '' : String(value);
+      });
+      // Wait for the client to catch up instead of buffering the whole report
+      if (!output.write(toLine(cells))) {
+        await drained(output);
+      }
+    },
+    end: async () => {
+      output.end();
+    },
+  };
+}
+
+/**
+ * Resolve once the output can take more data, or once it closes or fails, which
+ * never emits "drain"
+ */
+function drained(output: Writable) {
+  return new Promise<void>((resolve) => {
+    if (output.destroyed) {
+      return resolve();
+    }
+
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      output.off('error', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+    output.on('error', done);
+  });
+}
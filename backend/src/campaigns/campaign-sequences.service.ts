@@ -0,0 +1,344 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContactListsService } from '../contacts/contact-lists.service';
+import { ConsentService } from '../consent/consent.service';
+import { CampaignsService } from './campaigns.service';
+import { CampaignVariable } from './campaign-variables';
+
+export interface CampaignSequenceStepInput {
+  templateId: string;
+  variables?: CampaignVariable[];
+  // Hours after the sequence starts
+  delayHours: number;
+}
+
+export interface CampaignSequenceInput {
+  name: string;
+  contactListIds: string[];
+  exitOnReply?: boolean;
+  steps: CampaignSequenceStepInput[];
+}
+
+const stepJobId = (sequenceId: string, position: number) =>
+  `sequence-step-${sequenceId}-${position}`;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class CampaignSequencesService {
+  private readonly logger = new Logger(CampaignSequencesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue('campaign-sender') private campaignQueue: Queue,
+    private campaignsService: CampaignsService,
+    private contactListsService: ContactListsService,
+    private consent: ConsentService,
+  ) {}
+
+  async findAll(wabaAccountId: string) {
+    return this.prisma.campaignSequence.findMany({
+      where: { wabaAccountId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        steps: { orderBy: { position: 'asc' } },
+        campaigns: {
+          orderBy: { sequenceStep: 'asc' },
+          select: {
+            id: true,
+            status: true,
+            contactCount: true,
+            sequenceStep: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Save a sequence as a draft; nothing is sent until it is started
+   */
+  async create(wabaAccountId: string, input: CampaignSequenceInput) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+      select: { shopId: true },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    const steps = [...input.steps].sort((a, b) => a.delayHours - b.delayHours);
+
+    // Later steps go to whoever the first one reached, so it has to run first
+    if (
+      steps.some(
+        (step, i) => i > 0 && step.delayHours === steps[i - 1].delayHours,
+      )
+    ) {
+      throw new BadRequestException('Each step needs a different delay');
+    }
+
+    for (const step of steps) {
+      await this.campaignsService.findCampaignTemplate(
+        wabaAccountId,
+        step.templateId,
+      );
+    }
+    await this.contactListsService.resolveNumbers(
+      wabaAccount.shopId,
+      input.contactListIds,
+    );
+
+    const sequence = await this.prisma.campaignSequence.create({
+      data: {
+        wabaAccountId,
+        name: input.name,
+        contactListIds: input.contactListIds,
+        exitOnReply: input.exitOnReply ?? true,
+        status: 'draft',
+        steps: {
+          create: steps.map((step, position) => ({
+            position,
+            delayHours: step.delayHours,
+            templateId: step.templateId,
+            variables: step.variables?.length
+              ? (step.variables as unknown as Prisma.InputJsonValue)
+              : Prisma.JsonNull,
+          })),
+        },
+      },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+
+    this.logger.log(
+      `Created sequence ${sequence.id} with ${sequence.steps.length} steps`,
+    );
+    return sequence;
+  }
+
+  /**
+   * Queue every step as a delayed job counted from now
+   */
+  async start(id: string) {
+    const startedAt = new Date();
+    const { count } = await this.prisma.campaignSequence.updateMany({
+      where: { id, status: 'draft' },
+      data: { status: 'running', startedAt },
+    });
+
+    if (!count) {
+      throw new BadRequestException('Only draft sequences can be started');
+    }
+
+    const steps = await this.prisma.campaignSequenceStep.findMany({
+      where: { sequenceId: id },
+      orderBy: { position: 'asc' },
+    });
+
+    await Promise.all(
+      steps.map((step) =>
+        this.campaignQueue.add(
+          'run-sequence-step',
+          { sequenceId: id, position: step.position },
+          {
+            jobId: stepJobId(id, step.position),
+            delay: step.delayHours * HOUR_MS,
+          },
+        ),
+      ),
+    );
+
+    this.logger.log(`Started sequence ${id}`);
+    return { success: true, startedAt };
+  }
+
+  /**
+   * Drop the steps still to come; campaigns already created keep going
+   */
+  async cancel(id: string) {
+    const { count } = await this.prisma.campaignSequence.updateMany({
+      where: { id, status: 'running' },
+      data: { status: 'cancelled' },
+    });
+
+    if (!count) {
+      throw new BadRequestException('Only running sequences can be cancelled');
+    }
+
+    await this.removeStepJobs(id);
+    this.logger.log(`Cancelled sequence ${id}`);
+    return { success: true };
+  }
+
+  async remove(id: string) {
+    await this.removeStepJobs(id);
+    await this.prisma.campaignSequence.delete({ where: { id } });
+    this.logger.log(`Deleted sequence ${id}`);
+    return { success: true };
+  }
+
+  /**
+   * Create the campaign of one step; called by its delayed job. The first step goes to
+   * the lists, later ones to the first step's recipients minus those who exited. A
+   * failed step is recorded on the sequence; without its first step, or when the last
+   * one fails, the sequence ends as failed.
+   */
+  async runStep(id: string, position: number) {
+    const sequence = await this.prisma.campaignSequence.findUnique({
+      where: { id },
+      include: {
+        wabaAccount: { select: { shopId: true } },
+        steps: { orderBy: { position: 'asc' } },
+      },
+    });
+
+    if (sequence?.status !== 'running') {
+      return;
+    }
+
+    const step = sequence.steps.find((s) => s.position === position);
+    const isLast = position === sequence.steps.length - 1;
+
+    if (position > 0) {
+      const firstCampaign = await this.prisma.campaign.findFirst({
+        where: { sequenceId: id, sequenceStep: 0 },
+        select: { status: true },
+      });
+
+      // Cancelling the first step's campaign stops the follow-ups too
+      if (firstCampaign?.status === 'cancelled') {
+        await this.prisma.campaignSequence.updateMany({
+          where: { id, status: 'running' },
+          data: { status: 'cancelled' },
+        });
+        await this.removeStepJobs(id, position);
+        this.logger.log(
+          `Sequence ${id} cancelled with its first step's campaign`,
+        );
+        return;
+      }
+    }
+
+    try {
+      const contactNumbers =
+        position === 0
+          ? await this.contactListsService.resolveNumbers(
+              sequence.wabaAccount.shopId,
+              sequence.contactListIds as string[],
+            )
+          : await this.findRemaining(sequence);
+
+      if (contactNumbers.length === 0) {
+        this.logger.log(
+          `Sequence ${id} step ${position} has no recipients left`,
+        );
+      } else {
+        await this.campaignsService.create(sequence.wabaAccountId, {
+          templateId: step.templateId,
+          contactNumbers,
+          variables: (step.variables as unknown as CampaignVariable[]) ?? [],
+          sequenceId: id,
+          sequenceStep: position,
+        });
+        this.logger.log(
+          `Sequence ${id} step ${position} sent to ${contactNumbers.length} contacts`,
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`Sequence ${id} step ${position} failed:`, error);
+
+      // Without the first step later ones have nobody to follow up, and a failed last
+      // step must not leave the sequence looking completed
+      const failed = position === 0 || isLast;
+      await this.prisma.campaignSequence.update({
+        where: { id },
+        data: {
+          lastError: `Step ${position + 1}: ${error.message}`,
+          ...(failed && { status: 'failed' }),
+        },
+      });
+      if (failed) {
+        await this.removeStepJobs(id, position);
+      }
+      return;
+    }
+
+    if (isLast) {
+      await this.prisma.campaignSequence.updateMany({
+        where: { id, status: 'running' },
+        data: { status: 'completed' },
+      });
+    }
+  }
+
+  /**
+   * Recipients the first step reached who have not opted out since, nor replied to any
+   * step when the sequence exits on reply
+   */
+  private async findRemaining(sequence: {
+    id: string;
+    wabaAccount: { shopId: string };
+    exitOnReply: boolean;
+  }) {
+    const jobs = await this.prisma.campaignJob.findMany({
+      where: {
+        campaign: { sequenceId: sequence.id, sequenceStep: 0 },
+        status: 'sent',
+      },
+      select: { toNumber: true },
+    });
+    const numbers = jobs.map((job) => job.toNumber);
+
+    if (numbers.length === 0) {
+      return [];
+    }
+
+    const optedOut = await this.consent.findOptedOut(
+      sequence.wabaAccount.shopId,
+      numbers,
+    );
+    const replied = new Set<string>();
+
+    if (sequence.exitOnReply) {
+      const repliedJobs = await this.prisma.campaignJob.findMany({
+        where: {
+          campaign: { sequenceId: sequence.id },
+          repliedAt: { not: null },
+        },
+        select: { toNumber: true },
+        distinct: ['toNumber'],
+      });
+      repliedJobs.forEach((job) => replied.add(job.toNumber));
+    }
+
+    return numbers.filter(
+      (number) => !optedOut.has(number) && !replied.has(number),
+    );
+  }
+
+  /**
+   * Remove the delayed jobs of the steps after the given one (all of them by default);
+   * a step that is running cannot remove its own job
+   */
+  private async removeStepJobs(id: string, after = -1) {
+    const steps = await this.prisma.campaignSequenceStep.findMany({
+      where: { sequenceId: id, position: { gt: after } },
+      select: { position: true },
+    });
+    await Promise.all(
+      steps.map((step) =>
+        this.campaignQueue.remove(stepJobId(id, step.position)),
+      ),
+    );
+  }
+}
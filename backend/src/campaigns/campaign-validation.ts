@@ -0,0 +1,68 @@
+export type CampaignMode = 'send' | 'dry_run' | 'test';
+
+export const CAMPAIGN_MODES: CampaignMode[] = ['send', 'dry_run', 'test'];
+
+export const MAX_TEST_NUMBERS = 5;
+
+export type RecipientIssue =
+  | 'invalid_number'
+  | 'duplicate'
+  | 'opted_out'
+  | 'missing_variables'
+  | 'over_capacity';
+
+// A recipient as it came from a list or was typed, before normalization
+export interface AudienceEntry {
+  input: string;
+  phoneNumber: string | null;
+}
+
+export interface RecipientReport extends AudienceEntry {
+  issues: RecipientIssue[];
+  // Placeholder labels left without a value, e.g. "body {{1}}"
+  missingVariables: string[];
+}
+
+/**
+ * Check every entry of the audience the way create() and the worker would: entries
+ * that do not normalize are dropped, repeated numbers are sent once, opted-out
+ * recipients are skipped and recipients beyond the remaining messaging limit wait
+ * for capacity (null: unlimited).
+ */
+export function buildRecipientReports(
+  entries: AudienceEntry[],
+  optedOut: Set<string>,
+  missingVariables: Map<string, string[]>,
+  remaining: number | null,
+): RecipientReport[] {
+  const seen = new Set<string>();
+  let sendable = 0;
+
+  return entries.map((entry) => {
+    const issues: RecipientIssue[] = [];
+    const missing = entry.phoneNumber
+      ? (missingVariables.get(entry.phoneNumber) ?? [])
+      : [];
+
+    if (!entry.phoneNumber) {
+      issues.push('invalid_number');
+    } else if (seen.has(entry.phoneNumber)) {
+      issues.push('duplicate');
+    } else {
+      seen.add(entry.phoneNumber);
+      if (optedOut.has(entry.phoneNumber)) {
+        issues.push('opted_out');
+      } else {
+        if (missing.length) {
+          issues.push('missing_variables');
+        }
+        if (remaining !== null && sendable >= remaining) {
+          issues.push('over_capacity');
+        }
+        sendable++;
+      }
+    }
+
+    return { ...entry, issues, missingVariables: missing };
+  });
+}
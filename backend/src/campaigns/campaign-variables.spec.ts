@@ -0,0 +1,130 @@
+import {
+  CampaignVariable,
+  TemplatePlaceholder,
+  getTemplatePlaceholders,
+  renderTemplateText,
+  resolveRecipientVariables,
+  validateVariableMapping,
+} from './campaign-variables';
+
+const placeholders: TemplatePlaceholder[] = [
+  { component: 'header', key: '1' },
+  { component: 'body', key: '1' },
+  { component: 'body', key: 'coupon' },
+];
+
+const variables: CampaignVariable[] = [
+  { component: 'header', key: '1', source: 'text', value: 'Sale' },
+  { component: 'body', key: '1', source: 'name', fallback: 'customer' },
+  { component: 'body', key: 'coupon', source: 'field', value: 'coupon' },
+];
+
+describe('getTemplatePlaceholders', () => {
+  it('lists header and body placeholders once, in order of appearance', () => {
+    expect(
+      getTemplatePlaceholders([
+        { type: 'HEADER', format: 'TEXT', text: '{{1}} week' },
+        { type: 'BODY', text: 'Hi {{2}}, use {{coupon}}. Bye {{2}}' },
+        { type: 'FOOTER', text: '{{3}}' },
+      ]),
+    ).toEqual([
+      { component: 'header', key: '1' },
+      { component: 'body', key: '2' },
+      { component: 'body', key: 'coupon' },
+    ]);
+  });
+
+  it('skips media headers', () => {
+    expect(
+      getTemplatePlaceholders([
+        { type: 'HEADER', format: 'IMAGE' },
+        { type: 'BODY', text: 'Hi {{1}}' },
+      ]),
+    ).toEqual([{ component: 'body', key: '1' }]);
+  });
+});
+
+describe('validateVariableMapping', () => {
+  it('accepts one usable mapping per placeholder', () => {
+    expect(validateVariableMapping(placeholders, variables)).toEqual([]);
+  });
+
+  it('reports unmapped, duplicate, unknown and empty mappings', () => {
+    expect(
+      validateVariableMapping(placeholders, [
+        { component: 'body', key: '1', source: 'name' },
+        { component: 'body', key: '1', source: 'phone' },
+        { component: 'body', key: 'coupon', source: 'field', value: ' ' },
+        { component: 'header', key: '2', source: 'phone' },
+      ]),
+    ).toEqual([
+      '{{1}} in the header is not mapped',
+      '{{1}} in the body is mapped more than once',
+      '{{coupon}} in the body needs a value',
+      'Template has no {{2}} in the header',
+    ]);
+  });
+});
+
+describe('resolveRecipientVariables', () => {
+  it('fills each placeholder from its source', () => {
+    expect(
+      resolveRecipientVariables(placeholders, variables, {
+        phoneNumber: '5511999998888',
+        name: 'Ana',
+        customFields: { coupon: 'SAVE10' },
+      }),
+    ).toEqual({
+      components: [
+        { type: 'header', parameters: [{ type: 'text', text: 'Sale' }] },
+        {
+          type: 'body',
+          parameters: [
+            { type: 'text', text: 'Ana' },
+            { type: 'text', text: 'SAVE10' },
+          ],
+        },
+      ],
+      missing: [],
+    });
+  });
+
+  it('uses the fallback and reports placeholders left empty', () => {
+    const { components, missing } = resolveRecipientVariables(
+      placeholders,
+      variables,
+      { phoneNumber: '5511999998888', name: '  ', customFields: null },
+    );
+
+    expect(components[1].parameters).toEqual([
+      { type: 'text', text: 'customer' },
+      { type: 'text', text: '' },
+    ]);
+    expect(missing).toEqual([{ component: 'body', key: 'coupon' }]);
+  });
+
+  it('returns no components for a template without placeholders', () => {
+    expect(
+      resolveRecipientVariables([], [], { phoneNumber: '5511999998888' }),
+    ).toEqual({ components: [], missing: [] });
+  });
+});
+
+describe('renderTemplateText', () => {
+  it('substitutes the text parameters', () => {
+    expect(
+      renderTemplateText('Hi {{1}}, use {{coupon}}', {
+        type: 'body',
+        parameters: [
+          { type: 'text', text: 'Ana' },
+          { type: 'text', text: 'SAVE10' },
+        ],
+      }),
+    ).toBe('Hi Ana, use SAVE10');
+  });
+
+  it('keeps placeholders without a value', () => {
+    expect(renderTemplateText('Hi {{1}}', undefined)).toBe('Hi {{1}}');
+    expect(renderTemplateText(undefined, undefined)).toBeNull();
+  });
+});
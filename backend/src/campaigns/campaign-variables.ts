@@ -0,0 +1,183 @@
+import { TemplateComponentInput } from '../messages/template-components';
+
+export type CampaignVariableSource = 'name' | 'phone' | 'field' | 'text';
+
+export const CAMPAIGN_VARIABLE_SOURCES: CampaignVariableSource[] = [
+  'name',
+  'phone',
+  'field',
+  'text',
+];
+
+export type TemplateVariableComponent = 'header' | 'body';
+
+/**
+ * Where the value of one template placeholder comes from for each recipient
+ */
+export interface CampaignVariable {
+  component: TemplateVariableComponent;
+  // Placeholder as written in the template ("1" for {{1}}, "first_name" for {{first_name}})
+  key: string;
+  source: CampaignVariableSource;
+  // Custom field key for 'field' (CSV columns imported into a list), the text itself for 'text'
+  value?: string;
+  // Used when the recipient has no value for the field
+  fallback?: string;
+}
+
+export interface TemplatePlaceholder {
+  component: TemplateVariableComponent;
+  key: string;
+}
+
+export interface CampaignRecipient {
+  phoneNumber: string;
+  name?: string | null;
+  customFields?: Record<string, string> | null;
+}
+
+// Distinct placeholders in order of first appearance, which is the order Meta expects parameters in
+function getPlaceholderKeys(text?: string): string[] {
+  const matches = text?.match(/{{\s*\w+\s*}}/g) || [];
+  return [...new Set(matches.map((m) => m.replace(/[{}\s]/g, '')))];
+}
+
+/**
+ * Text variables of the template header and body. Media headers and button
+ * parameters are not per-recipient and cannot be mapped.
+ */
+export function getTemplatePlaceholders(
+  definition: any[],
+): TemplatePlaceholder[] {
+  const findDefinition = (type: string) =>
+    definition.find((c) => String(c.type).toUpperCase() === type);
+
+  const header = findDefinition('HEADER');
+  const headerKeys =
+    header && String(header.format || 'TEXT').toUpperCase() === 'TEXT'
+      ? getPlaceholderKeys(header.text)
+      : [];
+
+  return [
+    ...headerKeys.map((key) => ({ component: 'header' as const, key })),
+    ...getPlaceholderKeys(findDefinition('BODY')?.text).map((key) => ({
+      component: 'body' as const,
+      key,
+    })),
+  ];
+}
+
+export function placeholderLabel(placeholder: TemplatePlaceholder) {
+  return `{{${placeholder.key}}} in the ${placeholder.component}`;
+}
+
+/**
+ * Check that every placeholder has exactly one usable mapping
+ * Returns a list of human readable problems (empty when valid)
+ */
+export function validateVariableMapping(
+  placeholders: TemplatePlaceholder[],
+  variables: CampaignVariable[],
+): string[] {
+  const errors: string[] = [];
+  const matches = (
+    variable: CampaignVariable,
+    placeholder: TemplatePlaceholder,
+  ) =>
+    variable.component === placeholder.component &&
+    variable.key === placeholder.key;
+
+  for (const placeholder of placeholders) {
+    const mapped = variables.filter((v) => matches(v, placeholder));
+    if (mapped.length === 0) {
+      errors.push(`${placeholderLabel(placeholder)} is not mapped`);
+    } else if (mapped.length > 1) {
+      errors.push(`${placeholderLabel(placeholder)} is mapped more than once`);
+    }
+  }
+
+  for (const variable of variables) {
+    if (!placeholders.some((p) => matches(variable, p))) {
+      errors.push(`Template has no ${placeholderLabel(variable)}`);
+    } else if (
+      ['field', 'text'].includes(variable.source) &&
+      !variable.value?.trim()
+    ) {
+      errors.push(`${placeholderLabel(variable)} needs a value`);
+    }
+  }
+
+  return errors;
+}
+
+function resolveValue(
+  variable: CampaignVariable,
+  recipient: CampaignRecipient,
+) {
+  switch (variable.source) {
+    case 'name':
+      return recipient.name;
+    case 'phone':
+      return recipient.phoneNumber;
+    case 'field':
+      return recipient.customFields?.[variable.value];
+    default:
+      return variable.value;
+  }
+}
+
+/**
+ * Fill the template placeholders for one recipient. Placeholders left empty
+ * (no value and no fallback) are reported in missing.
+ */
+export function resolveRecipientVariables(
+  placeholders: TemplatePlaceholder[],
+  variables: CampaignVariable[],
+  recipient: CampaignRecipient,
+) {
+  const missing: TemplatePlaceholder[] = [];
+  const components: TemplateComponentInput[] = [];
+
+  for (const component of ['header', 'body'] as const) {
+    const parameters = placeholders
+      .filter((p) => p.component === component)
+      .map((placeholder) => {
+        const variable = variables.find(
+          (v) => v.component === component && v.key === placeholder.key,
+        );
+        const text =
+          String(resolveValue(variable, recipient) ?? '').trim() ||
+          variable.fallback?.trim() ||
+          '';
+        if (!text) {
+          missing.push(placeholder);
+        }
+        return { type: 'text' as const, text };
+      });
+
+    if (parameters.length) {
+      components.push({ type: component, parameters });
+    }
+  }
+
+  return { components, missing };
+}
+
+/**
+ * Substitute text parameters into a header or body text, for previews
+ */
+export function renderTemplateText(
+  text: string | undefined,
+  component: TemplateComponentInput | undefined,
+): string | null {
+  if (!text) {
+    return null;
+  }
+
+  const keys = getPlaceholderKeys(text);
+  const values = component?.parameters.map((p) => p.text) || [];
+  return text.replace(
+    /{{\s*(\w+)\s*}}/g,
+    (match: string, key: string) => values[keys.indexOf(key)] || match,
+  );
+}
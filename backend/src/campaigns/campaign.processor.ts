@@ -1,9 +1,27 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DelayedError, Job } from 'bullmq';
+import { Message } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { MessagesService } from '../messages/messages.service';
 import { ConfigService } from '@nestjs/config';
 import { RateLimiterUtil } from '../common/utils/rate-limiter.util';
+import { ConsentService } from '../consent/consent.service';
+import { CampaignsService } from './campaigns.service';
+import { CampaignLimitsService } from './campaign-limits.service';
+import { RecurringCampaignsService } from './recurring-campaigns.service';
+import { CampaignSequencesService } from './campaign-sequences.service';
+import { MessagingLimitService } from '../waba/messaging-limit.service';
+import { TemplateComponentInput } from '../messages/template-components';
+import { MetaSendException } from '../messages/meta-send.exception';
+import {
+  NO_RESPONSE_ERROR_CODE,
+  isRetryableError,
+} from './campaign-follow-ups';
 
 @Processor('campaign-sender')
 export class CampaignProcessor extends WorkerHost {
@@ -14,14 +32,65 @@ export class CampaignProcessor extends WorkerHost {
     private messagesService: MessagesService,
     private configService: ConfigService,
     private rateLimiter: RateLimiterUtil,
+    private consent: ConsentService,
+    private campaignsService: CampaignsService,
+    private campaignLimits: CampaignLimitsService,
+    private messagingLimits: MessagingLimitService,
+    private recurringCampaigns: RecurringCampaignsService,
+    private sequences: CampaignSequencesService,
   ) {
     super();
     this.rateLimit = parseInt(configService.get<string>('RATE_LIMIT_DEFAULT') || '10');
   }
 
-  async process(job: Job) {
+  async process(job: Job, token?: string) {
+    // Delayed job added for scheduled campaigns
+    if (job.name === 'start-campaign') {
+      await this.campaignsService.start(job.data.campaignId);
+      return;
+    }
+
+    // Delayed job that ends the test phase of an A/B test
+    if (job.name === 'release-winner') {
+      await this.campaignsService.releaseWinner(job.data.campaignId);
+      return;
+    }
+
+    // Repeated by the recurring campaign's job scheduler
+    if (job.name === 'run-recurring') {
+      await this.recurringCampaigns.run(job.data.recurringCampaignId);
+      return;
+    }
+
+    // Delayed job of one sequence step
+    if (job.name === 'run-sequence-step') {
+      await this.sequences.runStep(job.data.sequenceId, job.data.position);
+      return;
+    }
+
     const { campaignId, jobId, wabaAccountId, templateId, toNumber } = job.data;
 
+    const [campaign, campaignJob] = await Promise.all([
+      this.prisma.campaign.findUnique({
+        where: { id: campaignId },
+        select: { status: true, isTest: true },
+      }),
+      this.prisma.campaignJob.findUnique({
+        where: { id: jobId },
+        select: { status: true, parameters: true },
+      }),
+    ]);
+
+    // Already handled, e.g. a copy queued again when the campaign was resumed
+    if (!campaign || !campaignJob || campaignJob.status !== 'pending') {
+      return;
+    }
+
+    // Paused or cancelled: leave the job for resume() (or cancel()) instead of sending it
+    if (campaign.status !== 'sending') {
+      return;
+    }
+
     try {
       // Get WABA account to get phoneId for rate limiting
       const wabaAccount = await this.prisma.wabaAccount.findUnique({
@@ -29,12 +98,62 @@ export class CampaignProcessor extends WorkerHost {
       });
 
       if (!wabaAccount) {
-        throw new Error('WABA account not found');
+        throw new NotFoundException('WABA account not found');
+      }
+
+      // Opt-outs are checked at send time, the contact may have replied STOP after the campaign was created
+      if (await this.consent.isOptedOut(wabaAccount.shopId, toNumber)) {
+        await this.prisma.campaignJob.update({
+          where: { id: jobId },
+          data: { status: 'skipped', lastError: 'Recipient opted out' },
+        });
+        await this.completeCampaignIfDone(campaignId);
+        return;
+      }
+
+      // Quiet hours: hand the job back to the queue until the shop opens again.
+      // Test sends to the team's own numbers skip it, and the frequency cap too.
+      const sendAt = campaign.isTest
+        ? new Date()
+        : await this.campaignLimits.getNextSendTime(wabaAccount.shopId);
+      if (sendAt.getTime() > Date.now()) {
+        await job.moveToDelayed(sendAt.getTime(), token);
+        throw new DelayedError();
+      }
+
+      if (
+        !campaign.isTest &&
+        (await this.campaignLimits.isOverFrequencyCap(
+          wabaAccount.shopId,
+          toNumber,
+          templateId,
+        ))
+      ) {
+        await this.prisma.campaignJob.update({
+          where: { id: jobId },
+          data: { status: 'skipped', lastError: 'Frequency cap reached' },
+        });
+        await this.completeCampaignIfDone(campaignId);
+        return;
+      }
+
+      // Templates start conversations, which count towards the number's messaging limit
+      // tier; at the limit the job waits until a recipient leaves the 24h window
+      if (templateId) {
+        const { allowed, retryAt } = await this.messagingLimits.reserve(
+          wabaAccount,
+          toNumber,
+        );
+        if (!allowed) {
+          await job.moveToDelayed(retryAt.getTime(), token);
+          throw new DelayedError();
+        }
       }
 
       // Rate limiting: Use Redis token bucket per phoneId
       await this.rateLimiter.waitForRateLimit(wabaAccount.phoneId, this.rateLimit, this.rateLimit);
 
+      let message: Message;
       if (templateId) {
         // Send template message
         const template = await this.prisma.template.findUnique({
@@ -42,65 +161,132 @@ export class CampaignProcessor extends WorkerHost {
         });
 
         if (template && template.status === 'approved') {
-          await this.messagesService.sendTemplateMessage(
+          // Parameters were resolved per recipient when the campaign was created
+          message = await this.messagesService.sendTemplateMessage(
             wabaAccountId,
             toNumber,
             template.name,
             template.language,
+            undefined,
+            undefined,
+            (campaignJob.parameters as unknown as TemplateComponentInput[]) ??
+              undefined,
           );
         } else {
-          throw new Error('Template not approved');
+          throw new BadRequestException('Template not approved');
         }
       } else {
         // Send plain text message (24h window)
-        await this.messagesService.sendMessage(wabaAccountId, toNumber, 'Campaign message');
+        message = await this.messagesService.sendMessage(
+          wabaAccountId,
+          toNumber,
+          'Campaign message',
+        );
       }
 
-      // Update job status
+      // Update job status; the message link lets status webhooks update the job directly
       await this.prisma.campaignJob.update({
         where: { id: jobId },
         data: {
           status: 'sent',
           attempts: { increment: 1 },
+          messageId: message.messageId,
+          localMessageId: message.id,
+          deliveryStatus: 'sent',
         },
       });
+      await this.applyEarlyStatus(jobId, message.id);
 
-      // Check if campaign is complete
-      const campaign = await this.prisma.campaign.findUnique({
-        where: { id: campaignId },
-        include: { jobs: true },
-      });
-
-      if (campaign) {
-        const pendingJobs = campaign.jobs.filter((j) => j.status === 'pending');
-        if (pendingJobs.length === 0) {
-          await this.prisma.campaign.update({
-            where: { id: campaignId },
-            data: { status: 'completed' },
-          });
-        }
-      }
+      await this.completeCampaignIfDone(campaignId);
     } catch (error) {
+      // Deferred (quiet hours, messaging limit), not a failure
+      if (error instanceof DelayedError) {
+        throw error;
+      }
+
       console.error('Campaign job error:', error);
 
-      // Update job with error
+      // Transient failures are retried by BullMQ with backoff while attempts are left;
+      // until then the job stays pending, so the campaign is not completed under the retry
+      const errorCode = this.getErrorCode(error);
+      const willRetry =
+        isRetryableError(errorCode) &&
+        job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+
       await this.prisma.campaignJob.update({
         where: { id: jobId },
         data: {
-          status: 'failed',
+          status: willRetry ? 'pending' : 'failed',
           attempts: { increment: 1 },
           lastError: error.message,
+          errorCode,
         },
       });
 
-      // Retry logic: retry up to 3 times
-      const job = await this.prisma.campaignJob.findUnique({
-        where: { id: jobId },
-      });
-
-      if (job && job.attempts < 3) {
-        throw error; // Will trigger retry
+      if (willRetry) {
+        throw error;
       }
+
+      // Out of retries, this may have been the last job of the campaign
+      await this.completeCampaignIfDone(campaignId);
+    }
+  }
+
+  /**
+   * Meta's code for rejected sends (or NO_RESPONSE_ERROR_CODE when the API never
+   * answered), the HTTP status for other request errors, and null for anything else
+   */
+  private getErrorCode(error: any): number | null {
+    if (error instanceof MetaSendException) {
+      return error.metaErrorCode ?? NO_RESPONSE_ERROR_CODE;
+    }
+    return error instanceof HttpException ? error.getStatus() : null;
+  }
+
+  /**
+   * Status webhooks can arrive before the job is linked to its message and then find
+   * no job to update; they always update the message first, so catch up from it
+   */
+  private async applyEarlyStatus(jobId: string, localMessageId: string) {
+    const message = await this.prisma.message.findUnique({
+      where: { id: localMessageId },
+      select: { status: true, updatedAt: true },
+    });
+
+    switch (message?.status) {
+      // Only fill in what no webhook has applied to the job yet
+      case 'delivered':
+      case 'read':
+        await this.prisma.campaignJob.updateMany({
+          where: { id: jobId, deliveredAt: null },
+          data: {
+            deliveryStatus: message.status,
+            deliveredAt: message.updatedAt,
+            ...(message.status === 'read' && { readAt: message.updatedAt }),
+          },
+        });
+        break;
+      case 'failed':
+        await this.prisma.campaignJob.updateMany({
+          where: { id: jobId, deliveryStatus: 'sent' },
+          data: { deliveryStatus: 'failed', lastError: 'Delivery failed' },
+        });
+        break;
+    }
+  }
+
+  private async completeCampaignIfDone(campaignId: string) {
+    // Recipients held back for the winner of an A/B test are still to be sent
+    const pendingJobs = await this.prisma.campaignJob.count({
+      where: { campaignId, status: { in: ['pending', 'held'] } },
+    });
+
+    // Paused and cancelled campaigns keep their status
+    if (pendingJobs === 0) {
+      await this.prisma.campaign.updateMany({
+        where: { id: campaignId, status: 'sending' },
+        data: { status: 'completed' },
+      });
     }
   }
 }
@@ -1,8 +1,115 @@
-import { Controller, Get, Post, Body, Param, UseGuards, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  Res,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response } from 'express';
 import { CampaignsService } from './campaigns.service';
 import { CampaignCostService } from './campaign-cost.service';
+import { RecurringCampaignsService } from './recurring-campaigns.service';
+import { CampaignSequencesService } from './campaign-sequences.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
-import { IsString, IsArray, IsOptional } from 'class-validator';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import {
+  IsString,
+  IsArray,
+  IsOptional,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsInt,
+  IsBoolean,
+  Matches,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  CAMPAIGN_VARIABLE_SOURCES,
+  CampaignVariableSource,
+  TemplateVariableComponent,
+} from './campaign-variables';
+import {
+  CAMPAIGN_FOLLOW_UP_TYPES,
+  CampaignFollowUpType,
+} from './campaign-follow-ups';
+import {
+  AB_TEST_METRICS,
+  AbTestMetric,
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+} from './campaign-ab-test';
+import {
+  CAMPAIGN_MODES,
+  CampaignMode,
+  MAX_TEST_NUMBERS,
+} from './campaign-validation';
+import {
+  CAMPAIGN_JOB_FILTERS,
+  CAMPAIGN_REPORT_FORMATS,
+  CampaignJobFilter,
+  CampaignReportFormat,
+} from './campaign-report';
+
+class CampaignVariableDto {
+  @IsIn(['header', 'body'])
+  component: TemplateVariableComponent;
+
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @IsIn(CAMPAIGN_VARIABLE_SOURCES)
+  source: CampaignVariableSource;
+
+  @IsString()
+  @IsOptional()
+  value?: string;
+
+  @IsString()
+  @IsOptional()
+  fallback?: string;
+}
+
+class CampaignVariantDto {
+  @IsString()
+  templateId: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+}
+
+class AbTestDto {
+  // Share of the audience that receives the variants; the rest gets the winner
+  @IsInt()
+  @Min(5)
+  @Max(50)
+  testPercentage: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(72)
+  waitHours: number;
+
+  @IsIn(AB_TEST_METRICS)
+  metric: AbTestMetric;
+}
 
 class CreateCampaignDto {
   @IsString()
@@ -13,37 +120,242 @@ class CreateCampaignDto {
   templateId?: string;
 
   @IsArray()
-  contactNumbers: string[];
+  @IsString({ each: true })
+  @IsOptional()
+  contactNumbers?: string[];
+
+  // Saved lists are resolved to numbers server-side
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  contactListIds?: string[];
+
+  // Without an offset ("2024-12-24T09:00") it is read in the shop's timezone
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string;
+
+  // Maps each template placeholder to a contact field, custom field or fixed text
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+
+  // A/B test between templates, each with its own variable mapping
+  @IsArray()
+  @ArrayMinSize(MIN_VARIANTS)
+  @ArrayMaxSize(MAX_VARIANTS)
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariantDto)
+  @IsOptional()
+  variants?: CampaignVariantDto[];
+
+  // Test on part of the audience first; without it the whole audience is split
+  @ValidateNested()
+  @Type(() => AbTestDto)
+  @IsOptional()
+  abTest?: AbTestDto;
+
+  // dry_run returns a per-recipient validation report, test sends only to testNumbers
+  @IsIn(CAMPAIGN_MODES)
+  @IsOptional()
+  mode?: CampaignMode;
+
+  // Required (and only read) in test mode
+  @ValidateIf((dto) => dto.mode === 'test')
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_TEST_NUMBERS)
+  @IsString({ each: true })
+  testNumbers?: string[];
+}
+
+class CreateFollowUpDto {
+  @IsIn(CAMPAIGN_FOLLOW_UP_TYPES)
+  type: CampaignFollowUpType;
+
+  // A different template for the follow-up; the original one is reused when absent
+  @IsString()
+  @IsOptional()
+  templateId?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string;
+}
+
+class RescheduleCampaignDto {
+  @IsDateString()
+  scheduledAt: string;
+}
+
+// Five cron fields: minute hour day-of-month month day-of-week
+const CRON_PATTERN = /^(\S+\s+){4}\S+$/;
+
+class RecurringCampaignDto {
+  @IsString()
+  wabaAccountId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  templateId: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+
+  // Resolved again on every run, so list changes reach the next campaign
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  contactListIds: string[];
+
+  // Read in the shop's timezone
+  @Matches(CRON_PATTERN, { message: 'cron must have five fields' })
+  cron: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+class UpdateRecurringCampaignDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  templateId?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsOptional()
+  contactListIds?: string[];
+
+  @Matches(CRON_PATTERN, { message: 'cron must have five fields' })
+  @IsOptional()
+  cron?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+class CampaignSequenceStepDto {
+  @IsString()
+  templateId: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignVariableDto)
+  @IsOptional()
+  variables?: CampaignVariableDto[];
+
+  // Hours after the sequence starts; the first step may go out right away
+  @IsInt()
+  @Min(0)
+  delayHours: number;
+}
+
+class CampaignSequenceDto {
+  @IsString()
+  wabaAccountId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  contactListIds: string[];
+
+  // Opted-out recipients always leave the sequence
+  @IsBoolean()
+  @IsOptional()
+  exitOnReply?: boolean;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => CampaignSequenceStepDto)
+  steps: CampaignSequenceStepDto[];
 }
 
 @Controller('campaigns')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class CampaignsController {
   constructor(
     private campaignsService: CampaignsService,
     private campaignCostService: CampaignCostService,
+    private recurringCampaignsService: RecurringCampaignsService,
+    private campaignSequencesService: CampaignSequencesService,
   ) {}
 
   @Post()
+  @OwnsResource(
+    { resource: 'wabaAccount', body: 'wabaAccountId', role: 'admin' },
+    { resource: 'template', body: 'templateId', optional: true },
+  )
   async create(@Body() createCampaignDto: CreateCampaignDto) {
-    return this.campaignsService.create(
-      createCampaignDto.wabaAccountId,
-      createCampaignDto.templateId || null,
-      createCampaignDto.contactNumbers,
-    );
+    return this.campaignsService.create(createCampaignDto.wabaAccountId, {
+      templateId: createCampaignDto.templateId || null,
+      contactNumbers: createCampaignDto.contactNumbers || [],
+      contactListIds: createCampaignDto.contactListIds || [],
+      scheduledAt: createCampaignDto.scheduledAt,
+      variables: createCampaignDto.variables || [],
+      variants: createCampaignDto.variants,
+      abTest: createCampaignDto.abTest,
+      mode: createCampaignDto.mode,
+      testNumbers: createCampaignDto.testNumbers,
+    });
+  }
+
+  @Post('preview')
+  @OwnsResource(
+    { resource: 'wabaAccount', body: 'wabaAccountId' },
+    { resource: 'template', body: 'templateId', optional: true },
+  )
+  async preview(@Body() createCampaignDto: CreateCampaignDto) {
+    return this.campaignsService.preview(createCampaignDto.wabaAccountId, {
+      templateId: createCampaignDto.templateId || null,
+      contactNumbers: createCampaignDto.contactNumbers || [],
+      contactListIds: createCampaignDto.contactListIds || [],
+      variables: createCampaignDto.variables || [],
+    });
   }
 
   @Get()
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
   async findAll(@Query('wabaAccountId') wabaAccountId: string) {
     return this.campaignsService.findAll(wabaAccountId);
   }
 
-  @Get(':id')
-  async findOne(@Param('id') id: string) {
-    return this.campaignsService.findOne(id);
-  }
-
+  // Declared before :id so 'cost' is not captured as a campaign id
   @Get('cost')
+  @OwnsResource({ resource: 'template', query: 'templateId', optional: true })
   async calculateCost(
     @Query('templateId') templateId: string | null,
     @Query('contactCount') contactCount: string,
@@ -54,5 +366,194 @@ export class CampaignsController {
     }
     return this.campaignCostService.calculateCost(templateId || null, count);
   }
+
+  // Recurring campaigns and sequences, also declared before :id
+  @Get('recurring')
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
+  async findRecurring(@Query('wabaAccountId') wabaAccountId: string) {
+    return this.recurringCampaignsService.findAll(wabaAccountId);
+  }
+
+  @Post('recurring')
+  @OwnsResource(
+    { resource: 'wabaAccount', body: 'wabaAccountId', role: 'admin' },
+    { resource: 'template', body: 'templateId' },
+  )
+  async createRecurring(@Body() recurringCampaignDto: RecurringCampaignDto) {
+    const { wabaAccountId, ...input } = recurringCampaignDto;
+    return this.recurringCampaignsService.create(wabaAccountId, input);
+  }
+
+  @Patch('recurring/:id')
+  @OwnsResource(
+    { resource: 'recurringCampaign', param: 'id', role: 'admin' },
+    { resource: 'template', body: 'templateId', optional: true },
+  )
+  async updateRecurring(
+    @Param('id') id: string,
+    @Body() updateRecurringCampaignDto: UpdateRecurringCampaignDto,
+  ) {
+    return this.recurringCampaignsService.update(
+      id,
+      updateRecurringCampaignDto,
+    );
+  }
+
+  @Delete('recurring/:id')
+  @OwnsResource({ resource: 'recurringCampaign', param: 'id', role: 'admin' })
+  async removeRecurring(@Param('id') id: string) {
+    return this.recurringCampaignsService.remove(id);
+  }
+
+  @Get('sequences')
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
+  async findSequences(@Query('wabaAccountId') wabaAccountId: string) {
+    return this.campaignSequencesService.findAll(wabaAccountId);
+  }
+
+  @Post('sequences')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    body: 'wabaAccountId',
+    role: 'admin',
+  })
+  async createSequence(@Body() campaignSequenceDto: CampaignSequenceDto) {
+    const { wabaAccountId, ...input } = campaignSequenceDto;
+    return this.campaignSequencesService.create(wabaAccountId, input);
+  }
+
+  @Post('sequences/:id/start')
+  @OwnsResource({ resource: 'campaignSequence', param: 'id', role: 'admin' })
+  async startSequence(@Param('id') id: string) {
+    return this.campaignSequencesService.start(id);
+  }
+
+  @Post('sequences/:id/cancel')
+  @OwnsResource({ resource: 'campaignSequence', param: 'id', role: 'admin' })
+  async cancelSequence(@Param('id') id: string) {
+    return this.campaignSequencesService.cancel(id);
+  }
+
+  @Delete('sequences/:id')
+  @OwnsResource({ resource: 'campaignSequence', param: 'id', role: 'admin' })
+  async removeSequence(@Param('id') id: string) {
+    return this.campaignSequencesService.remove(id);
+  }
+
+  @Get(':id')
+  @OwnsResource({ resource: 'campaign', param: 'id' })
+  async findOne(
+    @Param('id') id: string,
+    @Query('status') status?: string,
+    @Query('replied') replied?: string,
+    @Query('search') search?: string,
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '50',
+  ) {
+    return this.campaignsService.findOne(id, {
+      status: CAMPAIGN_JOB_FILTERS.includes(status as CampaignJobFilter)
+        ? (status as CampaignJobFilter)
+        : undefined,
+      replied: ['true', 'false'].includes(replied)
+        ? replied === 'true'
+        : undefined,
+      search,
+      page: parseInt(page),
+      limit: Math.min(parseInt(limit), 200),
+    });
+  }
+
+  @Get(':id/export')
+  @OwnsResource({ resource: 'campaign', param: 'id' })
+  async export(
+    @Param('id') id: string,
+    @Query('format') format: string = 'csv',
+    @Res() res: Response,
+  ) {
+    if (!CAMPAIGN_REPORT_FORMATS.includes(format as CampaignReportFormat)) {
+      throw new BadRequestException(
+        `Unsupported format. Use ${CAMPAIGN_REPORT_FORMATS.join(' or ')}`,
+      );
+    }
+
+    res.setHeader(
+      'Content-Type',
+      format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="campaign-${id}.${format}"`,
+    );
+
+    try {
+      await this.campaignsService.exportReport(
+        id,
+        format as CampaignReportFormat,
+        res,
+      );
+    } catch (error) {
+      // Once rows went out the status can no longer change, cut the download short
+      if (!res.headersSent) {
+        throw error;
+      }
+      res.destroy(error as Error);
+    }
+  }
+
+  @Patch(':id/schedule')
+  @OwnsResource({ resource: 'campaign', param: 'id', role: 'admin' })
+  async reschedule(
+    @Param('id') id: string,
+    @Body() rescheduleCampaignDto: RescheduleCampaignDto,
+  ) {
+    return this.campaignsService.reschedule(
+      id,
+      rescheduleCampaignDto.scheduledAt,
+    );
+  }
+
+  @Get(':id/follow-ups')
+  @OwnsResource({ resource: 'campaign', param: 'id' })
+  async getFollowUpAudiences(@Param('id') id: string) {
+    return this.campaignsService.getFollowUpAudiences(id);
+  }
+
+  @Post(':id/follow-ups')
+  @OwnsResource(
+    { resource: 'campaign', param: 'id', role: 'admin' },
+    { resource: 'template', body: 'templateId', optional: true },
+  )
+  async createFollowUp(
+    @Param('id') id: string,
+    @Body() createFollowUpDto: CreateFollowUpDto,
+  ) {
+    return this.campaignsService.createFollowUp(id, createFollowUpDto);
+  }
+
+  @Post(':id/start')
+  @OwnsResource({ resource: 'campaign', param: 'id', role: 'admin' })
+  async startNow(@Param('id') id: string) {
+    return this.campaignsService.startNow(id);
+  }
+
+  @Post(':id/pause')
+  @OwnsResource({ resource: 'campaign', param: 'id', role: 'admin' })
+  async pause(@Param('id') id: string) {
+    return this.campaignsService.pause(id);
+  }
+
+  @Post(':id/resume')
+  @OwnsResource({ resource: 'campaign', param: 'id', role: 'admin' })
+  async resume(@Param('id') id: string) {
+    return this.campaignsService.resume(id);
+  }
+
+  @Post(':id/cancel')
+  @OwnsResource({ resource: 'campaign', param: 'id', role: 'admin' })
+  async cancel(@Param('id') id: string) {
+    return this.campaignsService.cancel(id);
+  }
 }
 
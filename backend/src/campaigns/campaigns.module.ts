@@ -2,22 +2,39 @@ import { Module } from '@nestjs/common';
 import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
 import { CampaignCostService } from './campaign-cost.service';
+import { CampaignLimitsService } from './campaign-limits.service';
+import { RecurringCampaignsService } from './recurring-campaigns.service';
+import { CampaignSequencesService } from './campaign-sequences.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { BullModule } from '@nestjs/bullmq';
 import { CampaignProcessor } from './campaign.processor';
 import { MessagesModule } from '../messages/messages.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { ConsentModule } from '../consent/consent.module';
+import { WabaModule } from '../waba/waba.module';
 import { RateLimiterUtil } from '../common/utils/rate-limiter.util';
 
 @Module({
   imports: [
     PrismaModule,
     MessagesModule,
+    ContactsModule,
+    ConsentModule,
+    WabaModule,
     BullModule.registerQueue({
       name: 'campaign-sender',
     }),
   ],
   controllers: [CampaignsController],
-  providers: [CampaignsService, CampaignProcessor, CampaignCostService, RateLimiterUtil],
+  providers: [
+    CampaignsService,
+    CampaignProcessor,
+    CampaignCostService,
+    CampaignLimitsService,
+    RecurringCampaignsService,
+    CampaignSequencesService,
+    RateLimiterUtil,
+  ],
   exports: [CampaignsService],
 })
 export class CampaignsModule {}
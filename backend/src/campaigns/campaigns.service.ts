@@ -1,7 +1,110 @@
 import { Injectable, NotFoundException, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma, Template } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { InjectQueue } from '@nestjs/bullmq';
-import { Queue } from 'bullmq';
+import { JobsOptions, Queue } from 'bullmq';
+import { Writable } from 'stream';
+import { ContactsService } from '../contacts/contacts.service';
+import { ContactListsService } from '../contacts/contact-lists.service';
+import { PhoneNumbersService } from '../phone-numbers/phone-numbers.service';
+import { ConsentService } from '../consent/consent.service';
+import { MessagingLimitService } from '../waba/messaging-limit.service';
+import { zonedTimeToUtc } from '../common/utils/timezone.util';
+import {
+  TemplateComponentInput,
+  validateTemplateComponents,
+} from '../messages/template-components';
+import {
+  CampaignRecipient,
+  CampaignVariable,
+  getTemplatePlaceholders,
+  placeholderLabel,
+  renderTemplateText,
+  resolveRecipientVariables,
+  validateVariableMapping,
+} from './campaign-variables';
+import {
+  CAMPAIGN_FOLLOW_UP_TYPES,
+  CampaignFollowUpType,
+  isRetryableError,
+} from './campaign-follow-ups';
+import {
+  AbTestSettings,
+  CampaignVariantInput,
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  VARIANT_LABELS,
+  VariantResult,
+  pickWinner,
+  splitAudience,
+} from './campaign-ab-test';
+import {
+  AudienceEntry,
+  CampaignMode,
+  RecipientIssue,
+  buildRecipientReports,
+} from './campaign-validation';
+import {
+  CampaignJobFilters,
+  CampaignReportFormat,
+  REPORT_JOB_INCLUDE,
+  createReportWriter,
+  jobStatusWhere,
+  toJobReport,
+} from './campaign-report';
+
+export interface CreateCampaignInput {
+  templateId: string | null;
+  contactNumbers: string[];
+  contactListIds?: string[];
+  // Wall-clock time in the shop's timezone (or an ISO instant); starts right away when absent
+  scheduledAt?: string;
+  variables?: CampaignVariable[];
+  // Set on follow-ups created from a finished campaign
+  parentCampaignId?: string;
+  followUpType?: CampaignFollowUpType;
+  // A/B test: the audience is split between these templates and templateId is ignored
+  variants?: CampaignVariantInput[];
+  abTest?: AbTestSettings;
+  // dry_run only validates the audience; test sends the campaign to testNumbers alone
+  mode?: CampaignMode;
+  testNumbers?: string[];
+  // Set on runs of recurring campaigns and steps of sequences
+  recurringCampaignId?: string;
+  sequenceId?: string;
+  sequenceStep?: number;
+}
+
+export interface CreateFollowUpInput {
+  type: CampaignFollowUpType;
+  // Defaults to the original template (and its variable mapping)
+  templateId?: string;
+  variables?: CampaignVariable[];
+  scheduledAt?: string;
+}
+
+// One delayed start job per scheduled campaign, so it can be moved or removed
+const startJobId = (campaignId: string) => `start-${campaignId}`;
+const releaseJobId = (campaignId: string) => `release-winner-${campaignId}`;
+
+// Transient send failures are retried by BullMQ, 5s then 10s later, before the job fails for good
+const SEND_JOB_OPTIONS: JobsOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 5000 },
+};
+
+// Jobs read per query when exporting a report
+const EXPORT_BATCH_SIZE = 1000;
+
+// A message of a test send: the campaign's template or one of its A/B variants
+interface TestMessage {
+  variant: {
+    label: string;
+    template: Template;
+    variables: CampaignVariable[];
+  } | null;
+  parameters: TemplateComponentInput[] | null;
+}
 
 @Injectable()
 export class CampaignsService {
@@ -10,49 +113,71 @@ export class CampaignsService {
   constructor(
     private prisma: PrismaService,
     @InjectQueue('campaign-sender') private campaignQueue: Queue,
+    private contactsService: ContactsService,
+    private contactListsService: ContactListsService,
+    private phoneNumbers: PhoneNumbersService,
+    private consent: ConsentService,
+    private messagingLimits: MessagingLimitService,
   ) {}
 
-  async create(wabaAccountId: string, templateId: string | null, contactNumbers: string[]) {
-    // Validate WABA account exists
-    const wabaAccount = await this.prisma.wabaAccount.findUnique({
-      where: { id: wabaAccountId },
-    });
-
-    if (!wabaAccount) {
-      this.logger.warn(`WABA account not found: ${wabaAccountId}`);
-      throw new NotFoundException('WABA account not found');
+  /**
+   * Create a campaign and queue (or schedule) it. A dry run creates nothing and reports
+   * on every recipient instead; a test send goes out to the test numbers only.
+   */
+  async create(wabaAccountId: string, input: CreateCampaignInput) {
+    if (input.mode === 'dry_run') {
+      const { wabaAccount, entries, resolved, errors } = await this.prepare(
+        wabaAccountId,
+        input,
+      );
+      return this.validateAudience(wabaAccount, entries, resolved, errors);
     }
 
-    // Validate template if provided
-    if (templateId) {
-      const template = await this.prisma.template.findUnique({
-        where: { id: templateId },
-      });
+    if (input.mode === 'test') {
+      return this.sendTest(wabaAccountId, input);
+    }
 
-      if (!template) {
-        this.logger.warn(`Template not found: ${templateId}`);
-        throw new NotFoundException('Template not found');
-      }
+    return this.createCampaign(wabaAccountId, input);
+  }
 
-      if (template.status !== 'approved') {
-        this.logger.warn(`Template ${templateId} is not approved (status: ${template.status})`);
-        throw new BadRequestException(`Template must be approved. Current status: ${template.status}`);
-      }
+  private async createCampaign(
+    wabaAccountId: string,
+    input: CreateCampaignInput,
+  ) {
+    const {
+      wabaAccount,
+      contactNumbers,
+      templateId,
+      variables,
+      variants,
+      resolved,
+      errors,
+    } = await this.prepare(wabaAccountId, input);
 
-      if (template.wabaAccountId !== wabaAccountId) {
-        this.logger.warn(`Template ${templateId} does not belong to WABA ${wabaAccountId}`);
-        throw new BadRequestException('Template does not belong to this WABA account');
-      }
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid template variables: ${errors.join('; ')}`,
+      );
     }
 
-    // Validate contact numbers
-    if (!contactNumbers || contactNumbers.length === 0) {
-      throw new BadRequestException('Contact numbers list cannot be empty');
-    }
+    const scheduledAt = input.scheduledAt
+      ? this.resolveScheduledAt(input.scheduledAt, wabaAccount.shop.timezone)
+      : null;
 
-    if (contactNumbers.length > 10000) {
-      this.logger.warn(`Campaign with ${contactNumbers.length} contacts exceeds recommended limit`);
-    }
+    // Without variants everybody is "assigned" to the campaign's own template
+    const { assigned, held } = variants.length
+      ? splitAudience(
+          contactNumbers,
+          variants.length,
+          input.abTest?.testPercentage,
+        )
+      : {
+          assigned: contactNumbers.map((phoneNumber) => ({
+            phoneNumber,
+            variantIndex: 0,
+          })),
+          held: [] as string[],
+        };
 
     try {
       const campaign = await this.prisma.campaign.create({
@@ -60,52 +185,88 @@ export class CampaignsService {
           wabaAccountId,
           templateId,
           contactCount: contactNumbers.length,
+          variables: variables?.length
+            ? (variables as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          parentCampaignId: input.parentCampaignId ?? null,
+          followUpType: input.followUpType ?? null,
+          recurringCampaignId: input.recurringCampaignId ?? null,
+          sequenceId: input.sequenceId ?? null,
+          sequenceStep: input.sequenceStep ?? null,
+          abTest: held.length
+            ? (input.abTest as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
           status: 'created',
+          variants: {
+            create: variants.map((variant) => ({
+              label: variant.label,
+              templateId: variant.template.id,
+              variables: variant.variables?.length
+                ? (variant.variables as unknown as Prisma.InputJsonValue)
+                : Prisma.JsonNull,
+            })),
+          },
         },
+        include: { variants: true },
       });
+      const variantIds = variants.map(
+        (variant) =>
+          campaign.variants.find((v) => v.label === variant.label).id,
+      );
 
       this.logger.log(`Created campaign ${campaign.id} with ${contactNumbers.length} contacts`);
 
-      // Create campaign jobs
-      const jobs = await Promise.all(
-        contactNumbers.map((toNumber) =>
-          this.prisma.campaignJob.create({
+      // Every recipient becomes a contact of the shop
+      const contactIds = await this.contactsService.ensureContacts(
+        wabaAccount.shopId,
+        contactNumbers,
+      );
+
+      // Create campaign jobs; held ones get the winner's parameters when it is released
+      const jobs = await Promise.all([
+        ...assigned.map(({ phoneNumber: toNumber, variantIndex }) => {
+          const parameters = resolved[variantIndex].parameters;
+          return this.prisma.campaignJob.create({
             data: {
               campaignId: campaign.id,
               toNumber,
+              contactId: contactIds.get(toNumber) ?? null,
+              variantId: variantIds[variantIndex] ?? null,
+              parameters: parameters.has(toNumber)
+                ? (parameters.get(toNumber) as unknown as Prisma.InputJsonValue)
+                : Prisma.JsonNull,
               status: 'pending',
             },
+          });
+        }),
+        ...held.map((toNumber) =>
+          this.prisma.campaignJob.create({
+            data: {
+              campaignId: campaign.id,
+              toNumber,
+              contactId: contactIds.get(toNumber) ?? null,
+              status: 'held',
+            },
           }),
         ),
-      );
+      ]);
 
       this.logger.log(`Created ${jobs.length} campaign jobs for campaign ${campaign.id}`);
 
-      // Enqueue jobs for processing
-      let enqueuedCount = 0;
-      for (const job of jobs) {
-        try {
-          await this.campaignQueue.add('send-campaign-message', {
-            campaignId: campaign.id,
-            jobId: job.id,
-            wabaAccountId,
-            templateId,
-            toNumber: job.toNumber,
-          });
-          enqueuedCount++;
-        } catch (error) {
-          this.logger.error(`Failed to enqueue job ${job.id}:`, error);
-          // Continue with other jobs even if one fails
-        }
+      if (scheduledAt) {
+        // Status first: a start job due right away must find the campaign scheduled
+        const scheduled = await this.prisma.campaign.update({
+          where: { id: campaign.id },
+          data: { status: 'scheduled', scheduledAt },
+        });
+        await this.addStartJob(campaign.id, scheduledAt);
+        this.logger.log(
+          `Campaign ${campaign.id} scheduled for ${scheduledAt.toISOString()}`,
+        );
+        return scheduled;
       }
 
-      this.logger.log(`Enqueued ${enqueuedCount}/${jobs.length} jobs for campaign ${campaign.id}`);
-
-      // Update campaign status
-      await this.prisma.campaign.update({
-        where: { id: campaign.id },
-        data: { status: 'sending' },
-      });
+      await this.launch(campaign.id);
 
       return campaign;
     } catch (error) {
@@ -114,63 +275,357 @@ export class CampaignsService {
     }
   }
 
-  async findOne(id: string) {
+  /**
+   * Render the template for a sample recipient (the first one) and report the
+   * variable problems that would block create()
+   */
+  async preview(wabaAccountId: string, input: CreateCampaignInput) {
+    const { wabaAccount, template, contactNumbers } =
+      await this.resolveAudience(wabaAccountId, input);
+
+    if (!template) {
+      throw new BadRequestException('A template is required for the preview');
+    }
+
+    const { parameters, errors, recipients } = await this.resolveParameters(
+      wabaAccount.shopId,
+      template,
+      input.variables,
+      contactNumbers,
+    );
+
+    const definition: any[] = (template.history as any)?.components || [];
+    const textOf = (type: string) =>
+      definition.find((c) => String(c.type).toUpperCase() === type)?.text;
+    const sample = contactNumbers[0];
+    const components = parameters.get(sample) || [];
+
+    return {
+      recipientCount: contactNumbers.length,
+      recipient: {
+        phoneNumber: sample,
+        name: recipients.get(sample)?.name ?? null,
+      },
+      header: renderTemplateText(
+        textOf('HEADER'),
+        components.find((c) => c.type === 'header'),
+      ),
+      body: renderTemplateText(
+        textOf('BODY'),
+        components.find((c) => c.type === 'body'),
+      ),
+      footer: textOf('FOOTER') ?? null,
+      errors,
+    };
+  }
+
+  /**
+   * Start a scheduled campaign; called by its delayed start job or by "start now"
+   */
+  async start(id: string) {
+    // The start job and "start now" can race, only the first one enqueues
+    const { count } = await this.prisma.campaign.updateMany({
+      where: { id, status: 'scheduled' },
+      data: { status: 'sending' },
+    });
+
+    if (!count) {
+      return false;
+    }
+
+    await this.removeStartJob(id);
+    await this.launch(id);
+    return true;
+  }
+
+  async startNow(id: string) {
+    await this.findScheduled(id);
+    await this.start(id);
+    return this.findOne(id);
+  }
+
+  async reschedule(id: string, value: string) {
+    const campaign = await this.findScheduled(id);
+    const scheduledAt = this.resolveScheduledAt(
+      value,
+      campaign.wabaAccount.shop.timezone,
+    );
+
+    await this.removeStartJob(id);
+    await this.addStartJob(id, scheduledAt);
+
+    return this.prisma.campaign.update({
+      where: { id },
+      data: { scheduledAt },
+    });
+  }
+
+  /**
+   * Stop dispatching a running campaign. Its pending jobs are kept and the worker
+   * drops queued messages of paused campaigns without sending them.
+   */
+  async pause(id: string) {
+    await this.transition(id, ['sending'], 'paused');
+    this.logger.log(`Campaign ${id} paused`);
+    return this.findOne(id);
+  }
+
+  /**
+   * Re-enqueue the pending jobs of a paused campaign, in their original order
+   */
+  async resume(id: string) {
+    await this.transition(id, ['paused'], 'sending');
+    await this.enqueueJobs(id);
+    this.logger.log(`Campaign ${id} resumed`);
+    return this.findOne(id);
+  }
+
+  async cancel(id: string) {
+    await this.transition(id, ['scheduled', 'sending', 'paused'], 'cancelled');
+    await this.removeStartJob(id);
+    await this.campaignQueue.remove(releaseJobId(id));
+
+    const { count } = await this.prisma.campaignJob.updateMany({
+      where: { campaignId: id, status: { in: ['pending', 'held'] } },
+      data: { status: 'cancelled' },
+    });
+
+    this.logger.log(`Campaign ${id} cancelled, ${count} pending jobs dropped`);
+    return this.findOne(id);
+  }
+
+  /**
+   * End the test phase of an A/B test: pick the variant that did best on the test's
+   * metric and send it to the recipients held back. Called by the delayed release job.
+   */
+  async releaseWinner(id: string) {
     const campaign = await this.prisma.campaign.findUnique({
       where: { id },
       include: {
-        jobs: true,
+        variants: { orderBy: { label: 'asc' } },
+        wabaAccount: { select: { shopId: true } },
       },
     });
 
-    if (!campaign) {
-      throw new NotFoundException('Campaign not found');
+    if (
+      !campaign?.abTest ||
+      campaign.status === 'cancelled' ||
+      campaign.variants.some((variant) => variant.isWinner)
+    ) {
+      return;
     }
 
-    const sentCount = campaign.jobs.filter((j) => j.status === 'sent').length;
-    const failedCount = campaign.jobs.filter((j) => j.status === 'failed').length;
+    const { metric } = campaign.abTest as unknown as AbTestSettings;
+    const results = await this.getVariantResults(campaign);
+    const winner = campaign.variants.find(
+      (variant) => variant.id === pickWinner(results, metric).variantId,
+    );
 
-    // Get sent job phone numbers
-    const sentJobNumbers = campaign.jobs
-      .filter((j) => j.status === 'sent')
-      .map((j) => j.toNumber);
+    const heldJobs = await this.prisma.campaignJob.findMany({
+      where: { campaignId: id, status: 'held' },
+      select: { id: true, toNumber: true },
+    });
+    const template = await this.prisma.template.findUnique({
+      where: { id: winner.templateId },
+    });
+    // Contacts may have changed during the test; recipients left without a value fail on send
+    const { parameters, errors } = await this.resolveParameters(
+      campaign.wabaAccount.shopId,
+      template,
+      (winner.variables as unknown as CampaignVariable[] | null) ?? [],
+      heldJobs.map((job) => job.toNumber),
+    );
 
-    // Count messages by status for campaign phone numbers
-    let deliveredCount = 0;
-    let readCount = 0;
+    if (errors.length > 0) {
+      this.logger.warn(
+        `Variant ${winner.label} of campaign ${id}: ${errors.join('; ')}`,
+      );
+    }
 
-    if (sentJobNumbers.length > 0) {
-      const messages = await this.prisma.message.findMany({
-        where: {
-          wabaAccountId: campaign.wabaAccountId,
-          to: {
-            in: sentJobNumbers,
-          },
-          direction: 'outbound',
-          createdAt: {
-            gte: campaign.createdAt, // Messages created after campaign start
+    await this.prisma.campaignVariant.update({
+      where: { id: winner.id },
+      data: { isWinner: true },
+    });
+    await Promise.all(
+      heldJobs.map((job) =>
+        this.prisma.campaignJob.updateMany({
+          where: { id: job.id, status: 'held' },
+          data: {
+            status: 'pending',
+            variantId: winner.id,
+            parameters: parameters.has(job.toNumber)
+              ? (parameters.get(
+                  job.toNumber,
+                ) as unknown as Prisma.InputJsonValue)
+              : Prisma.JsonNull,
           },
-        },
-      });
+        }),
+      ),
+    );
+
+    this.logger.log(
+      `Variant ${winner.label} won the A/B test of campaign ${id}, released to ${heldJobs.length} recipients`,
+    );
 
-      deliveredCount = messages.filter((m) => m.status === 'delivered').length;
-      readCount = messages.filter((m) => m.status === 'read').length;
+    // A paused campaign sends them when it is resumed
+    if (campaign.status === 'sending') {
+      await this.enqueueJobs(
+        id,
+        heldJobs.map((job) => job.id),
+      );
     }
+  }
+
+  /**
+   * Campaign with its delivery funnel, A/B test and follow-up results, and one page of
+   * its recipients matching the filters
+   */
+  async findOne(id: string, filters: CampaignJobFilters = {}) {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+      include: { variants: { orderBy: { label: 'asc' } } },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const followUps = await this.prisma.campaign.findMany({
+      where: { parentCampaignId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+    const funnels = await this.getFunnels([
+      id,
+      ...followUps.map((followUp) => followUp.id),
+    ]);
 
     return {
       ...campaign,
-      sentCount,
-      failedCount,
-      deliveredCount,
-      readCount,
+      ...funnels.get(id),
+      jobs: await this.findJobs(campaign, filters),
+      // Only A/B tests have variants, with or without recipients held for the winner
+      variants: campaign.variants.length
+        ? await this.getVariantResults(campaign)
+        : [],
+      followUps: followUps.map((followUp) => ({
+        ...followUp,
+        ...funnels.get(followUp.id),
+      })),
+      // Each recipient counted once across the campaign and its follow-ups
+      combined: followUps.length
+        ? await this.getCombinedFunnel(campaign, followUps)
+        : null,
     };
   }
 
+  /**
+   * Stream the full per-recipient report of a campaign as CSV or XLSX
+   */
+  async exportReport(
+    id: string,
+    format: CampaignReportFormat,
+    output: Writable,
+  ) {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const writer = createReportWriter(format, output);
+    let cursor: string | null = null;
+
+    do {
+      const jobs = await this.prisma.campaignJob.findMany({
+        where: { campaignId: id },
+        include: REPORT_JOB_INCLUDE,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      for (const job of jobs) {
+        // The client went away, stop paging through the jobs
+        if (writer.closed) {
+          this.logger.warn(
+            `Export of campaign ${id} stopped, the client disconnected`,
+          );
+          return;
+        }
+        await writer.write(toJobReport(job));
+      }
+
+      cursor =
+        jobs.length === EXPORT_BATCH_SIZE ? jobs[jobs.length - 1].id : null;
+    } while (cursor);
+
+    await writer.end();
+    this.logger.log(`Exported ${format} report of campaign ${id}`);
+  }
+
+  /**
+   * How many recipients of a completed campaign each follow-up would target
+   */
+  async getFollowUpAudiences(id: string) {
+    const campaign = await this.findCompleted(id);
+
+    const entries = await Promise.all(
+      CAMPAIGN_FOLLOW_UP_TYPES.map(
+        async (type) =>
+          [
+            type,
+            (await this.findFollowUpNumbers(campaign.id, type)).length,
+          ] as const,
+      ),
+    );
+    return Object.fromEntries(entries) as Record<CampaignFollowUpType, number>;
+  }
+
+  /**
+   * Create a campaign for a subset of a completed campaign's recipients: retry the
+   * transient failures, or follow up on those who did not read or did not reply
+   */
+  async createFollowUp(id: string, input: CreateFollowUpInput) {
+    const campaign = await this.findCompleted(id);
+    const contactNumbers = await this.findFollowUpNumbers(
+      campaign.id,
+      input.type,
+    );
+
+    if (contactNumbers.length === 0) {
+      throw new BadRequestException('No recipients match this follow-up');
+    }
+
+    const templateId = input.templateId || campaign.templateId;
+    const variables =
+      input.variables ??
+      (templateId === campaign.templateId
+        ? ((campaign.variables as unknown as CampaignVariable[] | null) ?? [])
+        : []);
+
+    const followUp = await this.createCampaign(campaign.wabaAccountId, {
+      templateId,
+      contactNumbers,
+      variables,
+      scheduledAt: input.scheduledAt,
+      // Follow-ups of follow-ups still report under the original campaign
+      parentCampaignId: campaign.parentCampaignId ?? campaign.id,
+      followUpType: input.type,
+    });
+
+    this.logger.log(
+      `Created ${input.type} follow-up ${followUp.id} of campaign ${id} for ${contactNumbers.length} recipients`,
+    );
+
+    return followUp;
+  }
+
   async findAll(wabaAccountId: string) {
     const campaigns = await this.prisma.campaign.findMany({
-      where: { wabaAccountId },
-      include: {
-        jobs: true,
-      },
+      where: { wabaAccountId, isTest: false },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -178,57 +633,861 @@ export class CampaignsService {
       return [];
     }
 
-    // Get earliest campaign date for optimization
-    const earliestCampaignDate = campaigns.reduce((earliest, campaign) => {
-      return campaign.createdAt < earliest ? campaign.createdAt : earliest;
-    }, campaigns[0].createdAt);
+    const funnels = await this.getFunnels(campaigns.map((c) => c.id));
+
+    return campaigns.map((campaign) => ({
+      ...campaign,
+      ...funnels.get(campaign.id),
+    }));
+  }
+
+  /**
+   * Resolve the audience, the A/B variants and every recipient's template parameters,
+   * collecting the variable problems that block the campaign
+   */
+  private async prepare(wabaAccountId: string, input: CreateCampaignInput) {
+    const { wabaAccount, template, contactNumbers, entries } =
+      await this.resolveAudience(wabaAccountId, input);
+
+    const variants = await this.resolveVariants(wabaAccountId, input);
+
+    // Every recipient must have all template variables filled before anything is queued.
+    // Any recipient may end up with any variant, so each one is checked for everybody.
+    const resolved = variants.length
+      ? await Promise.all(
+          variants.map(async (variant) => {
+            const result = await this.resolveParameters(
+              wabaAccount.shopId,
+              variant.template,
+              variant.variables,
+              contactNumbers,
+            );
+            return {
+              ...result,
+              errors: result.errors.map(
+                (error) => `Variant ${variant.label}: ${error}`,
+              ),
+              missing: new Map(
+                [...result.missing].map(([label, numbers]) => [
+                  `Variant ${variant.label}: ${label}`,
+                  numbers,
+                ]),
+              ),
+            };
+          }),
+        )
+      : [
+          await this.resolveParameters(
+            wabaAccount.shopId,
+            template,
+            input.variables,
+            contactNumbers,
+          ),
+        ];
+
+    return {
+      wabaAccount,
+      contactNumbers,
+      entries,
+      // With variants the campaign itself carries variant A
+      templateId: variants.length
+        ? variants[0].template.id
+        : (template?.id ?? null),
+      variables: variants.length ? variants[0].variables : input.variables,
+      variants,
+      resolved,
+      errors: resolved.flatMap((result) => result.errors),
+    };
+  }
+
+  /**
+   * Validate the WABA account and template, and merge lists and typed numbers into
+   * the normalized, de-duplicated recipient list
+   */
+  private async resolveAudience(
+    wabaAccountId: string,
+    input: CreateCampaignInput,
+  ) {
+    const { templateId, contactListIds = [] } = input;
+
+    // Validate WABA account exists
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+      include: { shop: { select: { timezone: true } } },
+    });
+
+    if (!wabaAccount) {
+      this.logger.warn(`WABA account not found: ${wabaAccountId}`);
+      throw new NotFoundException('WABA account not found');
+    }
+
+    // Validate template if provided
+    const template =
+      templateId && !input.variants?.length
+        ? await this.findCampaignTemplate(wabaAccountId, templateId)
+        : null;
+
+    const listNumbers = contactListIds.length
+      ? await this.contactListsService.resolveNumbers(
+          wabaAccount.shopId,
+          contactListIds,
+        )
+      : [];
+
+    // Lists and manually added numbers are merged, invalid entries dropped
+    const normalize = await this.phoneNumbers.forShop(wabaAccount.shopId);
+    const entries: AudienceEntry[] = [
+      ...listNumbers,
+      ...input.contactNumbers,
+    ].map((number) => ({ input: number, phoneNumber: normalize(number) }));
+    const contactNumbers = [
+      ...new Set(
+        entries
+          .map((entry) => entry.phoneNumber)
+          .filter((number): number is string => !!number),
+      ),
+    ];
+
+    // Validate contact numbers
+    if (contactNumbers.length === 0) {
+      throw new BadRequestException('Contact numbers list cannot be empty');
+    }
+
+    if (contactNumbers.length > 10000) {
+      this.logger.warn(
+        `Campaign with ${contactNumbers.length} contacts exceeds recommended limit`,
+      );
+    }
 
-    // Get all messages for this WABA after earliest campaign date
-    // Then filter by campaign in memory for better performance
-    const allMessages = await this.prisma.message.findMany({
-      where: {
+    return { wabaAccount, template, contactNumbers, entries };
+  }
+
+  /**
+   * Approved template of the WABA account; also checked up front for recurring
+   * campaigns and sequences, which only create campaigns later
+   */
+  async findCampaignTemplate(
+    wabaAccountId: string,
+    templateId: string,
+  ): Promise<Template> {
+    const template = await this.prisma.template.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      this.logger.warn(`Template not found: ${templateId}`);
+      throw new NotFoundException('Template not found');
+    }
+
+    if (template.status !== 'approved') {
+      this.logger.warn(
+        `Template ${templateId} is not approved (status: ${template.status})`,
+      );
+      throw new BadRequestException(
+        `Template must be approved. Current status: ${template.status}`,
+      );
+    }
+
+    if (template.wabaAccountId !== wabaAccountId) {
+      this.logger.warn(
+        `Template ${templateId} does not belong to WABA ${wabaAccountId}`,
+      );
+      throw new BadRequestException(
+        'Template does not belong to this WABA account',
+      );
+    }
+
+    return template;
+  }
+
+  /**
+   * Validate the templates of an A/B test and label the variants A to D
+   */
+  private async resolveVariants(
+    wabaAccountId: string,
+    input: CreateCampaignInput,
+  ) {
+    const variants = input.variants ?? [];
+
+    if (variants.length === 0 && !input.abTest) {
+      return [];
+    }
+
+    if (variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+      throw new BadRequestException(
+        `An A/B test needs ${MIN_VARIANTS} to ${MAX_VARIANTS} variants`,
+      );
+    }
+
+    return Promise.all(
+      variants.map(async (variant, index) => ({
+        label: VARIANT_LABELS[index],
+        template: await this.findCampaignTemplate(
+          wabaAccountId,
+          variant.templateId,
+        ),
+        variables: variant.variables ?? [],
+      })),
+    );
+  }
+
+  /**
+   * Resolve the template parameters of every recipient from the variable mapping and
+   * their contact data (name, custom fields imported from CSV columns)
+   */
+  private async resolveParameters(
+    shopId: string,
+    template: Template | null,
+    variables: CampaignVariable[] = [],
+    contactNumbers: string[],
+  ) {
+    const parameters = new Map<string, TemplateComponentInput[]>();
+    const recipients = new Map<string, CampaignRecipient>();
+    // Placeholder label -> recipients left without a value
+    const missing = new Map<string, string[]>();
+    const definition = (template?.history as any)?.components;
+
+    // Plain text campaigns and templates without a stored definition have nothing to fill
+    if (!Array.isArray(definition)) {
+      return { parameters, recipients, missing, errors: [] as string[] };
+    }
+
+    const placeholders = getTemplatePlaceholders(definition);
+    const errors = validateVariableMapping(placeholders, variables);
+    if (errors.length > 0) {
+      return { parameters, recipients, missing, errors };
+    }
+
+    const contacts = placeholders.length
+      ? await this.prisma.contact.findMany({
+          where: { shopId, phoneNumber: { in: contactNumbers } },
+          select: {
+            phoneNumber: true,
+            name: true,
+            profileName: true,
+            customFields: true,
+          },
+        })
+      : [];
+    const contactsByNumber = new Map(contacts.map((c) => [c.phoneNumber, c]));
+
+    for (const phoneNumber of contactNumbers) {
+      const contact = contactsByNumber.get(phoneNumber);
+      const recipient: CampaignRecipient = {
+        phoneNumber,
+        name: contact?.name || contact?.profileName || null,
+        customFields: contact?.customFields as Record<string, string> | null,
+      };
+      const resolved = resolveRecipientVariables(
+        placeholders,
+        variables,
+        recipient,
+      );
+
+      recipients.set(phoneNumber, recipient);
+      parameters.set(phoneNumber, resolved.components);
+      for (const placeholder of resolved.missing) {
+        const label = placeholderLabel(placeholder);
+        missing.set(label, [...(missing.get(label) || []), phoneNumber]);
+      }
+    }
+
+    for (const [label, numbers] of missing) {
+      errors.push(
+        `${label} is empty for ${numbers.length} recipient(s), e.g. ${numbers.slice(0, 3).join(', ')}`,
+      );
+    }
+
+    // Media headers and button parameters cannot be mapped, so fail here instead of on every send
+    const sample = parameters.get(contactNumbers[0]);
+    if (sample) {
+      errors.push(...validateTemplateComponents(definition, sample));
+    }
+
+    return { parameters, recipients, missing, errors };
+  }
+
+  /**
+   * Dry run of create(): what would happen to every recipient, without creating or
+   * sending anything
+   */
+  private async validateAudience(
+    wabaAccount: { id: string; shopId: string },
+    entries: AudienceEntry[],
+    resolved: { missing: Map<string, string[]> }[],
+    errors: string[],
+  ) {
+    const contactNumbers = [
+      ...new Set(
+        entries
+          .map((entry) => entry.phoneNumber)
+          .filter((number): number is string => !!number),
+      ),
+    ];
+    const [optedOut, messagingLimit] = await Promise.all([
+      this.consent.findOptedOut(wabaAccount.shopId, contactNumbers),
+      this.messagingLimits.getCapacity(wabaAccount.id),
+    ]);
+
+    // Recipient -> placeholder labels left without a value, across all variants
+    const missingVariables = new Map<string, string[]>();
+    for (const { missing } of resolved) {
+      for (const [label, numbers] of missing) {
+        for (const number of numbers) {
+          missingVariables.set(number, [
+            ...(missingVariables.get(number) ?? []),
+            label,
+          ]);
+        }
+      }
+    }
+
+    const recipients = buildRecipientReports(
+      entries,
+      optedOut,
+      missingVariables,
+      messagingLimit.remaining,
+    );
+    const countIssue = (issue: RecipientIssue) =>
+      recipients.filter((recipient) => recipient.issues.includes(issue)).length;
+
+    return {
+      mode: 'dry_run' as const,
+      recipientCount: contactNumbers.length,
+      invalidCount: countIssue('invalid_number'),
+      duplicateCount: countIssue('duplicate'),
+      optedOutCount: countIssue('opted_out'),
+      missingVariablesCount: countIssue('missing_variables'),
+      overCapacityCount: countIssue('over_capacity'),
+      messagingLimit,
+      // Problems that would make create() reject the campaign
+      errors,
+      recipients,
+    };
+  }
+
+  /**
+   * Send the campaign, every variant of it, to a few test numbers right away. Test
+   * campaigns skip quiet hours and the frequency cap and stay out of the campaign list.
+   */
+  private async sendTest(wabaAccountId: string, input: CreateCampaignInput) {
+    const {
+      wabaAccount,
+      contactNumbers,
+      templateId,
+      variables,
+      variants,
+      resolved,
+      errors,
+    } = await this.prepare(wabaAccountId, input);
+
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid template variables: ${errors.join('; ')}`,
+      );
+    }
+
+    // Test recipients see the message as the first recipient of the audience would
+    const sample = contactNumbers[0];
+    const messages: TestMessage[] = (variants.length ? variants : [null]).map(
+      (variant, index) => ({
+        variant,
+        parameters: resolved[index].parameters.get(sample) ?? null,
+      }),
+    );
+
+    const normalize = await this.phoneNumbers.forShop(wabaAccount.shopId);
+    const entries: AudienceEntry[] = (input.testNumbers ?? []).map(
+      (number) => ({
+        input: number,
+        phoneNumber: normalize(number),
+      }),
+    );
+    const numbers = [
+      ...new Set(
+        entries
+          .map((entry) => entry.phoneNumber)
+          .filter((number): number is string => !!number),
+      ),
+    ];
+
+    if (numbers.length === 0) {
+      throw new BadRequestException(
+        'At least one valid test number is required',
+      );
+    }
+
+    const campaign = await this.prisma.campaign.create({
+      data: {
         wabaAccountId,
-        direction: 'outbound',
-        createdAt: {
-          gte: earliestCampaignDate,
+        templateId,
+        contactCount: numbers.length * messages.length,
+        variables: variables?.length
+          ? (variables as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        isTest: true,
+        status: 'created',
+        variants: {
+          create: messages
+            .filter(({ variant }) => variant)
+            .map(({ variant }) => ({
+              label: variant.label,
+              templateId: variant.template.id,
+              variables: variant.variables.length
+                ? (variant.variables as unknown as Prisma.InputJsonValue)
+                : Prisma.JsonNull,
+            })),
         },
       },
-      select: {
-        to: true,
-        status: true,
-        createdAt: true,
+      include: { variants: true },
+    });
+
+    await this.prisma.campaignJob.createMany({
+      data: numbers.flatMap((toNumber) =>
+        messages.map(({ variant, parameters }) => ({
+          campaignId: campaign.id,
+          toNumber,
+          variantId: variant
+            ? campaign.variants.find((v) => v.label === variant.label).id
+            : null,
+          parameters: parameters
+            ? (parameters as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          status: 'pending',
+        })),
+      ),
+    });
+
+    await this.enqueueJobs(campaign.id);
+    this.logger.log(
+      `Sent test campaign ${campaign.id} to ${numbers.length} number(s)`,
+    );
+
+    const optedOut = await this.consent.findOptedOut(
+      wabaAccount.shopId,
+      numbers,
+    );
+    return {
+      mode: 'test' as const,
+      campaign,
+      recipients: buildRecipientReports(entries, optedOut, new Map(), null),
+    };
+  }
+
+  /**
+   * Per-campaign job counts by dispatch status plus the delivery funnel reported by
+   * status webhooks, counted in the database from each job's own message
+   */
+  private async getFunnels(campaignIds: string[]) {
+    const where = { campaignId: { in: campaignIds } };
+    const [byStatus, delivered, read, deliveryFailed] = await Promise.all([
+      this.prisma.campaignJob.groupBy({
+        by: ['campaignId', 'status'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.campaignJob.groupBy({
+        by: ['campaignId'],
+        where: { ...where, deliveredAt: { not: null } },
+        _count: { _all: true },
+      }),
+      this.prisma.campaignJob.groupBy({
+        by: ['campaignId'],
+        where: { ...where, readAt: { not: null } },
+        _count: { _all: true },
+      }),
+      // Accepted by Meta but not delivered (e.g. number without WhatsApp)
+      this.prisma.campaignJob.groupBy({
+        by: ['campaignId'],
+        where: { ...where, deliveryStatus: 'failed' },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countOf = (
+      rows: { campaignId: string; _count: { _all: number } }[],
+      campaignId: string,
+    ) => rows.find((row) => row.campaignId === campaignId)?._count._all ?? 0;
+    const statusCount = (campaignId: string, status: string) =>
+      byStatus.find(
+        (row) => row.campaignId === campaignId && row.status === status,
+      )?._count._all ?? 0;
+
+    return new Map(
+      campaignIds.map((campaignId) => {
+        const undelivered = countOf(deliveryFailed, campaignId);
+        return [
+          campaignId,
+          {
+            pendingCount: statusCount(campaignId, 'pending'),
+            // Waiting for the winner of an A/B test
+            heldCount: statusCount(campaignId, 'held'),
+            sentCount: statusCount(campaignId, 'sent') - undelivered,
+            failedCount: statusCount(campaignId, 'failed') + undelivered,
+            skippedCount: statusCount(campaignId, 'skipped'),
+            cancelledCount: statusCount(campaignId, 'cancelled'),
+            deliveredCount: countOf(delivered, campaignId),
+            readCount: countOf(read, campaignId),
+          },
+        ];
+      }),
+    );
+  }
+
+  /**
+   * Mark the campaign as sending and queue a send job for every pending recipient
+   * (or only the given jobs)
+   */
+  private async enqueueJobs(campaignId: string, jobIds?: string[]) {
+    // Status first: the worker drops jobs of campaigns that are not sending. A pause
+    // or cancel made meanwhile wins, resume() queues the pending jobs again.
+    const { count } = await this.prisma.campaign.updateMany({
+      where: { id: campaignId, status: { in: ['created', 'sending'] } },
+      data: { status: 'sending' },
+    });
+
+    if (!count) {
+      this.logger.log(
+        `Campaign ${campaignId} is no longer sending, no jobs enqueued`,
+      );
+      return;
+    }
+
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        jobs: {
+          where: { status: 'pending', ...(jobIds && { id: { in: jobIds } }) },
+          orderBy: { createdAt: 'asc' },
+          include: { variant: { select: { templateId: true } } },
+        },
       },
     });
 
-    // Group messages by campaign based on phone number and creation time
-    const messagesByCampaign = new Map<string, any[]>();
+    let enqueuedCount = 0;
+    for (const job of campaign.jobs) {
+      try {
+        await this.campaignQueue.add(
+          'send-campaign-message',
+          {
+            campaignId,
+            jobId: job.id,
+            wabaAccountId: campaign.wabaAccountId,
+            templateId: job.variant?.templateId ?? campaign.templateId,
+            toNumber: job.toNumber,
+          },
+          SEND_JOB_OPTIONS,
+        );
+        enqueuedCount++;
+      } catch (error) {
+        this.logger.error(`Failed to enqueue job ${job.id}:`, error);
+        // Continue with other jobs even if one fails
+      }
+    }
 
-    return campaigns.map((campaign) => {
-      const sentCount = campaign.jobs.filter((j) => j.status === 'sent').length;
-      const failedCount = campaign.jobs.filter((j) => j.status === 'failed').length;
+    this.logger.log(
+      `Enqueued ${enqueuedCount}/${campaign.jobs.length} jobs for campaign ${campaignId}`,
+    );
+  }
 
-      const sentJobNumbers = campaign.jobs
-        .filter((j) => j.status === 'sent')
-        .map((j) => j.toNumber);
+  /**
+   * Send to the pending recipients and, for an A/B test with recipients held back,
+   * schedule the release of the winner after the test's wait
+   */
+  private async launch(campaignId: string) {
+    await this.enqueueJobs(campaignId);
 
-      // Filter messages for this campaign (matching phone numbers and after campaign creation)
-      const campaignMessages = allMessages.filter(
-        (m) =>
-          sentJobNumbers.includes(m.to) &&
-          m.createdAt >= campaign.createdAt,
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { abTest: true },
+    });
+    const abTest = campaign.abTest as unknown as AbTestSettings | null;
+
+    if (abTest) {
+      await this.campaignQueue.add(
+        'release-winner',
+        { campaignId },
+        {
+          jobId: releaseJobId(campaignId),
+          delay: abTest.waitHours * 60 * 60 * 1000,
+        },
+      );
+    }
+  }
+
+  private async addStartJob(campaignId: string, scheduledAt: Date) {
+    await this.campaignQueue.add(
+      'start-campaign',
+      { campaignId },
+      {
+        jobId: startJobId(campaignId),
+        delay: Math.max(0, scheduledAt.getTime() - Date.now()),
+      },
+    );
+  }
+
+  private async removeStartJob(campaignId: string) {
+    await this.campaignQueue.remove(startJobId(campaignId));
+  }
+
+  /**
+   * Move a campaign between statuses; the conditional update keeps concurrent
+   * requests (or the worker completing it) from applying the same change twice
+   */
+  private async transition(id: string, from: string[], to: string) {
+    const { count } = await this.prisma.campaign.updateMany({
+      where: { id, status: { in: from } },
+      data: { status: to },
+    });
+
+    if (count) {
+      return;
+    }
+
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    throw new BadRequestException(
+      `Cannot change campaign from ${campaign.status} to ${to}`,
+    );
+  }
+
+  private async findCompleted(id: string) {
+    const campaign = await this.prisma.campaign.findUnique({ where: { id } });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    if (campaign.status !== 'completed') {
+      throw new BadRequestException(
+        `Follow-ups can only be created from completed campaigns. Current status: ${campaign.status}`,
       );
+    }
+
+    return campaign;
+  }
+
+  private async findFollowUpNumbers(
+    campaignId: string,
+    type: CampaignFollowUpType,
+  ): Promise<string[]> {
+    switch (type) {
+      case 'retry_failed': {
+        const jobs = await this.prisma.campaignJob.findMany({
+          where: {
+            campaignId,
+            OR: [{ status: 'failed' }, { deliveryStatus: 'failed' }],
+          },
+          select: { toNumber: true, errorCode: true },
+        });
+        return jobs
+          .filter((job) => isRetryableError(job.errorCode))
+          .map((job) => job.toNumber);
+      }
+      case 'not_read': {
+        const jobs = await this.prisma.campaignJob.findMany({
+          where: { campaignId, deliveredAt: { not: null }, readAt: null },
+          select: { toNumber: true },
+        });
+        return jobs.map((job) => job.toNumber);
+      }
+      case 'no_reply': {
+        const jobs = await this.prisma.campaignJob.findMany({
+          where: { campaignId, readAt: { not: null }, repliedAt: null },
+          select: { toNumber: true },
+        });
+        return jobs.map((job) => job.toNumber);
+      }
+    }
+  }
+
+  /**
+   * One page of a campaign's recipients with their status, error, timestamps and
+   * whether they replied
+   */
+  private async findJobs(
+    campaign: { id: string },
+    filters: CampaignJobFilters,
+  ) {
+    // Query strings parse to NaN, zero or negatives, which Prisma rejects
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.max(filters.limit || 50, 1);
+
+    const where: Prisma.CampaignJobWhereInput = {
+      campaignId: campaign.id,
+      ...jobStatusWhere(filters.status),
+    };
+    if (filters.search) {
+      where.toNumber = {
+        contains: filters.search.replace(/\D/g, '') || filters.search,
+      };
+    }
+
+    if (filters.replied !== undefined) {
+      where.AND = {
+        status: 'sent',
+        repliedAt: filters.replied ? { not: null } : null,
+      };
+    }
+
+    const [jobs, total] = await Promise.all([
+      this.prisma.campaignJob.findMany({
+        where,
+        include: REPORT_JOB_INCLUDE,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.campaignJob.count({ where }),
+    ]);
+
+    return {
+      data: jobs.map(toJobReport),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Delivery, read and reply rates of each A/B test variant over the messages it sent,
+   * counted in the database
+   */
+  private async getVariantResults(campaign: {
+    id: string;
+    variants: {
+      id: string;
+      label: string;
+      templateId: string;
+      isWinner: boolean;
+    }[];
+  }): Promise<VariantResult[]> {
+    const where = {
+      campaignId: campaign.id,
+      status: 'sent',
+      variantId: { not: null },
+    };
+    const [sent, delivered, read, replied] = await Promise.all([
+      this.prisma.campaignJob.groupBy({
+        by: ['variantId'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.campaignJob.groupBy({
+        by: ['variantId'],
+        where: { ...where, deliveredAt: { not: null } },
+        _count: { _all: true },
+      }),
+      this.prisma.campaignJob.groupBy({
+        by: ['variantId'],
+        where: { ...where, readAt: { not: null } },
+        _count: { _all: true },
+      }),
+      this.prisma.campaignJob.groupBy({
+        by: ['variantId'],
+        where: { ...where, repliedAt: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
 
-      const deliveredCount = campaignMessages.filter((m) => m.status === 'delivered').length;
-      const readCount = campaignMessages.filter((m) => m.status === 'read').length;
+    const countOf = (
+      rows: { variantId: string | null; _count: { _all: number } }[],
+      variantId: string,
+    ) => rows.find((row) => row.variantId === variantId)?._count._all ?? 0;
+    const rate = (count: number, total: number) =>
+      total ? Math.round((count / total) * 1000) / 10 : 0;
+
+    return campaign.variants.map((variant) => {
+      const sentCount = countOf(sent, variant.id);
+      const deliveredCount = countOf(delivered, variant.id);
+      const readCount = countOf(read, variant.id);
+      const repliedCount = countOf(replied, variant.id);
 
       return {
-        ...campaign,
+        variantId: variant.id,
+        label: variant.label,
+        templateId: variant.templateId,
+        isWinner: variant.isWinner,
         sentCount,
-        failedCount,
         deliveredCount,
         readCount,
+        repliedCount,
+        deliveryRate: rate(deliveredCount, sentCount),
+        readRate: rate(readCount, sentCount),
+        replyRate: rate(repliedCount, sentCount),
       };
     });
   }
-}
 
+  private async getCombinedFunnel(
+    campaign: { id: string; contactCount: number },
+    followUps: { id: string }[],
+  ) {
+    const campaignId = {
+      in: [campaign.id, ...followUps.map((followUp) => followUp.id)],
+    };
+    const [delivered, read] = await Promise.all([
+      this.prisma.campaignJob.findMany({
+        where: { campaignId, deliveredAt: { not: null } },
+        distinct: ['toNumber'],
+        select: { toNumber: true },
+      }),
+      this.prisma.campaignJob.findMany({
+        where: { campaignId, readAt: { not: null } },
+        distinct: ['toNumber'],
+        select: { toNumber: true },
+      }),
+    ]);
+
+    return {
+      contactCount: campaign.contactCount,
+      deliveredCount: delivered.length,
+      readCount: read.length,
+    };
+  }
+
+  private async findScheduled(id: string) {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+      include: {
+        wabaAccount: { select: { shop: { select: { timezone: true } } } },
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    if (campaign.status !== 'scheduled') {
+      throw new BadRequestException(
+        `Only scheduled campaigns can be changed. Current status: ${campaign.status}`,
+      );
+    }
+
+    return campaign;
+  }
+
+  private resolveScheduledAt(value: string, timezone: string) {
+    const scheduledAt = zonedTimeToUtc(value, timezone);
+
+    if (isNaN(scheduledAt.getTime())) {
+      throw new BadRequestException('scheduledAt must be a valid date');
+    }
+
+    if (scheduledAt.getTime() <= Date.now()) {
+      throw new BadRequestException('scheduledAt must be in the future');
+    }
+
+    return scheduledAt;
+  }
+}
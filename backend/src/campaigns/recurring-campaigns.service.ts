@@ -0,0 +1,265 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { parseExpression } from 'cron-parser';
+import { Prisma, RecurringCampaign } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContactListsService } from '../contacts/contact-lists.service';
+import { CampaignsService } from './campaigns.service';
+import { CampaignVariable } from './campaign-variables';
+
+export interface RecurringCampaignInput {
+  name: string;
+  templateId: string;
+  variables?: CampaignVariable[];
+  contactListIds: string[];
+  // Cron expression ("0 9 * * 1": Mondays at 9:00) in the shop's timezone
+  cron: string;
+  active?: boolean;
+}
+
+// One job scheduler per recurring campaign, replaced whenever its schedule changes
+const schedulerId = (id: string) => `recurring-${id}`;
+
+@Injectable()
+export class RecurringCampaignsService {
+  private readonly logger = new Logger(RecurringCampaignsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue('campaign-sender') private campaignQueue: Queue,
+    private campaignsService: CampaignsService,
+    private contactListsService: ContactListsService,
+  ) {}
+
+  /**
+   * Recurring campaigns with their next run and latest runs
+   */
+  async findAll(wabaAccountId: string) {
+    const recurringCampaigns = await this.prisma.recurringCampaign.findMany({
+      where: { wabaAccountId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        campaigns: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+          select: {
+            id: true,
+            status: true,
+            contactCount: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    return Promise.all(
+      recurringCampaigns.map(async (recurringCampaign) => {
+        const scheduler = recurringCampaign.active
+          ? await this.campaignQueue.getJobScheduler(
+              schedulerId(recurringCampaign.id),
+            )
+          : null;
+        return {
+          ...recurringCampaign,
+          nextRunAt: scheduler?.next ? new Date(scheduler.next) : null,
+        };
+      }),
+    );
+  }
+
+  async create(wabaAccountId: string, input: RecurringCampaignInput) {
+    await this.validate(wabaAccountId, input);
+
+    const recurringCampaign = await this.prisma.recurringCampaign.create({
+      data: {
+        wabaAccountId,
+        name: input.name,
+        templateId: input.templateId,
+        variables: input.variables?.length
+          ? (input.variables as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        contactListIds: input.contactListIds,
+        cron: input.cron,
+        active: input.active ?? true,
+      },
+    });
+
+    // The scheduler lives in Redis, outside any database transaction
+    try {
+      await this.schedule(recurringCampaign);
+    } catch (error) {
+      await this.prisma.recurringCampaign.delete({
+        where: { id: recurringCampaign.id },
+      });
+      throw error;
+    }
+
+    this.logger.log(
+      `Created recurring campaign ${recurringCampaign.id} (${recurringCampaign.cron})`,
+    );
+    return recurringCampaign;
+  }
+
+  async update(id: string, input: Partial<RecurringCampaignInput>) {
+    const existing = await this.prisma.recurringCampaign.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Recurring campaign not found');
+    }
+
+    await this.validate(existing.wabaAccountId, {
+      templateId: input.templateId ?? existing.templateId,
+      contactListIds:
+        input.contactListIds ?? (existing.contactListIds as string[]),
+      cron: input.cron ?? existing.cron,
+    });
+
+    const updated = await this.prisma.recurringCampaign.update({
+      where: { id },
+      data: {
+        name: input.name,
+        templateId: input.templateId,
+        ...(input.variables && {
+          variables: input.variables.length
+            ? (input.variables as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+        }),
+        contactListIds: input.contactListIds,
+        cron: input.cron,
+        active: input.active,
+      },
+    });
+
+    // Put the previous values back, they still match the scheduler in Redis
+    try {
+      await this.schedule(updated);
+    } catch (error) {
+      await this.prisma.recurringCampaign.update({
+        where: { id },
+        data: {
+          name: existing.name,
+          templateId: existing.templateId,
+          variables: existing.variables ?? Prisma.JsonNull,
+          contactListIds: existing.contactListIds,
+          cron: existing.cron,
+          active: existing.active,
+        },
+      });
+      throw error;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Stop the schedule; campaigns already sent stay in the reports
+   */
+  async remove(id: string) {
+    await this.campaignQueue.removeJobScheduler(schedulerId(id));
+    await this.prisma.recurringCampaign.delete({ where: { id } });
+    this.logger.log(`Deleted recurring campaign ${id}`);
+    return { success: true };
+  }
+
+  /**
+   * Create this run's campaign; called by the job scheduler. A failed run (an empty
+   * list, a template no longer approved) is recorded and the next one still happens.
+   */
+  async run(id: string) {
+    const recurringCampaign = await this.prisma.recurringCampaign.findUnique({
+      where: { id },
+    });
+
+    if (!recurringCampaign?.active) {
+      return;
+    }
+
+    let lastError: string | null = null;
+    try {
+      await this.campaignsService.create(recurringCampaign.wabaAccountId, {
+        templateId: recurringCampaign.templateId,
+        contactNumbers: [],
+        contactListIds: recurringCampaign.contactListIds as string[],
+        variables:
+          (recurringCampaign.variables as unknown as CampaignVariable[]) ?? [],
+        recurringCampaignId: id,
+      });
+      this.logger.log(`Recurring campaign ${id} ran`);
+    } catch (error: any) {
+      lastError = error.message;
+      this.logger.error(`Recurring campaign ${id} failed to run:`, error);
+    }
+
+    await this.prisma.recurringCampaign.update({
+      where: { id },
+      data: { lastRunAt: new Date(), lastError },
+    });
+  }
+
+  private async validate(
+    wabaAccountId: string,
+    input: Pick<
+      RecurringCampaignInput,
+      'templateId' | 'contactListIds' | 'cron'
+    >,
+  ) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+      select: { shopId: true, shop: { select: { timezone: true } } },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    // Same parser BullMQ uses for the job scheduler, checked before anything is saved
+    try {
+      parseExpression(input.cron, { tz: wabaAccount.shop.timezone });
+    } catch (error: any) {
+      throw new BadRequestException(
+        `Invalid schedule "${input.cron}": ${error.message}`,
+      );
+    }
+
+    await this.campaignsService.findCampaignTemplate(
+      wabaAccountId,
+      input.templateId,
+    );
+    // Lists may be empty for now, they only have to belong to the shop
+    await this.contactListsService.resolveNumbers(
+      wabaAccount.shopId,
+      input.contactListIds,
+    );
+  }
+
+  private async schedule(recurringCampaign: RecurringCampaign) {
+    const id = schedulerId(recurringCampaign.id);
+
+    if (!recurringCampaign.active) {
+      await this.campaignQueue.removeJobScheduler(id);
+      return;
+    }
+
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: recurringCampaign.wabaAccountId },
+      select: { shop: { select: { timezone: true } } },
+    });
+
+    await this.campaignQueue.upsertJobScheduler(
+      id,
+      { pattern: recurringCampaign.cron, tz: wabaAccount.shop.timezone },
+      {
+        name: 'run-recurring',
+        data: { recurringCampaignId: recurringCampaign.id },
+      },
+    );
+  }
+}
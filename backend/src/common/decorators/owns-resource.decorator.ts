@@ -0,0 +1,35 @@
+import { SetMetadata } from '@nestjs/common';
+import { ShopRole } from '../../tenancy/shop-roles';
+
+export type TenantResource =
+  | 'shop'
+  | 'wabaAccount'
+  | 'conversation'
+  | 'message'
+  | 'template'
+  | 'campaign'
+  | 'recurringCampaign'
+  | 'campaignSequence'
+  | 'webhookEvent'
+  | 'contact'
+  | 'contactList';
+
+export interface OwnedResourceCheck {
+  resource: TenantResource;
+  // Where to read the id from - exactly one of these
+  param?: string;
+  query?: string;
+  body?: string;
+  // Skip the check when the id is absent instead of rejecting the request
+  optional?: boolean;
+  // Least privileged shop role allowed (defaults to viewer)
+  role?: ShopRole;
+}
+
+export const OWNED_RESOURCES_KEY = 'ownedResources';
+
+/**
+ * Require the current user to own the resources referenced by the request (enforced by TenantGuard)
+ */
+export const OwnsResource = (...checks: OwnedResourceCheck[]) =>
+  SetMetadata(OWNED_RESOURCES_KEY, checks);
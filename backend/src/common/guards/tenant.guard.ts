@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  OWNED_RESOURCES_KEY,
+  OwnedResourceCheck,
+} from '../decorators/owns-resource.decorator';
+import { TenantAccessService } from '../../tenancy/tenant-access.service';
+
+/**
+ * Rejects requests that reference resources outside the user's shops
+ * Must run after JwtAuthGuard; routes without @OwnsResource pass through
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private tenantAccess: TenantAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const checks = this.reflector.getAllAndOverride<OwnedResourceCheck[]>(
+      OWNED_RESOURCES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!checks || checks.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    if (!request.user?.id) {
+      throw new UnauthorizedException();
+    }
+
+    for (const check of checks) {
+      const [source, key] = check.param
+        ? ['params', check.param]
+        : check.query
+          ? ['query', check.query]
+          : ['body', check.body];
+      const id = request[source]?.[key];
+
+      if (!id) {
+        if (check.optional) {
+          continue;
+        }
+        throw new BadRequestException(`${key} is required`);
+      }
+
+      if (typeof id !== 'string') {
+        throw new BadRequestException(`${key} must be a string`);
+      }
+
+      await this.tenantAccess.assertAccess(
+        request.user.id,
+        check.resource,
+        id,
+        check.role,
+      );
+    }
+
+    return true;
+  }
+}
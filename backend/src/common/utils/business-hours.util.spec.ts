@@ -0,0 +1,140 @@
+import { BusinessHours, nextOpenTime } from './business-hours.util';
+
+const TIMEZONE = 'America/Sao_Paulo'; // UTC-3 all year
+
+const weekdays = (
+  intervals: { start: string; end: string }[],
+): BusinessHours => ({
+  monday: { open: true, intervals },
+  tuesday: { open: true, intervals },
+  wednesday: { open: true, intervals },
+  thursday: { open: true, intervals },
+  friday: { open: true, intervals },
+  saturday: { open: false, intervals: [] },
+  sunday: { open: false, intervals: [] },
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe('nextOpenTime', () => {
+  const officeHours = weekdays([{ start: '09:00', end: '18:00' }]);
+
+  it('returns the given time when the business is open', () => {
+    // Monday 10:00 local
+    const from = at('2024-06-03T13:00:00Z');
+    expect(nextOpenTime(officeHours, TIMEZONE, from)).toBe(from);
+  });
+
+  it('returns the opening time later the same day', () => {
+    // Monday 07:00 local
+    expect(
+      nextOpenTime(officeHours, TIMEZONE, at('2024-06-03T10:00:00Z')),
+    ).toEqual(at('2024-06-03T12:00:00Z'));
+  });
+
+  it('treats the closing time as closed', () => {
+    // Monday 18:00 local
+    expect(
+      nextOpenTime(officeHours, TIMEZONE, at('2024-06-03T21:00:00Z')),
+    ).toEqual(at('2024-06-04T12:00:00Z'));
+  });
+
+  it('skips closed days', () => {
+    // Friday 19:00 local
+    expect(
+      nextOpenTime(officeHours, TIMEZONE, at('2024-06-07T22:00:00Z')),
+    ).toEqual(at('2024-06-10T12:00:00Z'));
+  });
+
+  it('reads the day in the timezone, not in UTC', () => {
+    // Monday 22:00 local is already Tuesday in UTC
+    const hours: BusinessHours = {
+      monday: { open: true, intervals: [{ start: '20:00', end: '23:00' }] },
+    };
+    const from = at('2024-06-04T01:00:00Z');
+    expect(nextOpenTime(hours, TIMEZONE, from)).toBe(from);
+  });
+
+  it('waits for the next interval during a break', () => {
+    const hours = weekdays([
+      { start: '13:00', end: '18:00' },
+      { start: '09:00', end: '12:00' },
+    ]);
+    // Monday 12:30 local
+    expect(nextOpenTime(hours, TIMEZONE, at('2024-06-03T15:30:00Z'))).toEqual(
+      at('2024-06-03T16:00:00Z'),
+    );
+  });
+
+  it('finds the same weekday a week later', () => {
+    const hours: BusinessHours = {
+      monday: { open: true, intervals: [{ start: '09:00', end: '12:00' }] },
+    };
+    // Monday 13:00 local
+    expect(nextOpenTime(hours, TIMEZONE, at('2024-06-03T16:00:00Z'))).toEqual(
+      at('2024-06-10T12:00:00Z'),
+    );
+  });
+
+  it('returns null when no day is open', () => {
+    expect(nextOpenTime(weekdays([]), TIMEZONE, new Date())).toBeNull();
+    expect(nextOpenTime({}, TIMEZONE, new Date())).toBeNull();
+  });
+
+  it('ignores empty intervals', () => {
+    const hours: BusinessHours = {
+      monday: { open: true, intervals: [{ start: '09:00', end: '09:00' }] },
+    };
+    expect(nextOpenTime(hours, TIMEZONE, new Date())).toBeNull();
+  });
+
+  describe('overnight hours', () => {
+    const hours: BusinessHours = {
+      friday: { open: true, intervals: [{ start: '22:00', end: '02:00' }] },
+    };
+
+    it('opens at the start on the same day', () => {
+      // Friday 21:00 local
+      expect(nextOpenTime(hours, TIMEZONE, at('2024-06-08T00:00:00Z'))).toEqual(
+        at('2024-06-08T01:00:00Z'),
+      );
+    });
+
+    it('is open before midnight', () => {
+      // Friday 23:00 local
+      const from = at('2024-06-08T02:00:00Z');
+      expect(nextOpenTime(hours, TIMEZONE, from)).toBe(from);
+    });
+
+    it('is still open after midnight', () => {
+      // Saturday 01:00 local
+      const from = at('2024-06-08T04:00:00Z');
+      expect(nextOpenTime(hours, TIMEZONE, from)).toBe(from);
+    });
+
+    it('closes at the end on the next day', () => {
+      // Saturday 02:00 local
+      expect(nextOpenTime(hours, TIMEZONE, at('2024-06-08T05:00:00Z'))).toEqual(
+        at('2024-06-15T01:00:00Z'),
+      );
+    });
+  });
+
+  describe('across DST changes', () => {
+    const newYork = weekdays([{ start: '09:00', end: '17:00' }]);
+
+    it('opens at the local time after clocks spring forward', () => {
+      // Saturday 2024-03-09 12:00 EST, before the change
+      expect(
+        nextOpenTime(newYork, 'America/New_York', at('2024-03-09T17:00:00Z')),
+      ).toEqual(at('2024-03-11T13:00:00Z'));
+    });
+
+    it('opens at the local time after clocks fall back', () => {
+      // Saturday 2024-11-02 12:00 EDT, before the change
+      expect(
+        nextOpenTime(newYork, 'America/New_York', at('2024-11-02T16:00:00Z')),
+      ).toEqual(at('2024-11-04T14:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { zonedTimeToUtc } from './timezone.util';
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+export interface BusinessHoursInterval {
+  start: string; // "HH:mm"
+  end: string;
+}
+
+export interface BusinessHoursDay {
+  open: boolean;
+  intervals: BusinessHoursInterval[];
+}
+
+export type BusinessHours = Partial<Record<Weekday, BusinessHoursDay>>;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Calendar date and minute of the day of an instant, as seen in the timezone
+ */
+function getWallClock(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    // Midnight UTC of the local date, only used for calendar arithmetic
+    day: Date.UTC(part('year'), part('month') - 1, part('day')),
+    minutes: part('hour') * 60 + part('minute'),
+  };
+}
+
+/**
+ * Start of the next moment the business is open, `from` itself when it already is.
+ * An interval ending before it starts ("22:00"-"02:00") runs past midnight.
+ * Null when no day of the week has opening hours.
+ */
+export function nextOpenTime(
+  hours: BusinessHours,
+  timeZone: string,
+  from: Date = new Date(),
+): Date | null {
+  const now = getWallClock(from, timeZone);
+
+  // Yesterday's overnight hours may still be open; a week ahead covers every
+  // weekday once, plus today's later hours
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(now.day + offset * MINUTES_PER_DAY * 60 * 1000);
+    const schedule = hours[WEEKDAYS[day.getUTCDay()]];
+    if (!schedule?.open) {
+      continue;
+    }
+
+    const intervals = schedule.intervals
+      .filter(
+        (interval) => toMinutes(interval.end) !== toMinutes(interval.start),
+      )
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+    for (const interval of intervals) {
+      // Minutes from today's midnight
+      const start = offset * MINUTES_PER_DAY + toMinutes(interval.start);
+      const end =
+        offset * MINUTES_PER_DAY +
+        toMinutes(interval.end) +
+        (toMinutes(interval.end) < toMinutes(interval.start)
+          ? MINUTES_PER_DAY
+          : 0);
+
+      if (end <= now.minutes) {
+        continue;
+      }
+      if (start <= now.minutes) {
+        return from;
+      }
+      return zonedTimeToUtc(
+        `${day.toISOString().slice(0, 10)}T${interval.start}`,
+        timeZone,
+      );
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,27 @@
+import { escapeCsv } from './csv.util';
+
+describe('escapeCsv', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsv('Maria Silva')).toBe('Maria Silva');
+    expect(escapeCsv('5511999998888')).toBe('5511999998888');
+    expect(escapeCsv('')).toBe('');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsv('Silva, Maria')).toBe('"Silva, Maria"');
+    expect(escapeCsv('Maria "Mari" Silva')).toBe('"Maria ""Mari"" Silva"');
+    expect(escapeCsv('line\nbreak')).toBe('"line\nbreak"');
+    expect(escapeCsv('line\rbreak')).toBe('"line\rbreak"');
+  });
+
+  it('keeps values that start a formula from running', () => {
+    expect(escapeCsv('=HYPERLINK("http://x")')).toBe(
+      '"\'=HYPERLINK(""http://x"")"',
+    );
+    expect(escapeCsv('+1+1')).toBe("'+1+1");
+    expect(escapeCsv('-2+3')).toBe("'-2+3");
+    expect(escapeCsv('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsv('\t=1')).toBe("'\t=1");
+    expect(escapeCsv('\r=1')).toBe('"\'\r=1"');
+  });
+});
@@ -0,0 +1,11 @@
+// Spreadsheets evaluate a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape one CSV cell. Cells that would run as a formula (e.g. a contact named
+ * "=HYPERLINK(...)") get a leading "'" so spreadsheets show them as text.
+ */
+export function escapeCsv(value: string) {
+  const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,63 @@
+import { normalizePhoneNumber } from './phone.util';
+
+describe('normalizePhoneNumber', () => {
+  it('strips formatting from international numbers', () => {
+    expect(normalizePhoneNumber('+55 (11) 99999-8888')).toBe('5511999998888');
+    expect(normalizePhoneNumber('0055 11 99999-8888')).toBe('5511999998888');
+  });
+
+  it('reads numbers without a country code as national numbers', () => {
+    expect(normalizePhoneNumber('(11) 99999-8888')).toBe('5511999998888');
+    expect(normalizePhoneNumber('912 345 678', 'PT')).toBe('351912345678');
+    expect(normalizePhoneNumber('(415) 555-2671', 'US')).toBe('14155552671');
+  });
+
+  it('drops the trunk prefix of national numbers', () => {
+    expect(normalizePhoneNumber('011 99999-8888')).toBe('5511999998888');
+  });
+
+  it('falls back to Brazil for an unknown default country', () => {
+    expect(normalizePhoneNumber('(11) 99999-8888', 'ZZ')).toBe('5511999998888');
+  });
+
+  it('keeps digits that already carry a country code', () => {
+    expect(normalizePhoneNumber('5511999998888')).toBe('5511999998888');
+    expect(normalizePhoneNumber(5511999998888)).toBe('5511999998888');
+  });
+
+  describe('Brazilian 9th digit', () => {
+    it('adds it to 8-digit mobiles', () => {
+      expect(normalizePhoneNumber('+55 11 8888-7777')).toBe('5511988887777');
+      expect(normalizePhoneNumber('(21) 6666-5555')).toBe('5521966665555');
+    });
+
+    it('leaves landlines alone', () => {
+      expect(normalizePhoneNumber('+55 11 3333-4444')).toBe('551133334444');
+      expect(normalizePhoneNumber('(11) 2222-3333')).toBe('551122223333');
+    });
+
+    it('leaves numbers that already have it alone', () => {
+      expect(normalizePhoneNumber('+55 11 98888-7777')).toBe('5511988887777');
+    });
+
+    it('only applies to Brazil', () => {
+      expect(normalizePhoneNumber('+54 11 8888-7777')).toBe('541188887777');
+    });
+  });
+
+  it('rejects numbers too short to hold a country and area code', () => {
+    expect(normalizePhoneNumber('12345')).toBeNull();
+    expect(normalizePhoneNumber('+55 11 9999')).toBeNull();
+  });
+
+  it('rejects numbers longer than E.164 allows', () => {
+    expect(normalizePhoneNumber('+1234567890123456')).toBeNull();
+  });
+
+  it('rejects empty values', () => {
+    expect(normalizePhoneNumber(null)).toBeNull();
+    expect(normalizePhoneNumber(undefined)).toBeNull();
+    expect(normalizePhoneNumber('')).toBeNull();
+    expect(normalizePhoneNumber('abc')).toBeNull();
+  });
+});
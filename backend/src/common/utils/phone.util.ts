@@ -0,0 +1,78 @@
+// E.164 allows up to 15 digits; anything under 10 cannot include a country and area code
+const MIN_DIGITS = 10;
+const MAX_DIGITS = 15;
+
+export interface CountryDialingPlan {
+  callingCode: string;
+  // Digit counts of a number written without the country code (after the trunk 0 is dropped)
+  nationalLengths: number[];
+}
+
+// Countries a shop can pick as its default, keyed by ISO 3166-1 alpha-2 code
+export const COUNTRY_DIALING_PLANS: Record<string, CountryDialingPlan> = {
+  BR: { callingCode: '55', nationalLengths: [10, 11] },
+  PT: { callingCode: '351', nationalLengths: [9] },
+  US: { callingCode: '1', nationalLengths: [10] },
+  CA: { callingCode: '1', nationalLengths: [10] },
+  AR: { callingCode: '54', nationalLengths: [10, 11] },
+  MX: { callingCode: '52', nationalLengths: [10] },
+  CO: { callingCode: '57', nationalLengths: [10] },
+  CL: { callingCode: '56', nationalLengths: [9] },
+  PY: { callingCode: '595', nationalLengths: [9] },
+  UY: { callingCode: '598', nationalLengths: [8] },
+  ES: { callingCode: '34', nationalLengths: [9] },
+};
+
+export const DEFAULT_COUNTRY = 'BR';
+
+/**
+ * Reduce a phone number to E.164 digits without the leading "+" (the format Meta uses
+ * for wa_id), or null when it cannot be a valid international number.
+ *
+ * Numbers written without a country code ("(11) 99999-9999") are read as national
+ * numbers of defaultCountry. Brazilian mobiles missing the 9th digit get it added,
+ * so old and new formats of the same number map to the same value.
+ */
+export function normalizePhoneNumber(
+  value: unknown,
+  defaultCountry: string = DEFAULT_COUNTRY,
+): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const raw = String(value).trim();
+  let digits = raw.replace(/\D/g, '');
+  const international = raw.startsWith('+') || digits.startsWith('00');
+
+  if (international) {
+    digits = digits.replace(/^00/, '');
+  } else {
+    const plan =
+      COUNTRY_DIALING_PLANS[defaultCountry] ??
+      COUNTRY_DIALING_PLANS[DEFAULT_COUNTRY];
+    // Trunk prefix ("011 99999-9999")
+    const national = digits.replace(/^0+/, '');
+
+    if (plan.nationalLengths.includes(national.length)) {
+      digits = plan.callingCode + national;
+    }
+  }
+
+  digits = addBrazilianNinthDigit(digits);
+
+  if (digits.length < MIN_DIGITS || digits.length > MAX_DIGITS) {
+    return null;
+  }
+
+  return digits;
+}
+
+/**
+ * Brazilian mobiles gained a leading 9 in 2012-2016, but WhatsApp still reports
+ * many accounts by the old 8-digit number (55 + area code + 8 digits)
+ */
+function addBrazilianNinthDigit(digits: string) {
+  const match = /^55([1-9]{2})([6-9]\d{7})$/.exec(digits);
+  return match ? `55${match[1]}9${match[2]}` : digits;
+}
@@ -0,0 +1,25 @@
+// Free-form messages are only allowed within 24h of the contact's last inbound message
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ServiceWindow {
+  windowOpen: boolean;
+  windowExpiresAt: Date | null;
+}
+
+/**
+ * Compute the customer service window from the last inbound message time
+ */
+export function getServiceWindow(
+  lastInboundAt: Date | null | undefined,
+  now: Date = new Date(),
+): ServiceWindow {
+  if (!lastInboundAt) {
+    return { windowOpen: false, windowExpiresAt: null };
+  }
+
+  const windowExpiresAt = new Date(lastInboundAt.getTime() + SERVICE_WINDOW_MS);
+  return {
+    windowOpen: windowExpiresAt.getTime() > now.getTime(),
+    windowExpiresAt,
+  };
+}
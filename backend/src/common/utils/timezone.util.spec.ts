@@ -0,0 +1,76 @@
+import { zonedTimeToUtc } from './timezone.util';
+
+describe('zonedTimeToUtc', () => {
+  it('reads the wall-clock time in the given timezone', () => {
+    expect(
+      zonedTimeToUtc('2024-12-24T09:00', 'America/Sao_Paulo').toISOString(),
+    ).toBe('2024-12-24T12:00:00.000Z');
+    expect(zonedTimeToUtc('2024-12-24T09:00', 'Asia/Tokyo').toISOString()).toBe(
+      '2024-12-24T00:00:00.000Z',
+    );
+  });
+
+  it('crosses the date line when the offset requires it', () => {
+    expect(
+      zonedTimeToUtc('2024-12-24T22:30', 'America/Sao_Paulo').toISOString(),
+    ).toBe('2024-12-25T01:30:00.000Z');
+  });
+
+  it('uses the offset in force on that date', () => {
+    expect(
+      zonedTimeToUtc('2024-01-15T09:00', 'America/New_York').toISOString(),
+    ).toBe('2024-01-15T14:00:00.000Z');
+    expect(
+      zonedTimeToUtc('2024-07-15T09:00', 'America/New_York').toISOString(),
+    ).toBe('2024-07-15T13:00:00.000Z');
+  });
+
+  describe('on DST changes', () => {
+    it('picks the summer offset just after clocks spring forward', () => {
+      // 02:00 EST became 03:00 EDT (07:00Z)
+      expect(
+        zonedTimeToUtc('2024-03-10T03:30', 'America/New_York').toISOString(),
+      ).toBe('2024-03-10T07:30:00.000Z');
+      expect(
+        zonedTimeToUtc('2024-03-10T09:00', 'America/New_York').toISOString(),
+      ).toBe('2024-03-10T13:00:00.000Z');
+    });
+
+    it('keeps the winter offset just before clocks spring forward', () => {
+      expect(
+        zonedTimeToUtc('2024-03-10T01:30', 'America/New_York').toISOString(),
+      ).toBe('2024-03-10T06:30:00.000Z');
+    });
+
+    it('picks the winter offset after clocks fall back', () => {
+      expect(
+        zonedTimeToUtc('2024-11-03T09:00', 'America/New_York').toISOString(),
+      ).toBe('2024-11-03T14:00:00.000Z');
+    });
+
+    it('handles timezones ahead of UTC', () => {
+      // 01:00 WET became 02:00 WEST (01:00Z)
+      expect(
+        zonedTimeToUtc('2024-03-31T09:00', 'Europe/Lisbon').toISOString(),
+      ).toBe('2024-03-31T08:00:00.000Z');
+      expect(
+        zonedTimeToUtc('2024-03-30T09:00', 'Europe/Lisbon').toISOString(),
+      ).toBe('2024-03-30T09:00:00.000Z');
+    });
+  });
+
+  it('keeps strings that carry an offset as they are', () => {
+    expect(
+      zonedTimeToUtc('2024-12-24T09:00:00Z', 'Asia/Tokyo').toISOString(),
+    ).toBe('2024-12-24T09:00:00.000Z');
+    expect(
+      zonedTimeToUtc('2024-12-24T09:00-03:00', 'Asia/Tokyo').toISOString(),
+    ).toBe('2024-12-24T12:00:00.000Z');
+  });
+
+  it('returns an invalid date for unparseable input', () => {
+    expect(
+      isNaN(zonedTimeToUtc('not a date', 'America/Sao_Paulo').getTime()),
+    ).toBe(true);
+  });
+});
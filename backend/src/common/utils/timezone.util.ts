@@ -0,0 +1,52 @@
+// Date/time strings that already pin an instant ("...Z", "...-03:00")
+const ABSOLUTE_TIME = /(z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Read a wall-clock time picked in the UI ("2024-12-24T09:00") as a time in the given
+ * IANA timezone. Strings carrying an offset are absolute and kept as they are.
+ */
+export function zonedTimeToUtc(value: string, timeZone: string): Date {
+  if (ABSOLUTE_TIME.test(value)) {
+    return new Date(value);
+  }
+
+  // Parsed as if it were UTC, then shifted by the zone offset at that moment
+  const asUtc = new Date(`${value}Z`);
+  if (isNaN(asUtc.getTime())) {
+    return asUtc;
+  }
+
+  const guess = asUtc.getTime() - getTimezoneOffset(asUtc, timeZone);
+  // Second pass picks the right offset when the guess crossed a DST change
+  return new Date(
+    asUtc.getTime() - getTimezoneOffset(new Date(guess), timeZone),
+  );
+}
@@ -0,0 +1,23 @@
+import { normalizeKeyword } from './consent-keywords';
+
+describe('normalizeKeyword', () => {
+  it('ignores case, accents and surrounding punctuation', () => {
+    expect(normalizeKeyword('Sair')).toBe('SAIR');
+    expect(normalizeKeyword(' sair! ')).toBe('SAIR');
+    expect(normalizeKeyword('SAÍR')).toBe('SAIR');
+    expect(normalizeKeyword('parar.')).toBe('PARAR');
+  });
+
+  it('collapses inner whitespace', () => {
+    expect(normalizeKeyword('não  quero\nmais')).toBe('NAO QUERO MAIS');
+  });
+
+  it('keeps digits', () => {
+    expect(normalizeKeyword('stop 2')).toBe('STOP 2');
+  });
+
+  it('returns an empty string for punctuation and emoji only', () => {
+    expect(normalizeKeyword('!!! 👍')).toBe('');
+    expect(normalizeKeyword('   ')).toBe('');
+  });
+});
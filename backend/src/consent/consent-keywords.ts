@@ -0,0 +1,12 @@
+/**
+ * "Sair", " sair! " and "SAÍR" all count as the keyword SAIR
+ */
+export function normalizeKeyword(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ConsentService, ConsentStatus } from './consent.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+class ChangeConsentDto {
+  @IsString()
+  @IsNotEmpty()
+  shopId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  note?: string;
+}
+
+class UpdateConsentSettingsDto {
+  @IsString()
+  @IsNotEmpty()
+  shopId: string;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsOptional()
+  optOutKeywords?: string[];
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsOptional()
+  optInKeywords?: string[];
+
+  // Empty string disables the confirmation reply
+  @IsString()
+  @IsOptional()
+  @MaxLength(1024)
+  optOutReply?: string;
+}
+
+@Controller('consent')
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class ConsentController {
+  constructor(private consentService: ConsentService) {}
+
+  @Get()
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  async findAll(
+    @Query('shopId') shopId: string,
+    @Query('status') status?: string,
+    @Query('search') search?: string,
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '50',
+  ) {
+    return this.consentService.findAll(shopId, {
+      status: ['opted_in', 'opted_out'].includes(status)
+        ? (status as ConsentStatus)
+        : undefined,
+      search,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  }
+
+  @Get('history')
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  async getHistory(
+    @Query('shopId') shopId: string,
+    @Query('phoneNumber') phoneNumber: string,
+  ) {
+    return this.consentService.getHistory(shopId, phoneNumber);
+  }
+
+  @Post('opt-out')
+  @OwnsResource({ resource: 'shop', body: 'shopId', role: 'agent' })
+  async optOut(
+    @CurrentUser() user: any,
+    @Body() changeConsentDto: ChangeConsentDto,
+  ) {
+    return this.changeStatus(user.id, changeConsentDto, 'opted_out');
+  }
+
+  @Post('opt-in')
+  @OwnsResource({ resource: 'shop', body: 'shopId', role: 'agent' })
+  async optIn(
+    @CurrentUser() user: any,
+    @Body() changeConsentDto: ChangeConsentDto,
+  ) {
+    return this.changeStatus(user.id, changeConsentDto, 'opted_in');
+  }
+
+  @Get('settings')
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  async getSettings(@Query('shopId') shopId: string) {
+    return this.consentService.getSettings(shopId);
+  }
+
+  @Put('settings')
+  @OwnsResource({ resource: 'shop', body: 'shopId', role: 'admin' })
+  async updateSettings(
+    @Body() updateConsentSettingsDto: UpdateConsentSettingsDto,
+  ) {
+    const { shopId, ...settings } = updateConsentSettingsDto;
+    return this.consentService.updateSettings(shopId, settings);
+  }
+
+  private changeStatus(
+    userId: string,
+    { shopId, phoneNumber, note }: ChangeConsentDto,
+    status: ConsentStatus,
+  ) {
+    return this.consentService.setStatus(shopId, phoneNumber, status, {
+      source: 'manual',
+      userId,
+      note,
+    });
+  }
+}
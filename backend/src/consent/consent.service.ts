@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PhoneNumbersService } from '../phone-numbers/phone-numbers.service';
+import { normalizeKeyword } from './consent-keywords';
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+export type ConsentSource = 'keyword' | 'manual';
+
+export const DEFAULT_OPT_OUT_KEYWORDS = ['SAIR', 'PARAR', 'STOP', 'CANCELAR'];
+export const DEFAULT_OPT_IN_KEYWORDS = ['VOLTAR', 'START'];
+
+export interface ConsentSettings {
+  optOutKeywords: string[];
+  optInKeywords: string[];
+  optOutReply: string | null;
+}
+
+export interface ConsentChange {
+  source: ConsentSource;
+  keyword?: string;
+  messageId?: string;
+  userId?: string;
+  note?: string;
+}
+
+export interface ConsentFilters {
+  status?: ConsentStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class ConsentService {
+  private readonly logger = new Logger(ConsentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private phoneNumbers: PhoneNumbersService,
+  ) {}
+
+  async getSettings(shopId: string): Promise<ConsentSettings> {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: { optOutKeywords: true, optInKeywords: true, optOutReply: true },
+    });
+
+    return {
+      optOutKeywords:
+        (shop?.optOutKeywords as string[] | null) ?? DEFAULT_OPT_OUT_KEYWORDS,
+      optInKeywords:
+        (shop?.optInKeywords as string[] | null) ?? DEFAULT_OPT_IN_KEYWORDS,
+      optOutReply: shop?.optOutReply ?? null,
+    };
+  }
+
+  async updateSettings(shopId: string, settings: Partial<ConsentSettings>) {
+    const toKeywords = (keywords: string[]) => [
+      ...new Set(keywords.map(normalizeKeyword).filter(Boolean)),
+    ];
+
+    await this.prisma.shop.update({
+      where: { id: shopId },
+      data: {
+        ...(settings.optOutKeywords
+          ? { optOutKeywords: toKeywords(settings.optOutKeywords) }
+          : {}),
+        ...(settings.optInKeywords
+          ? { optInKeywords: toKeywords(settings.optInKeywords) }
+          : {}),
+        ...(settings.optOutReply !== undefined
+          ? { optOutReply: settings.optOutReply?.trim() || null }
+          : {}),
+      },
+    });
+
+    return this.getSettings(shopId);
+  }
+
+  async findAll(shopId: string, filters: ConsentFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+
+    const where: Prisma.ConsentRecordWhereInput = { shopId };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.search) {
+      where.phoneNumber = {
+        contains: filters.search.replace(/\D/g, '') || filters.search,
+      };
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.consentRecord.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.consentRecord.count({ where }),
+    ]);
+
+    return {
+      data: records,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Current status and full audit trail of a number
+   */
+  async getHistory(shopId: string, phoneNumber: string) {
+    const number = await this.phoneNumbers.normalizeOrThrow(
+      shopId,
+      phoneNumber,
+    );
+
+    const [record, events] = await Promise.all([
+      this.prisma.consentRecord.findUnique({
+        where: { shopId_phoneNumber: { shopId, phoneNumber: number } },
+      }),
+      this.prisma.consentEvent.findMany({
+        where: { shopId, phoneNumber: number },
+        orderBy: { createdAt: 'desc' },
+        include: { user: { select: { id: true, email: true } } },
+      }),
+    ]);
+
+    return {
+      phoneNumber: number,
+      status: (record?.status as ConsentStatus) ?? 'opted_in',
+      events,
+    };
+  }
+
+  async isOptedOut(shopId: string, phoneNumber: string) {
+    const record = await this.prisma.consentRecord.findUnique({
+      where: { shopId_phoneNumber: { shopId, phoneNumber } },
+      select: { status: true },
+    });
+    return record?.status === 'opted_out';
+  }
+
+  /**
+   * Subset of the given numbers that opted out of the shop's messages
+   */
+  async findOptedOut(shopId: string, phoneNumbers: string[]) {
+    const records = await this.prisma.consentRecord.findMany({
+      where: {
+        shopId,
+        status: 'opted_out',
+        phoneNumber: { in: phoneNumbers },
+      },
+      select: { phoneNumber: true },
+    });
+    return new Set(records.map((record) => record.phoneNumber));
+  }
+
+  /**
+   * Record a consent change; repeated changes to the current status are not logged again
+   */
+  async setStatus(
+    shopId: string,
+    phoneNumber: string,
+    status: ConsentStatus,
+    change: ConsentChange,
+  ) {
+    const number = await this.phoneNumbers.normalizeOrThrow(
+      shopId,
+      phoneNumber,
+    );
+
+    const current = await this.prisma.consentRecord.findUnique({
+      where: { shopId_phoneNumber: { shopId, phoneNumber: number } },
+    });
+
+    // Numbers without a record are implicitly opted in
+    if ((current?.status ?? 'opted_in') === status) {
+      return { changed: false, status };
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.consentRecord.upsert({
+        where: { shopId_phoneNumber: { shopId, phoneNumber: number } },
+        create: { shopId, phoneNumber: number, status },
+        update: { status },
+      }),
+      this.prisma.consentEvent.create({
+        data: {
+          shopId,
+          phoneNumber: number,
+          status,
+          source: change.source,
+          keyword: change.keyword ?? null,
+          messageId: change.messageId ?? null,
+          userId: change.userId ?? null,
+          note: change.note ?? null,
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Consent for ${number} in shop ${shopId} changed to ${status} (${change.source})`,
+    );
+
+    return { changed: true, status };
+  }
+
+  /**
+   * Apply opt-out/opt-in keywords from an inbound text. Only messages consisting of
+   * the keyword alone count, so "não quero sair agora" does not unsubscribe anyone.
+   * Returns the confirmation to send back, if any.
+   */
+  async handleInboundText(
+    shopId: string,
+    phoneNumber: string,
+    text: string | null,
+    messageId: string,
+  ): Promise<{ status: ConsentStatus; reply: string | null } | null> {
+    if (!text) {
+      return null;
+    }
+
+    const keyword = normalizeKeyword(text);
+    if (!keyword) {
+      return null;
+    }
+
+    const settings = await this.getSettings(shopId);
+    const status: ConsentStatus | null = settings.optOutKeywords.includes(
+      keyword,
+    )
+      ? 'opted_out'
+      : settings.optInKeywords.includes(keyword)
+        ? 'opted_in'
+        : null;
+
+    if (!status) {
+      return null;
+    }
+
+    const { changed } = await this.setStatus(shopId, phoneNumber, status, {
+      source: 'keyword',
+      keyword,
+      messageId,
+    });
+
+    return {
+      status,
+      reply: changed && status === 'opted_out' ? settings.optOutReply : null,
+    };
+  }
+}
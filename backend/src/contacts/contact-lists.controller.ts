@@ -0,0 +1,246 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { finalize } from 'rxjs';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ColumnMapping, ContactListsService } from './contact-lists.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { TenantAccessService } from '../tenancy/tenant-access.service';
+
+// Uploads are written to disk and streamed, so large spreadsheets never sit in memory
+const importInterceptor = FileInterceptor('file', {
+  dest: os.tmpdir(),
+  limits: { fileSize: 50 * 1024 * 1024 },
+});
+
+/**
+ * Delete the uploaded file once the request is done, including when the body fails
+ * validation and the handler never runs
+ */
+@Injectable()
+class RemoveUploadInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler) {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    return next.handle().pipe(
+      finalize(() => {
+        if (request.file?.path) {
+          fs.unlink(request.file.path).catch(() => undefined);
+        }
+      }),
+    );
+  }
+}
+
+class CreateContactListDto {
+  @IsString()
+  @IsNotEmpty()
+  shopId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  phoneNumbers?: string[];
+}
+
+class RenameContactListDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+}
+
+class AddNumbersDto {
+  @IsArray()
+  @IsString({ each: true })
+  phoneNumbers: string[];
+}
+
+class PreviewImportDto {
+  @IsString()
+  @IsNotEmpty()
+  shopId: string;
+}
+
+class ImportContactListDto {
+  // JSON encoded ColumnMapping, multipart bodies only carry strings
+  @IsString()
+  @IsNotEmpty()
+  mapping: string;
+}
+
+@Controller('contact-lists')
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class ContactListsController {
+  constructor(
+    private contactListsService: ContactListsService,
+    private tenantAccess: TenantAccessService,
+  ) {}
+
+  @Get()
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  async findAll(@Query('shopId') shopId: string) {
+    return this.contactListsService.findAll(shopId);
+  }
+
+  @Post()
+  @OwnsResource({ resource: 'shop', body: 'shopId', role: 'agent' })
+  async create(@Body() createContactListDto: CreateContactListDto) {
+    return this.contactListsService.create(
+      createContactListDto.shopId,
+      createContactListDto.name,
+      createContactListDto.phoneNumbers,
+    );
+  }
+
+  // Declared before :id routes so 'import' is not captured as a list id
+  @Post('import/preview')
+  @UseInterceptors(importInterceptor, RemoveUploadInterceptor)
+  async previewImport(
+    @CurrentUser() user: any,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() previewImportDto: PreviewImportDto,
+  ) {
+    // Multipart bodies are parsed after guards run, so check ownership here
+    await this.tenantAccess.assertAccess(
+      user.id,
+      'shop',
+      previewImportDto.shopId,
+      'agent',
+    );
+    this.assertFile(file);
+
+    return this.contactListsService.preview(file.path, file.originalname);
+  }
+
+  @Patch(':id')
+  @OwnsResource({ resource: 'contactList', param: 'id', role: 'agent' })
+  async rename(
+    @Param('id') id: string,
+    @Body() renameContactListDto: RenameContactListDto,
+  ) {
+    return this.contactListsService.rename(id, renameContactListDto.name);
+  }
+
+  @Delete(':id')
+  @OwnsResource({ resource: 'contactList', param: 'id', role: 'admin' })
+  async remove(@Param('id') id: string) {
+    await this.contactListsService.remove(id);
+    return { success: true };
+  }
+
+  @Post(':id/numbers')
+  @OwnsResource({ resource: 'contactList', param: 'id', role: 'agent' })
+  async addNumbers(
+    @Param('id') id: string,
+    @Body() addNumbersDto: AddNumbersDto,
+  ) {
+    return this.contactListsService.addNumbers(id, addNumbersDto.phoneNumbers);
+  }
+
+  @Post(':id/import')
+  @OwnsResource({ resource: 'contactList', param: 'id', role: 'agent' })
+  @UseInterceptors(importInterceptor, RemoveUploadInterceptor)
+  async importFile(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importContactListDto: ImportContactListDto,
+  ) {
+    this.assertFile(file);
+    const mapping = this.parseMapping(importContactListDto.mapping);
+
+    return this.contactListsService.importFile(
+      id,
+      file.path,
+      file.originalname,
+      mapping,
+    );
+  }
+
+  @Get(':id/export')
+  @OwnsResource({ resource: 'contactList', param: 'id' })
+  async export(@Param('id') id: string, @Res() res: Response) {
+    const { name, csv } = await this.contactListsService.exportCsv(id);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(name)}.csv`,
+    );
+    // BOM so Excel opens accented names correctly
+    res.send('\uFEFF' + csv);
+  }
+
+  private assertFile(file?: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('A CSV or XLSX file is required');
+    }
+  }
+
+  private parseMapping(value: string): ColumnMapping {
+    let mapping: any;
+    try {
+      mapping = JSON.parse(value);
+    } catch {
+      throw new BadRequestException('mapping must be valid JSON');
+    }
+
+    if (!mapping || typeof mapping.phone !== 'string' || !mapping.phone) {
+      throw new BadRequestException('mapping.phone must name the phone column');
+    }
+    if (mapping.name !== undefined && typeof mapping.name !== 'string') {
+      throw new BadRequestException('mapping.name must be a column name');
+    }
+    if (
+      mapping.variables !== undefined &&
+      (typeof mapping.variables !== 'object' ||
+        mapping.variables === null ||
+        Array.isArray(mapping.variables) ||
+        Object.values(mapping.variables).some((key) => typeof key !== 'string'))
+    ) {
+      throw new BadRequestException(
+        'mapping.variables must map column names to field names',
+      );
+    }
+
+    return {
+      phone: mapping.phone,
+      name: mapping.name || undefined,
+      variables: mapping.variables,
+    };
+  }
+}
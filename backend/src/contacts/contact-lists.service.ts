@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { escapeCsv } from '../common/utils/csv.util';
+import {
+  PhoneNumberNormalizer,
+  PhoneNumbersService,
+} from '../phone-numbers/phone-numbers.service';
+import { SpreadsheetRow, readSpreadsheetRows } from './spreadsheet-reader';
+
+export interface ColumnMapping {
+  phone: string;
+  name?: string;
+  // Spreadsheet column -> contact custom field key
+  variables?: Record<string, string>;
+}
+
+export interface ImportRowError {
+  row: number;
+  value: string;
+  reason: 'invalid_number' | 'duplicate';
+}
+
+export interface ImportReport {
+  totalRows: number;
+  imported: number;
+  alreadyInList: number;
+  invalid: number;
+  duplicates: number;
+  // Capped at MAX_REPORTED_ERRORS
+  errors: ImportRowError[];
+}
+
+interface ImportedContact {
+  phoneNumber: string;
+  name?: string;
+  customFields?: Record<string, string>;
+}
+
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 100;
+const PREVIEW_ROWS = 5;
+
+const PHONE_HEADER = /(telefone|celular|phone|whatsapp|n[uú]mero|fone)/i;
+const NAME_HEADER = /^(nome|name|cliente)/i;
+
+@Injectable()
+export class ContactListsService {
+  private readonly logger = new Logger(ContactListsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private phoneNumbers: PhoneNumbersService,
+  ) {}
+
+  async findAll(shopId: string) {
+    const lists = await this.prisma.contactList.findMany({
+      where: { shopId },
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { members: true } } },
+    });
+
+    return lists.map(({ _count, ...list }) => ({
+      ...list,
+      memberCount: _count.members,
+    }));
+  }
+
+  async create(shopId: string, name: string, phoneNumbers: string[] = []) {
+    const list = await this.prisma.contactList.create({
+      data: { shopId, name },
+    });
+
+    const report = await this.importContacts(
+      list.id,
+      this.toRows(phoneNumbers),
+      { phone: 'phone' },
+    );
+
+    return { ...list, memberCount: report.imported, report };
+  }
+
+  async addNumbers(id: string, phoneNumbers: string[]) {
+    return this.importContacts(id, this.toRows(phoneNumbers), {
+      phone: 'phone',
+    });
+  }
+
+  async rename(id: string, name: string) {
+    return this.prisma.contactList.update({
+      where: { id },
+      data: { name },
+    });
+  }
+
+  async remove(id: string) {
+    // Contacts stay in the shop, only the list and its memberships go
+    await this.prisma.contactList.delete({ where: { id } });
+  }
+
+  /**
+   * Read the header row and a few sample rows so the user can map columns before importing
+   */
+  async preview(filePath: string, filename: string) {
+    const sampleRows: SpreadsheetRow[] = [];
+
+    try {
+      for await (const row of readSpreadsheetRows(filePath, filename)) {
+        sampleRows.push(row);
+        if (sampleRows.length >= PREVIEW_ROWS) {
+          break;
+        }
+      }
+    } catch (error) {
+      throw new BadRequestException(`Could not read file: ${error.message}`);
+    }
+
+    const headers = sampleRows.length ? Object.keys(sampleRows[0]) : [];
+    if (!headers.length) {
+      throw new BadRequestException('The file has no data rows');
+    }
+
+    return {
+      headers,
+      sampleRows,
+      suggestedMapping: {
+        phone: headers.find((header) => PHONE_HEADER.test(header)) ?? null,
+        name: headers.find((header) => NAME_HEADER.test(header)) ?? null,
+      },
+    };
+  }
+
+  /**
+   * Import a CSV/XLSX file into the list using the given column mapping
+   */
+  async importFile(
+    id: string,
+    filePath: string,
+    filename: string,
+    mapping: ColumnMapping,
+  ) {
+    try {
+      return await this.importContacts(
+        id,
+        readSpreadsheetRows(filePath, filename),
+        mapping,
+      );
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error(`Failed to import file into list ${id}:`, error);
+      throw new BadRequestException(`Could not import file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Render a list as CSV (phone, name and every custom field found)
+   */
+  async exportCsv(id: string) {
+    const list = await this.prisma.contactList.findUnique({
+      where: { id },
+      include: {
+        members: {
+          orderBy: { createdAt: 'asc' },
+          include: { contact: true },
+        },
+      },
+    });
+
+    if (!list) {
+      throw new NotFoundException('Contact list not found');
+    }
+
+    const contacts = list.members.map((member) => member.contact);
+    const fieldKeys = [
+      ...new Set(
+        contacts.flatMap((contact) =>
+          Object.keys((contact.customFields as Record<string, string>) || {}),
+        ),
+      ),
+    ];
+
+    const lines = [
+      ['phone', 'name', ...fieldKeys],
+      ...contacts.map((contact) => {
+        const fields = (contact.customFields as Record<string, string>) || {};
+        return [
+          contact.phoneNumber,
+          contact.name || contact.profileName || '',
+          ...fieldKeys.map((key) => fields[key] ?? ''),
+        ];
+      }),
+    ].map((cells) => cells.map(escapeCsv).join(','));
+
+    return { name: list.name, csv: lines.join('\n') };
+  }
+
+  /**
+   * Unique phone numbers of every member of the given lists (all must belong to the shop)
+   */
+  async resolveNumbers(shopId: string, listIds: string[]) {
+    const ids = [...new Set(listIds)];
+    const count = await this.prisma.contactList.count({
+      where: { id: { in: ids }, shopId },
+    });
+
+    if (count !== ids.length) {
+      throw new BadRequestException(
+        'One or more contact lists were not found in this shop',
+      );
+    }
+
+    const members = await this.prisma.contactListMember.findMany({
+      where: { listId: { in: ids } },
+      select: { contact: { select: { phoneNumber: true } } },
+    });
+
+    return [...new Set(members.map((member) => member.contact.phoneNumber))];
+  }
+
+  private async importContacts(
+    id: string,
+    rows: Iterable<SpreadsheetRow> | AsyncIterable<SpreadsheetRow>,
+    mapping: ColumnMapping,
+  ): Promise<ImportReport> {
+    const list = await this.prisma.contactList.findUnique({ where: { id } });
+    if (!list) {
+      throw new NotFoundException('Contact list not found');
+    }
+
+    const report: ImportReport = {
+      totalRows: 0,
+      imported: 0,
+      alreadyInList: 0,
+      invalid: 0,
+      duplicates: 0,
+      errors: [],
+    };
+    const normalize: PhoneNumberNormalizer = await this.phoneNumbers.forShop(
+      list.shopId,
+    );
+    const seen = new Set<string>();
+    let batch: ImportedContact[] = [];
+
+    const reportError = (error: ImportRowError) => {
+      if (report.errors.length < MAX_REPORTED_ERRORS) {
+        report.errors.push(error);
+      }
+    };
+
+    for await (const row of rows) {
+      report.totalRows++;
+      // Row numbers as the user sees them in the spreadsheet (header is row 1)
+      const rowNumber = report.totalRows + 1;
+
+      if (report.totalRows === 1 && !(mapping.phone in row)) {
+        throw new BadRequestException(
+          `Column "${mapping.phone}" was not found in the file`,
+        );
+      }
+
+      const rawPhone = row[mapping.phone] ?? '';
+      const phoneNumber = normalize(rawPhone);
+
+      if (!phoneNumber) {
+        report.invalid++;
+        reportError({
+          row: rowNumber,
+          value: rawPhone,
+          reason: 'invalid_number',
+        });
+        continue;
+      }
+
+      if (seen.has(phoneNumber)) {
+        report.duplicates++;
+        reportError({ row: rowNumber, value: rawPhone, reason: 'duplicate' });
+        continue;
+      }
+      seen.add(phoneNumber);
+
+      const contact: ImportedContact = { phoneNumber };
+      if (mapping.name && row[mapping.name]) {
+        contact.name = row[mapping.name];
+      }
+      for (const [column, key] of Object.entries(mapping.variables || {})) {
+        if (row[column]) {
+          contact.customFields = {
+            ...contact.customFields,
+            [key]: row[column],
+          };
+        }
+      }
+      batch.push(contact);
+
+      if (batch.length >= BATCH_SIZE) {
+        await this.saveBatch(list.id, list.shopId, batch, report);
+        batch = [];
+      }
+    }
+
+    if (batch.length) {
+      await this.saveBatch(list.id, list.shopId, batch, report);
+    }
+
+    await this.prisma.contactList.update({
+      where: { id: list.id },
+      data: { updatedAt: new Date() },
+    });
+
+    this.logger.log(
+      `Imported ${report.imported}/${report.totalRows} rows into list ${list.id}`,
+    );
+
+    return report;
+  }
+
+  private async saveBatch(
+    listId: string,
+    shopId: string,
+    batch: ImportedContact[],
+    report: ImportReport,
+  ) {
+    const phoneNumbers = batch.map((contact) => contact.phoneNumber);
+    const existing = await this.prisma.contact.findMany({
+      where: { shopId, phoneNumber: { in: phoneNumbers } },
+      select: { id: true, phoneNumber: true, customFields: true },
+    });
+    const existingByNumber = new Map(
+      existing.map((contact) => [contact.phoneNumber, contact]),
+    );
+
+    const created = batch.filter(
+      (contact) => !existingByNumber.has(contact.phoneNumber),
+    );
+    await this.prisma.contact.createMany({
+      data: created.map((contact) => ({
+        shopId,
+        phoneNumber: contact.phoneNumber,
+        name: contact.name ?? null,
+        customFields: contact.customFields ?? Prisma.JsonNull,
+      })),
+      skipDuplicates: true,
+    });
+
+    // Imported values win over what was stored, other custom fields are kept
+    const updates = batch
+      .filter(
+        (contact) =>
+          existingByNumber.has(contact.phoneNumber) &&
+          (contact.name || contact.customFields),
+      )
+      .map((contact) => {
+        const current = existingByNumber.get(contact.phoneNumber)!;
+        return this.prisma.contact.update({
+          where: { id: current.id },
+          data: {
+            ...(contact.name ? { name: contact.name } : {}),
+            ...(contact.customFields
+              ? {
+                  customFields: {
+                    ...((current.customFields as Record<string, string>) || {}),
+                    ...contact.customFields,
+                  },
+                }
+              : {}),
+          },
+        });
+      });
+    if (updates.length) {
+      await this.prisma.$transaction(updates);
+    }
+
+    const contacts = await this.prisma.contact.findMany({
+      where: { shopId, phoneNumber: { in: phoneNumbers } },
+      select: { id: true },
+    });
+    const { count } = await this.prisma.contactListMember.createMany({
+      data: contacts.map((contact) => ({ listId, contactId: contact.id })),
+      skipDuplicates: true,
+    });
+
+    report.imported += count;
+    report.alreadyInList += contacts.length - count;
+  }
+
+  private toRows(phoneNumbers: string[]): SpreadsheetRow[] {
+    return phoneNumbers.map((phone) => ({ phone }));
+  }
+}
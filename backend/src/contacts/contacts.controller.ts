@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ContactsService } from './contacts.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+
+class UpdateContactDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  name?: string;
+
+  @IsObject()
+  @IsOptional()
+  customFields?: Record<string, string>;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+}
+
+class CreateContactDto extends UpdateContactDto {
+  @IsString()
+  @IsNotEmpty()
+  shopId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+}
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class ContactsController {
+  constructor(private contactsService: ContactsService) {}
+
+  @Get()
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  async findAll(
+    @Query('shopId') shopId: string,
+    @Query('search') search?: string,
+    @Query('tag') tag?: string,
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '50',
+  ) {
+    return this.contactsService.findAll(shopId, {
+      search,
+      tag,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  }
+
+  @Get(':id')
+  @OwnsResource({ resource: 'contact', param: 'id' })
+  async findOne(@Param('id') id: string) {
+    return this.contactsService.findOne(id);
+  }
+
+  @Post()
+  @OwnsResource({ resource: 'shop', body: 'shopId', role: 'agent' })
+  async create(@Body() createContactDto: CreateContactDto) {
+    const { shopId, phoneNumber, ...input } = createContactDto;
+    return this.contactsService.create(shopId, phoneNumber, input);
+  }
+
+  @Patch(':id')
+  @OwnsResource({ resource: 'contact', param: 'id', role: 'agent' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateContactDto: UpdateContactDto,
+  ) {
+    return this.contactsService.update(id, updateContactDto);
+  }
+
+  @Delete(':id')
+  @OwnsResource({ resource: 'contact', param: 'id', role: 'admin' })
+  async remove(@Param('id') id: string) {
+    await this.contactsService.remove(id);
+    return { success: true };
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PhoneNumbersService } from '../phone-numbers/phone-numbers.service';
+
+export interface ContactInput {
+  name?: string | null;
+  customFields?: Record<string, string>;
+  tags?: string[];
+}
+
+export interface ContactFilters {
+  search?: string;
+  tag?: string;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class ContactsService {
+  constructor(
+    private prisma: PrismaService,
+    private phoneNumbers: PhoneNumbersService,
+  ) {}
+
+  async findAll(shopId: string, filters: ContactFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+
+    const where: Prisma.ContactWhereInput = { shopId };
+    if (filters.search) {
+      where.OR = [
+        {
+          phoneNumber: {
+            contains: filters.search.replace(/\D/g, '') || filters.search,
+          },
+        },
+        { name: { contains: filters.search } },
+        { profileName: { contains: filters.search } },
+      ];
+    }
+    if (filters.tag) {
+      where.tags = { array_contains: [filters.tag] };
+    }
+
+    const [contacts, total] = await Promise.all([
+      this.prisma.contact.findMany({
+        where,
+        orderBy: [{ lastSeenAt: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.contact.count({ where }),
+    ]);
+
+    return {
+      data: contacts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Contact with every conversation and campaign it took part in
+   */
+  async findOne(id: string) {
+    const contact = await this.prisma.contact.findUnique({
+      where: { id },
+      include: {
+        conversations: {
+          orderBy: { lastAt: 'desc' },
+          select: {
+            id: true,
+            status: true,
+            lastAt: true,
+            unreadCount: true,
+            wabaAccount: { select: { id: true, displayNumber: true } },
+          },
+        },
+        campaignJobs: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            status: true,
+            createdAt: true,
+            campaign: {
+              select: {
+                id: true,
+                templateId: true,
+                status: true,
+                createdAt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+
+    const { campaignJobs, ...rest } = contact;
+
+    return {
+      ...rest,
+      campaigns: campaignJobs.map((job) => ({
+        ...job.campaign,
+        jobId: job.id,
+        jobStatus: job.status,
+        sentAt: job.createdAt,
+      })),
+    };
+  }
+
+  async create(shopId: string, phoneNumber: string, input: ContactInput) {
+    const number = await this.phoneNumbers.normalizeOrThrow(
+      shopId,
+      phoneNumber,
+    );
+
+    const existing = await this.prisma.contact.findUnique({
+      where: { shopId_phoneNumber: { shopId, phoneNumber: number } },
+    });
+
+    if (existing) {
+      throw new BadRequestException(
+        'A contact with this number already exists',
+      );
+    }
+
+    const contact = await this.prisma.contact.create({
+      data: { shopId, phoneNumber: number, ...this.toData(input) },
+    });
+
+    // Attach conversations that started before the contact was created
+    await this.prisma.conversation.updateMany({
+      where: {
+        contactNumber: number,
+        contactId: null,
+        wabaAccount: { shopId },
+      },
+      data: { contactId: contact.id },
+    });
+
+    return contact;
+  }
+
+  async update(id: string, input: ContactInput) {
+    return this.prisma.contact.update({
+      where: { id },
+      data: this.toData(input),
+    });
+  }
+
+  async remove(id: string) {
+    await this.prisma.contact.delete({ where: { id } });
+  }
+
+  /**
+   * Create or refresh the contact behind an inbound message
+   */
+  async upsertFromInbound(
+    shopId: string,
+    phoneNumber: string,
+    profileName?: string,
+    seenAt: Date = new Date(),
+  ) {
+    return this.prisma.contact.upsert({
+      where: { shopId_phoneNumber: { shopId, phoneNumber } },
+      update: {
+        lastSeenAt: seenAt,
+        ...(profileName ? { profileName } : {}),
+      },
+      create: {
+        shopId,
+        phoneNumber,
+        profileName: profileName || null,
+        lastSeenAt: seenAt,
+      },
+    });
+  }
+
+  /**
+   * Make sure every number has a contact, returning contact ids keyed by number
+   */
+  async ensureContacts(shopId: string, phoneNumbers: string[]) {
+    const numbers = [...new Set(phoneNumbers)];
+
+    await this.prisma.contact.createMany({
+      data: numbers.map((phoneNumber) => ({ shopId, phoneNumber })),
+      skipDuplicates: true,
+    });
+
+    const contacts = await this.prisma.contact.findMany({
+      where: { shopId, phoneNumber: { in: numbers } },
+      select: { id: true, phoneNumber: true },
+    });
+
+    return new Map(
+      contacts.map((contact) => [contact.phoneNumber, contact.id]),
+    );
+  }
+
+  // An empty name clears it so the profile name shows again
+  private toData(input: ContactInput) {
+    if (input.name === undefined) {
+      return input;
+    }
+    return { ...input, name: input.name?.trim() || null };
+  }
+}
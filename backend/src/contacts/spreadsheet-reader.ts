@@ -0,0 +1,106 @@
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import { parse } from 'csv-parse';
+import * as ExcelJS from 'exceljs';
+
+export type SpreadsheetRow = Record<string, string>;
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Stream the rows of a CSV or XLSX file as objects keyed by the header row.
+ * Only the first worksheet of a workbook is read.
+ */
+export async function* readSpreadsheetRows(
+  filePath: string,
+  filename: string,
+): AsyncGenerator<SpreadsheetRow> {
+  const extension = path.extname(filename).toLowerCase();
+
+  if (extension === '.csv') {
+    yield* readCsvRows(filePath);
+  } else if (extension === '.xlsx') {
+    yield* readXlsxRows(filePath);
+  } else {
+    throw new Error(
+      `Unsupported file type ${extension || '(none)'}. Use ${SPREADSHEET_EXTENSIONS.join(' or ')}`,
+    );
+  }
+}
+
+async function* readCsvRows(filePath: string): AsyncGenerator<SpreadsheetRow> {
+  const parser = createReadStream(filePath).pipe(
+    parse({
+      columns: (header: string[]) => header.map((name) => name.trim()),
+      // Spreadsheets exported in pt-BR locales use semicolons
+      delimiter: [',', ';', '\t'],
+      bom: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    }),
+  );
+
+  for await (const record of parser) {
+    yield record;
+  }
+}
+
+async function* readXlsxRows(filePath: string): AsyncGenerator<SpreadsheetRow> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'ignore',
+    worksheets: 'emit',
+  });
+
+  for await (const worksheet of workbook) {
+    let headers: string[] | null = null;
+
+    for await (const row of worksheet) {
+      // row.values is 1-indexed
+      const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellText);
+
+      if (!headers) {
+        headers = values.map((value) => value.trim());
+        continue;
+      }
+
+      if (values.every((value) => !value)) {
+        continue;
+      }
+
+      const record: SpreadsheetRow = {};
+      headers.forEach((header, index) => {
+        if (header) {
+          record[header] = (values[index] ?? '').trim();
+        }
+      });
+      yield record;
+    }
+
+    return;
+  }
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    if ('result' in value) {
+      return value.result === undefined ? '' : String(value.result);
+    }
+    return '';
+  }
+  return String(value);
+}
@@ -1,13 +1,16 @@
 import { Controller, Get, Query, UseGuards } from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
 
 @Controller('dashboard')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class DashboardController {
   constructor(private dashboardService: DashboardService) {}
 
   @Get('stats')
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
   async getStats(@Query('wabaAccountId') wabaAccountId: string) {
     if (!wabaAccountId) {
       throw new Error('wabaAccountId is required');
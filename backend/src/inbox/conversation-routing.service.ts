@@ -0,0 +1,115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SERVICE_WINDOW_MS } from '../common/utils/service-window.util';
+
+export type RoutingMode = 'manual' | 'round_robin' | 'least_busy';
+
+export const ROUTING_MODES: RoutingMode[] = [
+  'manual',
+  'round_robin',
+  'least_busy',
+];
+
+// Viewers can read the inbox but never receive conversations
+const ROUTABLE_ROLES = ['owner', 'admin', 'agent'];
+
+@Injectable()
+export class ConversationRoutingService {
+  private readonly logger = new Logger(ConversationRoutingService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Assign a new conversation to an available agent according to the shop's routing mode
+   * Returns the assigned user id, or null when routing is manual or nobody is online
+   */
+  async routeConversation(conversationId: string): Promise<string | null> {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: { wabaAccount: { include: { shop: true } } },
+    });
+
+    if (!conversation || conversation.assignedToId) {
+      return null;
+    }
+
+    const shop = conversation.wabaAccount.shop;
+    const mode = shop.routingMode as RoutingMode;
+    if (mode === 'manual') {
+      return null;
+    }
+
+    const agents = await this.prisma.shopMember.findMany({
+      where: {
+        shopId: shop.id,
+        available: true,
+        role: { in: ROUTABLE_ROLES },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { userId: true },
+    });
+
+    if (agents.length === 0) {
+      this.logger.debug(`No available agents to route ${conversationId}`);
+      return null;
+    }
+
+    const userIds = agents.map((agent) => agent.userId);
+    const userId =
+      mode === 'least_busy'
+        ? await this.pickLeastBusy(shop.id, userIds)
+        : this.pickNext(userIds, shop.lastRoutedUserId);
+
+    // Only assign if nobody claimed the conversation in the meantime
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId, assignedToId: null },
+      data: { assignedToId: userId, assignedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    if (mode === 'round_robin') {
+      await this.prisma.shop.update({
+        where: { id: shop.id },
+        data: { lastRoutedUserId: userId },
+      });
+    }
+
+    this.logger.log(
+      `Routed conversation ${conversationId} to ${userId} (${mode})`,
+    );
+
+    return userId;
+  }
+
+  private pickNext(userIds: string[], lastUserId: string | null) {
+    const lastIndex = lastUserId ? userIds.indexOf(lastUserId) : -1;
+    return userIds[(lastIndex + 1) % userIds.length];
+  }
+
+  /**
+   * Agent with the fewest active conversations (contact wrote within the last 24h)
+   */
+  private async pickLeastBusy(shopId: string, userIds: string[]) {
+    const counts = await this.prisma.conversation.groupBy({
+      by: ['assignedToId'],
+      where: {
+        assignedToId: { in: userIds },
+        wabaAccount: { shopId },
+        lastInboundAt: { gte: new Date(Date.now() - SERVICE_WINDOW_MS) },
+      },
+      _count: { _all: true },
+    });
+
+    const load = new Map(
+      counts.map((row) => [row.assignedToId, row._count._all]),
+    );
+
+    // Ties go to the longest-standing member
+    return userIds.reduce((best, userId) =>
+      (load.get(userId) || 0) < (load.get(best) || 0) ? userId : best,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+
+@Processor('conversation-snooze')
+export class ConversationSnoozeProcessor extends WorkerHost {
+  private readonly logger = new Logger(ConversationSnoozeProcessor.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private realtime: RealtimeService,
+  ) {
+    super();
+  }
+
+  async process(job: Job) {
+    const { conversationId, snoozedUntil } = job.data;
+
+    // Skip stale jobs: the conversation was reopened, resolved or snoozed again since
+    const { count } = await this.prisma.conversation.updateMany({
+      where: {
+        id: conversationId,
+        status: 'snoozed',
+        snoozedUntil: new Date(snoozedUntil),
+      },
+      data: { status: 'open', snoozedUntil: null },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Woke snoozed conversation ${conversationId}`);
+      await this.realtime.publishForConversation(conversationId);
+    }
+  }
+}
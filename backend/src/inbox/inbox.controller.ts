@@ -1,26 +1,104 @@
-import { Controller, Get, Param, Query, Put, UseGuards } from '@nestjs/common';
-import { InboxService } from './inbox.service';
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Put,
+  Body,
+  Res,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import {
+  AssignmentFilter,
+  CONVERSATION_STATUSES,
+  ConversationStatus,
+  InboxService,
+} from './inbox.service';
+import { MediaService } from '../media/media.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+const ASSIGNMENT_FILTERS: AssignmentFilter[] = ['all', 'me', 'unassigned'];
+
+class AssignConversationDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+}
+
+class TransferConversationDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+}
+
+class SnoozeConversationDto {
+  @IsDateString()
+  until: string;
+}
+
+class AvailabilityDto {
+  @IsString()
+  @IsNotEmpty()
+  wabaAccountId: string;
+
+  @IsBoolean()
+  available: boolean;
+}
 
 @Controller('inbox')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class InboxController {
-  constructor(private inboxService: InboxService) {}
+  constructor(
+    private inboxService: InboxService,
+    private mediaService: MediaService,
+  ) {}
 
   @Get('conversations')
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
   async getConversations(
+    @CurrentUser() user: any,
     @Query('wabaAccountId') wabaAccountId: string,
     @Query('page') page: string = '1',
     @Query('limit') limit: string = '50',
+    @Query('assigned') assigned: AssignmentFilter = 'all',
+    @Query('status') status?: ConversationStatus,
   ) {
+    if (!ASSIGNMENT_FILTERS.includes(assigned)) {
+      throw new BadRequestException(
+        `assigned must be one of: ${ASSIGNMENT_FILTERS.join(', ')}`,
+      );
+    }
+
+    if (status && !CONVERSATION_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        `status must be one of: ${CONVERSATION_STATUSES.join(', ')}`,
+      );
+    }
+
     return this.inboxService.getConversations(
       wabaAccountId,
       parseInt(page),
       parseInt(limit),
+      assigned,
+      user.id,
+      status,
     );
   }
 
   @Get('conversations/:id')
+  @OwnsResource({ resource: 'conversation', param: 'id' })
   async getConversationMessages(
     @Param('id') id: string,
     @Query('page') page: string = '1',
@@ -29,10 +107,120 @@ export class InboxController {
     return this.inboxService.getConversationMessages(id, parseInt(page), parseInt(limit));
   }
 
+  @Get('media/:messageId')
+  @OwnsResource({ resource: 'message', param: 'messageId' })
+  async getMedia(@Param('messageId') messageId: string, @Res() res: Response) {
+    const media = await this.mediaService.getMessageMedia(messageId);
+
+    res.setHeader('Content-Type', media.mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    if (media.size) {
+      res.setHeader('Content-Length', media.size.toString());
+    }
+    if (media.filename) {
+      res.setHeader(
+        'Content-Disposition',
+        `inline; filename*=UTF-8''${encodeURIComponent(media.filename)}`,
+      );
+    }
+
+    media.stream.pipe(res);
+  }
+
   @Put('conversations/:id/read')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
   async markAsRead(@Param('id') id: string) {
     await this.inboxService.markConversationAsRead(id);
     return { success: true };
   }
-}
 
+  @Put('conversations/:id/resolve')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async resolve(@Param('id') id: string) {
+    return this.inboxService.resolveConversation(id);
+  }
+
+  @Put('conversations/:id/reopen')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async reopen(@Param('id') id: string) {
+    return this.inboxService.reopenConversation(id);
+  }
+
+  @Put('conversations/:id/pending')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async markPending(@Param('id') id: string) {
+    return this.inboxService.markConversationPending(id);
+  }
+
+  @Put('conversations/:id/snooze')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async snooze(
+    @Param('id') id: string,
+    @Body() snoozeConversationDto: SnoozeConversationDto,
+  ) {
+    return this.inboxService.snoozeConversation(
+      id,
+      new Date(snoozeConversationDto.until),
+    );
+  }
+
+  @Put('conversations/:id/assign')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async assign(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() assignConversationDto: AssignConversationDto,
+  ) {
+    return this.inboxService.assignConversation(
+      id,
+      user.id,
+      assignConversationDto.userId,
+    );
+  }
+
+  @Put('conversations/:id/transfer')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async transfer(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() transferConversationDto: TransferConversationDto,
+  ) {
+    return this.inboxService.transferConversation(
+      id,
+      user.id,
+      transferConversationDto.userId,
+    );
+  }
+
+  @Put('conversations/:id/unassign')
+  @OwnsResource({ resource: 'conversation', param: 'id', role: 'agent' })
+  async unassign(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.inboxService.unassignConversation(id, user.id);
+  }
+
+  @Get('availability')
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
+  async getAvailability(
+    @Query('wabaAccountId') wabaAccountId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.inboxService.getAvailability(wabaAccountId, user.id);
+  }
+
+  @Put('availability')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    body: 'wabaAccountId',
+    role: 'agent',
+  })
+  async setAvailability(
+    @CurrentUser() user: any,
+    @Body() availabilityDto: AvailabilityDto,
+  ) {
+    return this.inboxService.setAvailability(
+      availabilityDto.wabaAccountId,
+      user.id,
+      availabilityDto.available,
+    );
+  }
+}
@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
 import { InboxController } from './inbox.controller';
 import { InboxService } from './inbox.service';
+import { ConversationRoutingService } from './conversation-routing.service';
+import { ConversationSnoozeProcessor } from './conversation-snooze.processor';
 import { PrismaModule } from '../prisma/prisma.module';
+import { MediaModule } from '../media/media.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    MediaModule,
+    BullModule.registerQueue({
+      name: 'conversation-snooze',
+    }),
+  ],
   controllers: [InboxController],
-  providers: [InboxService],
-  exports: [InboxService],
+  providers: [
+    InboxService,
+    ConversationRoutingService,
+    ConversationSnoozeProcessor,
+  ],
+  exports: [InboxService, ConversationRoutingService],
 })
 export class InboxModule {}
 
@@ -1,16 +1,61 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Prisma } from '@prisma/client';
+import { Queue } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
+import { getServiceWindow } from '../common/utils/service-window.util';
+import { TenantAccessService } from '../tenancy/tenant-access.service';
+import { hasRole } from '../tenancy/shop-roles';
+import { RealtimeService } from '../realtime/realtime.service';
+
+export type AssignmentFilter = 'all' | 'me' | 'unassigned';
+
+export type ConversationStatus = 'open' | 'pending' | 'resolved' | 'snoozed';
+
+export const CONVERSATION_STATUSES: ConversationStatus[] = [
+  'open',
+  'pending',
+  'resolved',
+  'snoozed',
+];
 
 @Injectable()
 export class InboxService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private tenantAccess: TenantAccessService,
+    private realtime: RealtimeService,
+    @InjectQueue('conversation-snooze') private snoozeQueue: Queue,
+  ) {}
 
-  async getConversations(wabaAccountId: string, page: number = 1, limit: number = 50) {
+  async getConversations(
+    wabaAccountId: string,
+    page: number = 1,
+    limit: number = 50,
+    assignment: AssignmentFilter = 'all',
+    userId?: string,
+    status?: ConversationStatus,
+  ) {
     const skip = (page - 1) * limit;
 
+    const where: Prisma.ConversationWhereInput = { wabaAccountId };
+    if (status) {
+      where.status = status;
+    }
+    if (assignment === 'me') {
+      where.assignedToId = userId;
+    } else if (assignment === 'unassigned') {
+      where.assignedToId = null;
+    }
+
     const [conversations, total] = await Promise.all([
       this.prisma.conversation.findMany({
-        where: { wabaAccountId },
+        where,
         orderBy: { lastAt: 'desc' },
         skip,
         take: limit,
@@ -19,21 +64,29 @@ export class InboxService {
             orderBy: { createdAt: 'desc' },
             take: 1,
           },
+          assignedTo: { select: { id: true, email: true } },
+          contact: { select: { name: true, profileName: true } },
         },
       }),
-      this.prisma.conversation.count({
-        where: { wabaAccountId },
-      }),
+      this.prisma.conversation.count({ where }),
     ]);
 
     return {
       data: conversations.map((conv) => ({
         id: conv.id,
         contactNumber: conv.contactNumber,
+        contactId: conv.contactId,
+        contactName: conv.contact?.name || conv.contact?.profileName || null,
         lastMessage: conv.messages[0]?.body || '',
+        lastMessageType: conv.messages[0]?.type,
         lastMessageAt: conv.lastAt,
         unreadCount: conv.unreadCount,
-        status: 'open', // TODO: Add status field to schema
+        status: conv.status,
+        snoozedUntil: conv.snoozedUntil,
+        resolvedAt: conv.resolvedAt,
+        ...getServiceWindow(conv.lastInboundAt),
+        assignedTo: conv.assignedTo,
+        assignedAt: conv.assignedAt,
       })),
       pagination: {
         page,
@@ -63,9 +116,14 @@ export class InboxService {
       data: messages.reverse().map((msg) => ({
         id: msg.id,
         direction: msg.direction,
+        type: msg.type,
         content: msg.body || '',
+        replyId: msg.replyId,
         timestamp: msg.createdAt,
         status: msg.status,
+        mediaMimeType: msg.mediaMimeType,
+        mediaFilename: msg.mediaFilename,
+        hasMedia: !!(msg.mediaId || msg.mediaStorageKey),
       })),
       pagination: {
         page,
@@ -81,6 +139,247 @@ export class InboxService {
       where: { id: conversationId },
       data: { unreadCount: 0 },
     });
+
+    await this.realtime.publishForConversation(conversationId);
+  }
+
+  async resolveConversation(conversationId: string) {
+    return this.setStatus(conversationId, 'resolved');
+  }
+
+  async reopenConversation(conversationId: string) {
+    return this.setStatus(conversationId, 'open');
+  }
+
+  /**
+   * Waiting on something other than the customer (e.g. an internal answer)
+   */
+  async markConversationPending(conversationId: string) {
+    return this.setStatus(conversationId, 'pending');
+  }
+
+  /**
+   * Hide the conversation until the given date, a delayed job reopens it afterwards
+   */
+  async snoozeConversation(conversationId: string, until: Date) {
+    if (until.getTime() <= Date.now()) {
+      throw new BadRequestException('Snooze date must be in the future');
+    }
+
+    const conversation = await this.setStatus(conversationId, 'snoozed', until);
+
+    await this.snoozeQueue.add(
+      'wake-conversation',
+      { conversationId, snoozedUntil: until.toISOString() },
+      {
+        delay: until.getTime() - Date.now(),
+        removeOnComplete: true,
+      },
+    );
+
+    return conversation;
+  }
+
+  /**
+   * Assign an unassigned conversation (to the caller when no user is given)
+   */
+  async assignConversation(
+    conversationId: string,
+    actingUserId: string,
+    userId: string = actingUserId,
+  ) {
+    const conversation = await this.findConversationWithShop(conversationId);
+
+    if (conversation.assignedToId && conversation.assignedToId !== userId) {
+      throw new BadRequestException(
+        'Conversation is already assigned. Transfer it instead.',
+      );
+    }
+
+    await this.assertAssignable(conversation.wabaAccount.shopId, userId);
+
+    return this.setAssignee(conversationId, userId);
+  }
+
+  /**
+   * Hand an assigned conversation over to another member
+   */
+  async transferConversation(
+    conversationId: string,
+    actingUserId: string,
+    userId: string,
+  ) {
+    const conversation = await this.findConversationWithShop(conversationId);
+
+    if (!conversation.assignedToId) {
+      throw new BadRequestException(
+        'Conversation is not assigned. Assign it instead.',
+      );
+    }
+
+    await this.assertCanReassign(
+      conversation.wabaAccount.shopId,
+      conversation.assignedToId,
+      actingUserId,
+    );
+    await this.assertAssignable(conversation.wabaAccount.shopId, userId);
+
+    return this.setAssignee(conversationId, userId);
+  }
+
+  async unassignConversation(conversationId: string, actingUserId: string) {
+    const conversation = await this.findConversationWithShop(conversationId);
+
+    if (conversation.assignedToId) {
+      await this.assertCanReassign(
+        conversation.wabaAccount.shopId,
+        conversation.assignedToId,
+        actingUserId,
+      );
+    }
+
+    return this.setAssignee(conversationId, null);
+  }
+
+  /**
+   * Mark the user as online/offline for automatic routing in the shop owning the WABA account
+   */
+  async setAvailability(
+    wabaAccountId: string,
+    userId: string,
+    available: boolean,
+  ) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+      include: { shop: { select: { id: true } } },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    const { shop } = wabaAccount;
+    const role = await this.tenantAccess.getRole(userId, shop.id);
+    if (!role) {
+      throw new ForbiddenException('You are not a member of this shop');
+    }
+
+    // Owners of shops created before memberships existed get their row on first use
+    const member = await this.prisma.shopMember.upsert({
+      where: { shopId_userId: { shopId: shop.id, userId } },
+      update: { available },
+      create: { shopId: shop.id, userId, role, available },
+    });
+
+    return { available: member.available };
+  }
+
+  async getAvailability(wabaAccountId: string, userId: string) {
+    const member = await this.prisma.shopMember.findFirst({
+      where: {
+        userId,
+        shop: { waba: { some: { id: wabaAccountId } } },
+      },
+      select: { available: true },
+    });
+
+    return { available: member?.available ?? false };
+  }
+
+  private async setStatus(
+    conversationId: string,
+    status: ConversationStatus,
+    snoozedUntil: Date | null = null,
+  ) {
+    const existing = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { status: true },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    if (existing.status === status && status !== 'snoozed') {
+      throw new BadRequestException(`Conversation is already ${status}`);
+    }
+
+    // Pending wake-up jobs for a previous snooze are ignored by the processor
+    const conversation = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        status,
+        snoozedUntil,
+        resolvedAt: status === 'resolved' ? new Date() : null,
+      },
+    });
+
+    await this.realtime.publishForConversation(conversationId);
+
+    return {
+      id: conversation.id,
+      status: conversation.status,
+      snoozedUntil: conversation.snoozedUntil,
+      resolvedAt: conversation.resolvedAt,
+    };
   }
-}
 
+  private async findConversationWithShop(conversationId: string) {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: { wabaAccount: { select: { shopId: true } } },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private async assertAssignable(shopId: string, userId: string) {
+    const role = await this.tenantAccess.getRole(userId, shopId);
+    if (!role || !hasRole(role, 'agent')) {
+      throw new BadRequestException(
+        'Conversations can only be assigned to agents of this shop',
+      );
+    }
+  }
+
+  // Only the current assignee or an admin can take a conversation away from someone
+  private async assertCanReassign(
+    shopId: string,
+    assignedToId: string,
+    actingUserId: string,
+  ) {
+    if (assignedToId === actingUserId) {
+      return;
+    }
+
+    const role = await this.tenantAccess.getRole(actingUserId, shopId);
+    if (!role || !hasRole(role, 'admin')) {
+      throw new ForbiddenException(
+        'Only the assignee or an admin can reassign this conversation',
+      );
+    }
+  }
+
+  private async setAssignee(conversationId: string, userId: string | null) {
+    const conversation = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        assignedToId: userId,
+        assignedAt: userId ? new Date() : null,
+      },
+      include: { assignedTo: { select: { id: true, email: true } } },
+    });
+
+    await this.realtime.publishForConversation(conversationId);
+
+    return {
+      id: conversation.id,
+      assignedTo: conversation.assignedTo,
+      assignedAt: conversation.assignedAt,
+    };
+  }
+}
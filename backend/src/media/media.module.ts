@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MediaService } from './media.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [PrismaModule, StorageModule],
+  providers: [MediaService],
+  exports: [MediaService],
+})
+export class MediaModule {}
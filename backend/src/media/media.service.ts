@@ -0,0 +1,150 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadGatewayException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { EncryptionUtil } from '../common/utils/encryption.util';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'audio/aac': '.aac',
+  'audio/amr': '.amr',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/ogg': '.ogg',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+};
+
+@Injectable()
+export class MediaService {
+  private readonly metaApiVersion: string;
+  private readonly logger = new Logger(MediaService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private storage: StorageService,
+  ) {
+    // Normalize API version - remove 'v' prefix if present
+    const apiVersion = configService.get<string>('META_API_VERSION') || '21.0';
+    this.metaApiVersion = apiVersion.startsWith('v')
+      ? apiVersion.substring(1)
+      : apiVersion;
+  }
+
+  /**
+   * Download a message's media from Meta and persist it to storage
+   * Meta media URLs expire after a few minutes, so this should run as soon as the message arrives
+   */
+  async storeMessageMedia(messageId: string) {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      include: { wabaAccount: true },
+    });
+
+    if (!message || !message.mediaId) {
+      return null;
+    }
+
+    if (message.mediaStorageKey) {
+      return message;
+    }
+
+    const accessToken = EncryptionUtil.decrypt(
+      message.wabaAccount.encryptedToken,
+    );
+
+    // Resolve the short-lived download URL for the media id
+    const { data: mediaInfo } = await axios.get(
+      `https://graph.facebook.com/v${this.metaApiVersion}/${message.mediaId}`,
+      {
+        timeout: 30000,
+        headers: { Authorization: `Bearer ${accessToken}` },
+        params: { phone_number_id: message.wabaAccount.phoneId },
+      },
+    );
+
+    const download = await axios.get(mediaInfo.url, {
+      timeout: 60000,
+      responseType: 'arraybuffer',
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    const data = Buffer.from(download.data);
+    const mimeType =
+      mediaInfo.mime_type ||
+      message.mediaMimeType ||
+      'application/octet-stream';
+    const extension = FILE_EXTENSIONS[mimeType.split(';')[0].trim()] || '';
+    const storageKey = `${message.wabaAccountId}/${message.id}${extension}`;
+
+    await this.storage.put(storageKey, data, mimeType);
+
+    this.logger.debug(
+      `Stored media ${message.mediaId} for message ${message.id} (${data.length} bytes)`,
+    );
+
+    return this.prisma.message.update({
+      where: { id: message.id },
+      data: {
+        mediaStorageKey: storageKey,
+        mediaMimeType: mimeType,
+        mediaSize: data.length,
+      },
+    });
+  }
+
+  /**
+   * Get a readable stream for a message's media, fetching it from Meta first if it was never stored
+   */
+  async getMessageMedia(messageId: string): Promise<{
+    stream: Readable;
+    mimeType: string;
+    filename: string | null;
+    size: number | null;
+  }> {
+    let message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (!message.mediaId && !message.mediaStorageKey) {
+      throw new NotFoundException('Message has no media');
+    }
+
+    if (!message.mediaStorageKey) {
+      try {
+        message = await this.storeMessageMedia(message.id);
+      } catch (error) {
+        this.logger.error(
+          `Failed to fetch media for message ${messageId}:`,
+          error.response?.data || error.message,
+        );
+        throw new BadGatewayException('Media is no longer available from Meta');
+      }
+    }
+
+    const stream = await this.storage.getStream(message.mediaStorageKey);
+
+    return {
+      stream,
+      mimeType: message.mediaMimeType || 'application/octet-stream',
+      filename: message.mediaFilename,
+      size: message.mediaSize,
+    };
+  }
+}
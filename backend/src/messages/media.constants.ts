@@ -0,0 +1,62 @@
+export type MediaMessageType =
+  'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+export const MEDIA_MESSAGE_TYPES: MediaMessageType[] = [
+  'image',
+  'video',
+  'audio',
+  'document',
+  'sticker',
+];
+
+/**
+ * Supported mime types and size limits per media type
+ * See https://developers.facebook.com/docs/whatsapp/cloud-api/reference/media#supported-media-types
+ */
+export const MEDIA_CONSTRAINTS: Record<
+  MediaMessageType,
+  { mimeTypes: string[]; maxBytes: number }
+> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png'],
+    maxBytes: 5 * 1024 * 1024,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+    maxBytes: 16 * 1024 * 1024,
+  },
+  audio: {
+    mimeTypes: [
+      'audio/aac',
+      'audio/amr',
+      'audio/mpeg',
+      'audio/mp4',
+      'audio/ogg',
+    ],
+    maxBytes: 16 * 1024 * 1024,
+  },
+  document: {
+    mimeTypes: [
+      'text/plain',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    maxBytes: 100 * 1024 * 1024,
+  },
+  sticker: {
+    mimeTypes: ['image/webp'],
+    maxBytes: 500 * 1024,
+  },
+};
+
+// Only these media types accept a caption on the Cloud API
+export const CAPTION_MEDIA_TYPES: MediaMessageType[] = [
+  'image',
+  'video',
+  'document',
+];
@@ -1,7 +1,45 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { MessagesService } from './messages.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
-import { IsString, IsNotEmpty, IsArray, IsOptional } from 'class-validator';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { TenantAccessService } from '../tenancy/tenant-access.service';
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsOptional,
+  IsIn,
+  IsUrl,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateIf,
+  ValidateNested,
+  IsInt,
+  IsNumber,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MEDIA_MESSAGE_TYPES, MediaMessageType } from './media.constants';
+import { InteractiveMessageType } from './messages.service';
+import {
+  TEMPLATE_PARAMETER_TYPES,
+  TemplateButtonSubType,
+  TemplateParameterType,
+} from './template-components';
+
+// Largest media type (document) accepted by the Cloud API
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
 
 class SendMessageDto {
   @IsString()
@@ -21,6 +59,93 @@ class SendMessageDto {
   clientMessageId?: string;
 }
 
+class TemplateCurrencyDto {
+  @IsString()
+  @IsNotEmpty()
+  fallbackValue: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsNumber()
+  amount1000: number;
+}
+
+class TemplateDateTimeDto {
+  @IsString()
+  @IsNotEmpty()
+  fallbackValue: string;
+}
+
+class TemplateMediaDto {
+  @IsUrl()
+  @IsOptional()
+  link?: string;
+
+  @IsString()
+  @IsOptional()
+  id?: string;
+
+  @IsString()
+  @IsOptional()
+  filename?: string;
+}
+
+class TemplateParameterDto {
+  @IsIn(TEMPLATE_PARAMETER_TYPES)
+  type: TemplateParameterType;
+
+  @ValidateIf((o) => o.type === 'text')
+  @IsString()
+  text?: string;
+
+  @ValidateIf((o) => o.type === 'payload')
+  @IsString()
+  @IsNotEmpty()
+  payload?: string;
+
+  @ValidateIf((o) => o.type === 'coupon_code')
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(15)
+  couponCode?: string;
+
+  @ValidateIf((o) => o.type === 'currency')
+  @ValidateNested()
+  @Type(() => TemplateCurrencyDto)
+  currency?: TemplateCurrencyDto;
+
+  @ValidateIf((o) => o.type === 'date_time')
+  @ValidateNested()
+  @Type(() => TemplateDateTimeDto)
+  dateTime?: TemplateDateTimeDto;
+
+  @ValidateIf((o) => ['image', 'video', 'document'].includes(o.type))
+  @ValidateNested()
+  @Type(() => TemplateMediaDto)
+  media?: TemplateMediaDto;
+}
+
+class TemplateComponentDto {
+  @IsIn(['header', 'body', 'button'])
+  type: 'header' | 'body' | 'button';
+
+  @ValidateIf((o) => o.type === 'button')
+  @IsIn(['quick_reply', 'url', 'copy_code'])
+  subType?: TemplateButtonSubType;
+
+  @ValidateIf((o) => o.type === 'button')
+  @IsInt()
+  @Min(0)
+  index?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TemplateParameterDto)
+  parameters: TemplateParameterDto[];
+}
+
 class SendTemplateDto {
   @IsString()
   @IsNotEmpty()
@@ -42,17 +167,182 @@ class SendTemplateDto {
   @IsOptional()
   parameters?: string[];
 
+  // Typed header/body/button parameters; takes precedence over `parameters`
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => TemplateComponentDto)
+  components?: TemplateComponentDto[];
+
+  @IsString()
+  @IsOptional()
+  clientMessageId?: string;
+}
+
+class UploadMediaDto {
+  @IsString()
+  @IsNotEmpty()
+  wabaAccountId: string;
+
+  @IsIn(MEDIA_MESSAGE_TYPES)
+  type: MediaMessageType;
+}
+
+class SendMediaDto {
+  @IsString()
+  @IsNotEmpty()
+  wabaAccountId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @IsIn(MEDIA_MESSAGE_TYPES)
+  type: MediaMessageType;
+
+  @IsString()
+  @IsOptional()
+  mediaId?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1024)
+  caption?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(240)
+  filename?: string;
+
+  @IsString()
+  @IsOptional()
+  clientMessageId?: string;
+}
+
+class InteractiveReplyButtonDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(256)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  title: string;
+}
+
+class InteractiveListRowDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(24)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(72)
+  description?: string;
+}
+
+class InteractiveListSectionDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(24)
+  title?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => InteractiveListRowDto)
+  rows: InteractiveListRowDto[];
+}
+
+class SendInteractiveDto {
+  @IsString()
+  @IsNotEmpty()
+  wabaAccountId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @IsIn(['button', 'list', 'cta_url'])
+  type: InteractiveMessageType;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  body: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(60)
+  header?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(60)
+  footer?: string;
+
+  // Reply buttons (type = button)
+  @ValidateIf((o) => o.type === 'button')
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(3)
+  @ValidateNested({ each: true })
+  @Type(() => InteractiveReplyButtonDto)
+  buttons?: InteractiveReplyButtonDto[];
+
+  // List message (type = list)
+  @ValidateIf((o) => o.type === 'list')
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  buttonText?: string;
+
+  @ValidateIf((o) => o.type === 'list')
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => InteractiveListSectionDto)
+  sections?: InteractiveListSectionDto[];
+
+  // Call-to-action URL button (type = cta_url)
+  @ValidateIf((o) => o.type === 'cta_url')
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  displayText?: string;
+
+  @ValidateIf((o) => o.type === 'cta_url')
+  @IsUrl({ require_protocol: true })
+  url?: string;
+
   @IsString()
   @IsOptional()
   clientMessageId?: string;
 }
 
 @Controller('messages')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class MessagesController {
-  constructor(private messagesService: MessagesService) {}
+  constructor(
+    private messagesService: MessagesService,
+    private tenantAccess: TenantAccessService,
+  ) {}
 
   @Post('send')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    body: 'wabaAccountId',
+    role: 'agent',
+  })
   async sendMessage(@Body() sendMessageDto: SendMessageDto) {
     return this.messagesService.sendMessage(
       sendMessageDto.wabaAccountId,
@@ -63,6 +353,11 @@ export class MessagesController {
   }
 
   @Post('template')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    body: 'wabaAccountId',
+    role: 'agent',
+  })
   async sendTemplate(@Body() sendTemplateDto: SendTemplateDto) {
     return this.messagesService.sendTemplateMessage(
       sendTemplateDto.wabaAccountId,
@@ -71,7 +366,77 @@ export class MessagesController {
       sendTemplateDto.language,
       sendTemplateDto.parameters,
       sendTemplateDto.clientMessageId,
+      sendTemplateDto.components,
+    );
+  }
+
+  @Post('interactive')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    body: 'wabaAccountId',
+    role: 'agent',
+  })
+  async sendInteractive(@Body() sendInteractiveDto: SendInteractiveDto) {
+    const { wabaAccountId, to, clientMessageId, ...interactive } =
+      sendInteractiveDto;
+    return this.messagesService.sendInteractiveMessage(
+      wabaAccountId,
+      to,
+      interactive,
+      clientMessageId,
     );
   }
-}
 
+  @Post('media/upload')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  async uploadMedia(
+    @CurrentUser() user: any,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() uploadMediaDto: UploadMediaDto,
+  ) {
+    // Multipart bodies are parsed after guards run, so check ownership here
+    await this.tenantAccess.assertAccess(
+      user.id,
+      'wabaAccount',
+      uploadMediaDto.wabaAccountId,
+      'agent',
+    );
+    return this.messagesService.uploadMedia(
+      uploadMediaDto.wabaAccountId,
+      file,
+      uploadMediaDto.type,
+    );
+  }
+
+  @Post('media')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  async sendMedia(
+    @CurrentUser() user: any,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() sendMediaDto: SendMediaDto,
+  ) {
+    // Multipart bodies are parsed after guards run, so check ownership here
+    await this.tenantAccess.assertAccess(
+      user.id,
+      'wabaAccount',
+      sendMediaDto.wabaAccountId,
+      'agent',
+    );
+    return this.messagesService.sendMediaMessage(
+      sendMediaDto.wabaAccountId,
+      sendMediaDto.to,
+      sendMediaDto.type,
+      {
+        file,
+        mediaId: sendMediaDto.mediaId,
+        caption: sendMediaDto.caption,
+        filename: sendMediaDto.filename,
+      },
+      sendMediaDto.clientMessageId,
+    );
+  }
+}
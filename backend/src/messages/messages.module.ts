@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { MessagesController } from './messages.controller';
 import { MessagesService } from './messages.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { ConsentModule } from '../consent/consent.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, ConsentModule],
   controllers: [MessagesController],
   providers: [MessagesService],
   exports: [MessagesService],
@@ -3,7 +3,41 @@ import { PrismaService } from '../prisma/prisma.service';
 import { EncryptionUtil } from '../common/utils/encryption.util';
 import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
-import { Prisma } from '@prisma/client';
+import { WabaAccount } from '@prisma/client';
+import {
+  CAPTION_MEDIA_TYPES,
+  MEDIA_CONSTRAINTS,
+  MediaMessageType,
+} from './media.constants';
+import {
+  TemplateComponentInput,
+  bodyComponentFromStrings,
+  renderTemplateBody,
+  toMetaComponents,
+  validateTemplateComponents,
+} from './template-components';
+import { getServiceWindow } from '../common/utils/service-window.util';
+import { RealtimeService } from '../realtime/realtime.service';
+import { PhoneNumbersService } from '../phone-numbers/phone-numbers.service';
+import { ConsentService } from '../consent/consent.service';
+import { MetaSendException } from './meta-send.exception';
+
+export type InteractiveMessageType = 'button' | 'list' | 'cta_url';
+
+export interface InteractiveMessageInput {
+  type: InteractiveMessageType;
+  body: string;
+  header?: string;
+  footer?: string;
+  buttons?: Array<{ id: string; title: string }>;
+  buttonText?: string;
+  sections?: Array<{
+    title?: string;
+    rows: Array<{ id: string; title: string; description?: string }>;
+  }>;
+  displayText?: string;
+  url?: string;
+}
 
 @Injectable()
 export class MessagesService {
@@ -13,6 +47,9 @@ export class MessagesService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private realtime: RealtimeService,
+    private phoneNumbers: PhoneNumbersService,
+    private consent: ConsentService,
   ) {
     // Normalize API version - remove 'v' prefix if present
     const apiVersion = configService.get<string>('META_API_VERSION') || '21.0';
@@ -28,25 +65,21 @@ export class MessagesService {
       throw new NotFoundException('WABA account not found');
     }
 
+    to = await this.phoneNumbers.normalizeOrThrow(wabaAccount.shopId, to);
+
     // Idempotency check: if clientMessageId provided, check for duplicate
     if (clientMessageId) {
-      const existingMessages = await this.prisma.$queryRaw<Array<{ id: string }>>`
-        SELECT id FROM \`Message\`
-        WHERE wabaAccountId = ${wabaAccountId}
-        AND JSON_EXTRACT(rawPayload, '$.clientMessageId') = ${clientMessageId}
-        LIMIT 1
-      `;
-
-      if (existingMessages && existingMessages.length > 0) {
-        const existingMessage = await this.prisma.message.findUnique({
-          where: { id: existingMessages[0].id },
-        });
-        if (existingMessage) {
-          return existingMessage; // Return existing message for idempotency
-        }
+      const existingMessage = await this.findByClientMessageId(
+        wabaAccountId,
+        clientMessageId,
+      );
+      if (existingMessage) {
+        return existingMessage; // Return existing message for idempotency
       }
     }
 
+    await this.assertServiceWindowOpen(wabaAccountId, to);
+
     const accessToken = EncryptionUtil.decrypt(wabaAccount.encryptedToken);
 
     try {
@@ -78,22 +111,7 @@ export class MessagesService {
 
       const messageId = response.data.messages[0].id;
 
-      // Find or create conversation
-      let conversation = await this.prisma.conversation.findFirst({
-        where: {
-          wabaAccountId,
-          contactNumber: to,
-        },
-      });
-
-      if (!conversation) {
-        conversation = await this.prisma.conversation.create({
-          data: {
-            wabaAccountId,
-            contactNumber: to,
-          },
-        });
-      }
+      const conversation = await this.findOrCreateConversation(wabaAccount, to);
 
       // Store message with clientMessageId in rawPayload if provided
       const rawPayload: any = { ...response.data };
@@ -111,11 +129,14 @@ export class MessagesService {
           to,
           direction: 'outbound',
           status: 'pending', // Start as pending, update via webhook
+          type: 'text',
           body,
           rawPayload,
         },
       });
 
+      await this.notifyMessageCreated(wabaAccount.shopId, message);
+
       return message;
     } catch (error) {
       const errorMessage = error.response?.data?.error?.message || error.message;
@@ -133,14 +154,23 @@ export class MessagesService {
 
       // Handle specific Meta API errors
       if (error.response?.status === 429) {
-        throw new BadRequestException('Rate limit exceeded. Please try again later.');
+        throw new MetaSendException(
+          'Rate limit exceeded. Please try again later.',
+          errorCode,
+        );
       }
-      
+
       if (error.response?.status === 403) {
-        throw new BadRequestException('Permission denied. Please check WABA account permissions.');
+        throw new MetaSendException(
+          'Permission denied. Please check WABA account permissions.',
+          errorCode,
+        );
       }
 
-      throw new BadRequestException(`Failed to send message: ${errorMessage}`);
+      throw new MetaSendException(
+        `Failed to send message: ${errorMessage}`,
+        errorCode,
+      );
     }
   }
 
@@ -151,6 +181,7 @@ export class MessagesService {
     language: string,
     parameters?: any[],
     clientMessageId?: string,
+    components?: TemplateComponentInput[],
   ) {
     const wabaAccount = await this.prisma.wabaAccount.findUnique({
       where: { id: wabaAccountId },
@@ -161,23 +192,48 @@ export class MessagesService {
       throw new NotFoundException('WABA account not found');
     }
 
+    to = await this.phoneNumbers.normalizeOrThrow(wabaAccount.shopId, to);
+
+    // Marketing to someone who replied STOP hurts the number's quality rating
+    if (await this.consent.isOptedOut(wabaAccount.shopId, to)) {
+      throw new BadRequestException(
+        'This contact opted out of receiving messages from this shop',
+      );
+    }
+
+    // Flat parameters are shorthand for a body-only component list
+    const templateComponents: TemplateComponentInput[] = components?.length
+      ? components
+      : parameters?.length
+        ? [bodyComponentFromStrings(parameters)]
+        : [];
+
+    // Validate against the stored definition so mismatches fail before hitting Meta
+    const template = await this.prisma.template.findFirst({
+      where: { wabaAccountId, name: templateName, language },
+    });
+    const definition = (template?.history as any)?.components;
+
+    if (Array.isArray(definition)) {
+      const errors = validateTemplateComponents(definition, templateComponents);
+      if (errors.length > 0) {
+        throw new BadRequestException(
+          `Invalid template parameters: ${errors.join('; ')}`,
+        );
+      }
+    }
+
     // Idempotency check: if clientMessageId provided, check for duplicate
     if (clientMessageId) {
-      const existingMessages = await this.prisma.$queryRaw<Array<{ id: string }>>`
-        SELECT id FROM \`Message\`
-        WHERE wabaAccountId = ${wabaAccountId}
-        AND JSON_EXTRACT(rawPayload, '$.clientMessageId') = ${clientMessageId}
-        LIMIT 1
-      `;
-
-      if (existingMessages && existingMessages.length > 0) {
-        const existingMessage = await this.prisma.message.findUnique({
-          where: { id: existingMessages[0].id },
-        });
-        if (existingMessage) {
-          this.logger.debug(`Duplicate message detected (idempotency): ${clientMessageId}`);
-          return existingMessage; // Return existing message for idempotency
-        }
+      const existingMessage = await this.findByClientMessageId(
+        wabaAccountId,
+        clientMessageId,
+      );
+      if (existingMessage) {
+        this.logger.debug(
+          `Duplicate message detected (idempotency): ${clientMessageId}`,
+        );
+        return existingMessage; // Return existing message for idempotency
       }
     }
 
@@ -194,13 +250,8 @@ export class MessagesService {
         },
       };
 
-      if (parameters && parameters.length > 0) {
-        payload.template.components = [
-          {
-            type: 'body',
-            parameters: parameters.map((p) => ({ type: 'text', text: p })),
-          },
-        ];
+      if (templateComponents.length > 0) {
+        payload.template.components = toMetaComponents(templateComponents);
       }
 
       const response = await axios.post(
@@ -216,22 +267,7 @@ export class MessagesService {
 
       const messageId = response.data.messages[0].id;
 
-      // Find or create conversation
-      let conversation = await this.prisma.conversation.findFirst({
-        where: {
-          wabaAccountId,
-          contactNumber: to,
-        },
-      });
-
-      if (!conversation) {
-        conversation = await this.prisma.conversation.create({
-          data: {
-            wabaAccountId,
-            contactNumber: to,
-          },
-        });
-      }
+      const conversation = await this.findOrCreateConversation(wabaAccount, to);
 
       // Store message with clientMessageId in rawPayload if provided
       const rawPayload: any = { ...response.data };
@@ -249,11 +285,16 @@ export class MessagesService {
           to,
           direction: 'outbound',
           status: 'sent',
-          body: `Template: ${templateName}`,
+          type: 'template',
+          body:
+            renderTemplateBody(definition, templateComponents) ||
+            `Template: ${templateName}`,
           rawPayload,
         },
       });
 
+      await this.notifyMessageCreated(wabaAccount.shopId, message);
+
       return message;
     } catch (error) {
       const errorMessage = error.response?.data?.error?.message || error.message;
@@ -273,15 +314,529 @@ export class MessagesService {
 
       // Handle specific Meta API errors
       if (error.response?.status === 429) {
-        throw new BadRequestException('Rate limit exceeded. Please try again later.');
+        throw new MetaSendException(
+          'Rate limit exceeded. Please try again later.',
+          errorCode,
+        );
       }
-      
-      if (error.response?.status === 404 && error.response?.data?.error?.message?.includes('template')) {
-        throw new BadRequestException(`Template ${templateName} not found or not approved.`);
+
+      if (
+        error.response?.status === 404 &&
+        error.response?.data?.error?.message?.includes('template')
+      ) {
+        throw new MetaSendException(
+          `Template ${templateName} not found or not approved.`,
+          errorCode,
+        );
       }
 
-      throw new BadRequestException(`Failed to send template: ${errorMessage}`);
+      throw new MetaSendException(
+        `Failed to send template: ${errorMessage}`,
+        errorCode,
+      );
     }
   }
-}
 
+  /**
+   * Send reply buttons, a list picker or a CTA URL button (24h window only)
+   */
+  async sendInteractiveMessage(
+    wabaAccountId: string,
+    to: string,
+    interactive: InteractiveMessageInput,
+    clientMessageId?: string,
+  ) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    to = await this.phoneNumbers.normalizeOrThrow(wabaAccount.shopId, to);
+
+    // Idempotency check: if clientMessageId provided, check for duplicate
+    if (clientMessageId) {
+      const existingMessage = await this.findByClientMessageId(
+        wabaAccountId,
+        clientMessageId,
+      );
+      if (existingMessage) {
+        return existingMessage; // Return existing message for idempotency
+      }
+    }
+
+    await this.assertServiceWindowOpen(wabaAccountId, to);
+
+    const interactivePayload = this.buildInteractivePayload(interactive);
+    const accessToken = EncryptionUtil.decrypt(wabaAccount.encryptedToken);
+
+    try {
+      const response = await axios.post(
+        `https://graph.facebook.com/v${this.metaApiVersion}/${wabaAccount.phoneId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          type: 'interactive',
+          interactive: interactivePayload,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      const messageId = response.data.messages[0].id;
+
+      const conversation = await this.findOrCreateConversation(wabaAccount, to);
+
+      // Keep the sent options so replies can be matched back to them
+      const rawPayload: any = {
+        ...response.data,
+        interactive: interactivePayload,
+      };
+      if (clientMessageId) {
+        rawPayload.clientMessageId = clientMessageId;
+      }
+
+      const message = await this.prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          wabaAccountId,
+          messageId,
+          from: wabaAccount.phoneId,
+          to,
+          direction: 'outbound',
+          status: 'pending', // Start as pending, update via webhook
+          type: 'interactive',
+          body: interactive.body,
+          rawPayload,
+        },
+      });
+
+      await this.notifyMessageCreated(wabaAccount.shopId, message);
+
+      return message;
+    } catch (error) {
+      const errorMessage =
+        error.response?.data?.error?.message || error.message;
+      const errorCode =
+        error.response?.data?.error?.code || error.response?.status;
+
+      this.logger.error(
+        `Failed to send interactive ${interactive.type} message to ${to} via WABA ${wabaAccountId}`,
+        {
+          error: errorMessage,
+          code: errorCode,
+          response: error.response?.data,
+          stack: error.stack,
+        },
+      );
+
+      if (error.response?.status === 429) {
+        throw new MetaSendException(
+          'Rate limit exceeded. Please try again later.',
+          errorCode,
+        );
+      }
+
+      throw new MetaSendException(
+        `Failed to send interactive message: ${errorMessage}`,
+        errorCode,
+      );
+    }
+  }
+
+  /**
+   * Upload a file to the Meta media endpoint so it can be referenced by id in a later send
+   */
+  async uploadMedia(
+    wabaAccountId: string,
+    file: Express.Multer.File,
+    type: MediaMessageType,
+  ) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    return this.uploadMediaForAccount(wabaAccount, file, type);
+  }
+
+  async sendMediaMessage(
+    wabaAccountId: string,
+    to: string,
+    type: MediaMessageType,
+    media: {
+      file?: Express.Multer.File;
+      mediaId?: string;
+      caption?: string;
+      filename?: string;
+    },
+    clientMessageId?: string,
+  ) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    to = await this.phoneNumbers.normalizeOrThrow(wabaAccount.shopId, to);
+
+    if (!media.file && !media.mediaId) {
+      throw new BadRequestException('Either a file or a mediaId is required');
+    }
+
+    if (media.caption && !CAPTION_MEDIA_TYPES.includes(type)) {
+      throw new BadRequestException(
+        `Captions are not supported for ${type} messages`,
+      );
+    }
+
+    // Idempotency check: if clientMessageId provided, check for duplicate
+    if (clientMessageId) {
+      const existingMessage = await this.findByClientMessageId(
+        wabaAccountId,
+        clientMessageId,
+      );
+      if (existingMessage) {
+        return existingMessage; // Return existing message for idempotency
+      }
+    }
+
+    await this.assertServiceWindowOpen(wabaAccountId, to);
+
+    // Upload first when a raw file was provided
+    let mediaId = media.mediaId;
+    let mimeType: string | null = null;
+    let filename = media.filename || null;
+    if (media.file) {
+      const uploaded = await this.uploadMediaForAccount(
+        wabaAccount,
+        media.file,
+        type,
+      );
+      mediaId = uploaded.mediaId;
+      mimeType = uploaded.mimeType;
+      filename = filename || uploaded.filename;
+    }
+
+    const accessToken = EncryptionUtil.decrypt(wabaAccount.encryptedToken);
+
+    try {
+      const mediaObject: any = { id: mediaId };
+      if (media.caption) {
+        mediaObject.caption = media.caption;
+      }
+      // Only documents carry a filename on the recipient side
+      if (type === 'document' && filename) {
+        mediaObject.filename = filename;
+      }
+
+      const response = await axios.post(
+        `https://graph.facebook.com/v${this.metaApiVersion}/${wabaAccount.phoneId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          type,
+          [type]: mediaObject,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      const messageId = response.data.messages[0].id;
+
+      const conversation = await this.findOrCreateConversation(wabaAccount, to);
+
+      // Store message with clientMessageId in rawPayload if provided
+      const rawPayload: any = { ...response.data };
+      if (clientMessageId) {
+        rawPayload.clientMessageId = clientMessageId;
+      }
+
+      const message = await this.prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          wabaAccountId,
+          messageId,
+          from: wabaAccount.phoneId,
+          to,
+          direction: 'outbound',
+          status: 'pending', // Start as pending, update via webhook
+          type,
+          body: media.caption || null,
+          mediaId,
+          mediaMimeType: mimeType,
+          mediaFilename: filename,
+          rawPayload,
+        },
+      });
+
+      await this.notifyMessageCreated(wabaAccount.shopId, message);
+
+      return message;
+    } catch (error) {
+      const errorMessage =
+        error.response?.data?.error?.message || error.message;
+      const errorCode =
+        error.response?.data?.error?.code || error.response?.status;
+
+      this.logger.error(
+        `Failed to send ${type} message to ${to} via WABA ${wabaAccountId}`,
+        {
+          error: errorMessage,
+          code: errorCode,
+          mediaId,
+          response: error.response?.data,
+          stack: error.stack,
+        },
+      );
+
+      if (error.response?.status === 429) {
+        throw new MetaSendException(
+          'Rate limit exceeded. Please try again later.',
+          errorCode,
+        );
+      }
+
+      throw new MetaSendException(
+        `Failed to send ${type}: ${errorMessage}`,
+        errorCode,
+      );
+    }
+  }
+
+  private async uploadMediaForAccount(
+    wabaAccount: WabaAccount,
+    file: Express.Multer.File,
+    type: MediaMessageType,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const constraints = MEDIA_CONSTRAINTS[type];
+    if (!constraints.mimeTypes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Unsupported ${type} format: ${file.mimetype}. Allowed: ${constraints.mimeTypes.join(', ')}`,
+      );
+    }
+
+    if (file.size > constraints.maxBytes) {
+      throw new BadRequestException(
+        `File is too large for a ${type} message (max ${Math.floor(constraints.maxBytes / 1024)} KB)`,
+      );
+    }
+
+    const accessToken = EncryptionUtil.decrypt(wabaAccount.encryptedToken);
+
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', file.mimetype);
+    form.append(
+      'file',
+      new Blob([new Uint8Array(file.buffer)], { type: file.mimetype }),
+      file.originalname,
+    );
+
+    try {
+      const response = await axios.post(
+        `https://graph.facebook.com/v${this.metaApiVersion}/${wabaAccount.phoneId}/media`,
+        form,
+        {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        },
+      );
+
+      return {
+        mediaId: response.data.id as string,
+        mimeType: file.mimetype,
+        filename: file.originalname,
+        size: file.size,
+      };
+    } catch (error) {
+      const errorMessage =
+        error.response?.data?.error?.message || error.message;
+
+      this.logger.error(
+        `Failed to upload ${type} media via WABA ${wabaAccount.id}`,
+        {
+          error: errorMessage,
+          response: error.response?.data,
+        },
+      );
+
+      throw new BadRequestException(`Failed to upload media: ${errorMessage}`);
+    }
+  }
+
+  private buildInteractivePayload(interactive: InteractiveMessageInput) {
+    const payload: any = {
+      type: interactive.type,
+      body: { text: interactive.body },
+    };
+
+    if (interactive.header) {
+      payload.header = { type: 'text', text: interactive.header };
+    }
+    if (interactive.footer) {
+      payload.footer = { text: interactive.footer };
+    }
+
+    switch (interactive.type) {
+      case 'button': {
+        const ids = interactive.buttons.map((b) => b.id);
+        if (new Set(ids).size !== ids.length) {
+          throw new BadRequestException('Button ids must be unique');
+        }
+        payload.action = {
+          buttons: interactive.buttons.map((b) => ({
+            type: 'reply',
+            reply: { id: b.id, title: b.title },
+          })),
+        };
+        break;
+      }
+      case 'list': {
+        const rows = interactive.sections.flatMap((section) => section.rows);
+        if (rows.length > 10) {
+          throw new BadRequestException(
+            'List messages support at most 10 rows across all sections',
+          );
+        }
+        if (new Set(rows.map((r) => r.id)).size !== rows.length) {
+          throw new BadRequestException('List row ids must be unique');
+        }
+        if (
+          interactive.sections.length > 1 &&
+          interactive.sections.some((section) => !section.title)
+        ) {
+          throw new BadRequestException(
+            'Every section needs a title when the list has more than one section',
+          );
+        }
+        payload.action = {
+          button: interactive.buttonText,
+          sections: interactive.sections.map((section) => ({
+            ...(section.title && { title: section.title }),
+            rows: section.rows.map((row) => ({
+              id: row.id,
+              title: row.title,
+              ...(row.description && { description: row.description }),
+            })),
+          })),
+        };
+        break;
+      }
+      case 'cta_url':
+        payload.action = {
+          name: 'cta_url',
+          parameters: {
+            display_text: interactive.displayText,
+            url: interactive.url,
+          },
+        };
+        break;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Free-form (non-template) messages are rejected by Meta outside the 24h customer service window
+   */
+  private async assertServiceWindowOpen(wabaAccountId: string, to: string) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { wabaAccountId, contactNumber: to },
+      select: { lastInboundAt: true },
+    });
+
+    if (!getServiceWindow(conversation?.lastInboundAt).windowOpen) {
+      throw new BadRequestException(
+        'The 24-hour customer service window for this contact is closed. Send an approved template message instead.',
+      );
+    }
+  }
+
+  private async findByClientMessageId(
+    wabaAccountId: string,
+    clientMessageId: string,
+  ) {
+    const existingMessages = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id FROM \`Message\`
+      WHERE wabaAccountId = ${wabaAccountId}
+      AND JSON_EXTRACT(rawPayload, '$.clientMessageId') = ${clientMessageId}
+      LIMIT 1
+    `;
+
+    if (!existingMessages || existingMessages.length === 0) {
+      return null;
+    }
+
+    return this.prisma.message.findUnique({
+      where: { id: existingMessages[0].id },
+    });
+  }
+
+  private async notifyMessageCreated(
+    shopId: string,
+    message: { id: string; conversationId: string | null },
+  ) {
+    await this.realtime.publish(shopId, {
+      type: 'message.created',
+      conversationId: message.conversationId,
+      messageId: message.id,
+      direction: 'outbound',
+    });
+  }
+
+  private async findOrCreateConversation(
+    wabaAccount: WabaAccount,
+    contactNumber: string,
+  ) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: {
+        wabaAccountId: wabaAccount.id,
+        contactNumber,
+      },
+    });
+
+    if (conversation) {
+      return conversation;
+    }
+
+    // Link the contact when it is already known (e.g. imported for a campaign)
+    const contact = await this.prisma.contact.findUnique({
+      where: {
+        shopId_phoneNumber: {
+          shopId: wabaAccount.shopId,
+          phoneNumber: contactNumber,
+        },
+      },
+      select: { id: true },
+    });
+
+    return this.prisma.conversation.create({
+      data: {
+        wabaAccountId: wabaAccount.id,
+        contactNumber,
+        contactId: contact?.id ?? null,
+      },
+    });
+  }
+}
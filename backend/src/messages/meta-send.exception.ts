@@ -0,0 +1,14 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * A send rejected by the Cloud API. Keeps Meta's error code (e.g. 131049) so
+ * callers such as the campaign worker can tell transient failures from permanent ones.
+ */
+export class MetaSendException extends BadRequestException {
+  constructor(
+    message: string,
+    readonly metaErrorCode?: number,
+  ) {
+    super(message);
+  }
+}
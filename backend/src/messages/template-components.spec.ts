@@ -0,0 +1,241 @@
+import {
+  TemplateComponentInput,
+  bodyComponentFromStrings,
+  countPlaceholders,
+  renderTemplateBody,
+  toMetaComponents,
+  validateTemplateComponents,
+} from './template-components';
+
+const text = (value: string) => ({ type: 'text' as const, text: value });
+
+describe('countPlaceholders', () => {
+  it('counts distinct numbered and named placeholders', () => {
+    expect(countPlaceholders('Hi {{1}}, your order {{2}} ships {{ 1 }}')).toBe(
+      2,
+    );
+    expect(countPlaceholders('Hi {{first_name}}')).toBe(1);
+  });
+
+  it('is zero without text or placeholders', () => {
+    expect(countPlaceholders(undefined)).toBe(0);
+    expect(countPlaceholders('Hello')).toBe(0);
+  });
+});
+
+describe('bodyComponentFromStrings', () => {
+  it('wraps flat parameters as body text parameters', () => {
+    expect(bodyComponentFromStrings(['Ana', '42'])).toEqual({
+      type: 'body',
+      parameters: [text('Ana'), text('42')],
+    });
+  });
+});
+
+describe('toMetaComponents', () => {
+  it('converts every parameter type to the Cloud API shape', () => {
+    const components: TemplateComponentInput[] = [
+      {
+        type: 'header',
+        parameters: [
+          {
+            type: 'document',
+            media: { link: 'https://x/invoice.pdf', filename: 'invoice.pdf' },
+          },
+        ],
+      },
+      {
+        type: 'body',
+        parameters: [
+          text('Ana'),
+          {
+            type: 'currency',
+            currency: { fallbackValue: 'R$10', code: 'BRL', amount1000: 10000 },
+          },
+          { type: 'date_time', dateTime: { fallbackValue: 'May 1' } },
+        ],
+      },
+      {
+        type: 'button',
+        subType: 'copy_code',
+        index: 1,
+        parameters: [{ type: 'coupon_code', couponCode: 'SAVE10' }],
+      },
+    ];
+
+    expect(toMetaComponents(components)).toEqual([
+      {
+        type: 'header',
+        parameters: [
+          {
+            type: 'document',
+            document: {
+              link: 'https://x/invoice.pdf',
+              filename: 'invoice.pdf',
+            },
+          },
+        ],
+      },
+      {
+        type: 'body',
+        parameters: [
+          { type: 'text', text: 'Ana' },
+          {
+            type: 'currency',
+            currency: {
+              fallback_value: 'R$10',
+              code: 'BRL',
+              amount_1000: 10000,
+            },
+          },
+          { type: 'date_time', date_time: { fallback_value: 'May 1' } },
+        ],
+      },
+      {
+        type: 'button',
+        sub_type: 'copy_code',
+        index: '1',
+        parameters: [{ type: 'coupon_code', coupon_code: 'SAVE10' }],
+      },
+    ]);
+  });
+
+  it('prefers an uploaded media id over a link', () => {
+    const [header] = toMetaComponents([
+      {
+        type: 'header',
+        parameters: [
+          { type: 'image', media: { id: '123', link: 'https://x' } },
+        ],
+      },
+    ]);
+    expect(header.parameters[0]).toEqual({
+      type: 'image',
+      image: { id: '123' },
+    });
+  });
+});
+
+describe('validateTemplateComponents', () => {
+  const definition = [
+    { type: 'HEADER', format: 'IMAGE' },
+    { type: 'BODY', text: 'Hi {{1}}, order {{2}} is ready' },
+    {
+      type: 'BUTTONS',
+      buttons: [
+        { type: 'QUICK_REPLY', text: 'Thanks' },
+        { type: 'URL', url: 'https://shop.test/orders/{{1}}' },
+      ],
+    },
+  ];
+  const valid: TemplateComponentInput[] = [
+    {
+      type: 'header',
+      parameters: [{ type: 'image', media: { link: 'https://x/a.png' } }],
+    },
+    { type: 'body', parameters: [text('Ana'), text('42')] },
+    { type: 'button', subType: 'url', index: 1, parameters: [text('42')] },
+  ];
+
+  it('accepts components matching the definition', () => {
+    expect(validateTemplateComponents(definition, valid)).toEqual([]);
+  });
+
+  it('reports a wrong body parameter count', () => {
+    expect(
+      validateTemplateComponents(definition, [
+        valid[0],
+        { type: 'body', parameters: [text('Ana')] },
+        valid[2],
+      ]),
+    ).toEqual(['Body expects 2 parameter(s), got 1']);
+  });
+
+  it('requires the media of a media header', () => {
+    expect(
+      validateTemplateComponents(definition, [
+        { type: 'header', parameters: [{ type: 'image', media: {} }] },
+        valid[1],
+        valid[2],
+      ]),
+    ).toEqual(['Header image needs a link or a media id']);
+    expect(validateTemplateComponents(definition, valid.slice(1))).toEqual([
+      'Header expects one image parameter',
+    ]);
+  });
+
+  it('requires the parameter of a dynamic URL button', () => {
+    expect(validateTemplateComponents(definition, valid.slice(0, 2))).toEqual([
+      'Button 1 (URL) requires a parameter',
+    ]);
+  });
+
+  it('checks buttons against their definition', () => {
+    expect(
+      validateTemplateComponents(definition, [
+        ...valid,
+        { type: 'button', subType: 'url', index: 0, parameters: [text('x')] },
+        { type: 'button', subType: 'url', index: 1, parameters: [text('x')] },
+        { type: 'button', subType: 'quick_reply', index: 5, parameters: [] },
+      ]),
+    ).toEqual([
+      'Button 0 is QUICK_REPLY, not a URL button',
+      'Button 1 was given more than once',
+      'Template has no button at index 5',
+    ]);
+  });
+
+  it('rejects header parameters when the template has no header', () => {
+    expect(
+      validateTemplateComponents(
+        [{ type: 'BODY', text: 'Hello' }],
+        [{ type: 'header', parameters: [text('x')] }],
+      ),
+    ).toEqual(['Template has no header but header parameters were given']);
+  });
+});
+
+describe('renderTemplateBody', () => {
+  it('substitutes parameters by order of first appearance', () => {
+    expect(
+      renderTemplateBody(
+        [{ type: 'BODY', text: 'Hi {{name}}, {{code}} is yours, {{name}}' }],
+        [{ type: 'body', parameters: [text('Ana'), text('SAVE10')] }],
+      ),
+    ).toBe('Hi Ana, SAVE10 is yours, Ana');
+  });
+
+  it('uses the fallback value of currency and date parameters', () => {
+    expect(
+      renderTemplateBody(
+        [{ type: 'BODY', text: 'Total {{1}} on {{2}}' }],
+        [
+          {
+            type: 'body',
+            parameters: [
+              {
+                type: 'currency',
+                currency: { fallbackValue: 'R$10', code: 'BRL', amount1000: 1 },
+              },
+              { type: 'date_time', dateTime: { fallbackValue: 'May 1' } },
+            ],
+          },
+        ],
+      ),
+    ).toBe('Total R$10 on May 1');
+  });
+
+  it('leaves placeholders without a parameter as they are', () => {
+    expect(
+      renderTemplateBody(
+        [{ type: 'BODY', text: 'Hi {{1}} {{2}}' }],
+        [{ type: 'body', parameters: [text('Ana')] }],
+      ),
+    ).toBe('Hi Ana {{2}}');
+  });
+
+  it('is null without a body definition', () => {
+    expect(renderTemplateBody(undefined, [])).toBeNull();
+    expect(renderTemplateBody([{ type: 'HEADER', text: 'x' }], [])).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+export type TemplateParameterType =
+  | 'text'
+  | 'currency'
+  | 'date_time'
+  | 'image'
+  | 'video'
+  | 'document'
+  | 'payload'
+  | 'coupon_code';
+
+export const TEMPLATE_PARAMETER_TYPES: TemplateParameterType[] = [
+  'text',
+  'currency',
+  'date_time',
+  'image',
+  'video',
+  'document',
+  'payload',
+  'coupon_code',
+];
+
+export type TemplateButtonSubType = 'quick_reply' | 'url' | 'copy_code';
+
+export interface TemplateParameterInput {
+  type: TemplateParameterType;
+  text?: string;
+  payload?: string;
+  couponCode?: string;
+  currency?: { fallbackValue: string; code: string; amount1000: number };
+  dateTime?: { fallbackValue: string };
+  media?: { link?: string; id?: string; filename?: string };
+}
+
+export interface TemplateComponentInput {
+  type: 'header' | 'body' | 'button';
+  subType?: TemplateButtonSubType;
+  index?: number;
+  parameters: TemplateParameterInput[];
+}
+
+const MEDIA_HEADER_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+/**
+ * Count distinct {{n}} / {{name}} placeholders in a template text
+ */
+export function countPlaceholders(text?: string): number {
+  const matches = text?.match(/{{\s*\w+\s*}}/g) || [];
+  return new Set(matches.map((m) => m.replace(/[{}\s]/g, ''))).size;
+}
+
+/**
+ * Wrap flat string parameters as a single body component (legacy request shape)
+ */
+export function bodyComponentFromStrings(
+  parameters: string[],
+): TemplateComponentInput {
+  return {
+    type: 'body',
+    parameters: parameters.map((text) => ({
+      type: 'text',
+      text: String(text),
+    })),
+  };
+}
+
+/**
+ * Convert our component model into the Cloud API template.components payload
+ */
+export function toMetaComponents(components: TemplateComponentInput[]) {
+  return components.map((component) => ({
+    type: component.type,
+    ...(component.type === 'button' && {
+      sub_type: component.subType,
+      index: String(component.index),
+    }),
+    parameters: component.parameters.map(toMetaParameter),
+  }));
+}
+
+function toMetaParameter(parameter: TemplateParameterInput) {
+  switch (parameter.type) {
+    case 'currency':
+      return {
+        type: 'currency',
+        currency: {
+          fallback_value: parameter.currency.fallbackValue,
+          code: parameter.currency.code,
+          amount_1000: parameter.currency.amount1000,
+        },
+      };
+    case 'date_time':
+      return {
+        type: 'date_time',
+        date_time: { fallback_value: parameter.dateTime.fallbackValue },
+      };
+    case 'image':
+    case 'video':
+    case 'document': {
+      const media: any = parameter.media.id
+        ? { id: parameter.media.id }
+        : { link: parameter.media.link };
+      if (parameter.type === 'document' && parameter.media.filename) {
+        media.filename = parameter.media.filename;
+      }
+      return { type: parameter.type, [parameter.type]: media };
+    }
+    case 'payload':
+      return { type: 'payload', payload: parameter.payload };
+    case 'coupon_code':
+      return { type: 'coupon_code', coupon_code: parameter.couponCode };
+    default:
+      return { type: 'text', text: parameter.text };
+  }
+}
+
+/**
+ * Check the provided components against the template definition stored in Template.history.components
+ * Returns a list of human readable problems (empty when valid)
+ */
+export function validateTemplateComponents(
+  definition: any[],
+  components: TemplateComponentInput[],
+): string[] {
+  const errors: string[] = [];
+  const findDefinition = (type: string) =>
+    definition.find((c) => String(c.type).toUpperCase() === type);
+
+  const headerDefinition = findDefinition('HEADER');
+  const bodyDefinition = findDefinition('BODY');
+  const buttonDefinitions: any[] = findDefinition('BUTTONS')?.buttons || [];
+
+  const headerInputs = components.filter((c) => c.type === 'header');
+  const bodyInputs = components.filter((c) => c.type === 'body');
+  const buttonInputs = components.filter((c) => c.type === 'button');
+
+  if (headerInputs.length > 1) {
+    errors.push('Only one header component is allowed');
+  }
+  if (bodyInputs.length > 1) {
+    errors.push('Only one body component is allowed');
+  }
+
+  // Header
+  const headerParams = headerInputs[0]?.parameters || [];
+  if (!headerDefinition) {
+    if (headerParams.length > 0) {
+      errors.push('Template has no header but header parameters were given');
+    }
+  } else {
+    const format = String(headerDefinition.format || 'TEXT').toUpperCase();
+    if (format === 'TEXT') {
+      const expected = countPlaceholders(headerDefinition.text);
+      if (headerParams.length !== expected) {
+        errors.push(
+          `Header expects ${expected} text parameter(s), got ${headerParams.length}`,
+        );
+      } else if (headerParams.some((p) => p.type !== 'text')) {
+        errors.push('Header text variables must be text parameters');
+      }
+    } else if (MEDIA_HEADER_FORMATS.includes(format)) {
+      const mediaType = format.toLowerCase();
+      const param = headerParams[0];
+      if (headerParams.length !== 1 || param.type !== mediaType) {
+        errors.push(`Header expects one ${mediaType} parameter`);
+      } else if (!param.media?.link && !param.media?.id) {
+        errors.push(`Header ${mediaType} needs a link or a media id`);
+      }
+    }
+  }
+
+  // Body
+  const bodyParams = bodyInputs[0]?.parameters || [];
+  const expectedBody = countPlaceholders(bodyDefinition?.text);
+  if (bodyParams.length !== expectedBody) {
+    errors.push(
+      `Body expects ${expectedBody} parameter(s), got ${bodyParams.length}`,
+    );
+  }
+  if (
+    bodyParams.some((p) => !['text', 'currency', 'date_time'].includes(p.type))
+  ) {
+    errors.push('Body parameters must be text, currency or date_time');
+  }
+
+  // Buttons provided by the caller
+  const seenIndexes = new Set<number>();
+  for (const input of buttonInputs) {
+    const label = `Button ${input.index}`;
+    if (seenIndexes.has(input.index)) {
+      errors.push(`${label} was given more than once`);
+      continue;
+    }
+    seenIndexes.add(input.index);
+
+    const buttonDefinition = buttonDefinitions[input.index];
+    if (!buttonDefinition) {
+      errors.push(`Template has no button at index ${input.index}`);
+      continue;
+    }
+
+    const definitionType = String(buttonDefinition.type).toUpperCase();
+    const params = input.parameters;
+    switch (input.subType) {
+      case 'url':
+        // Authentication templates send the OTP code as a url button parameter
+        if (!['URL', 'OTP'].includes(definitionType)) {
+          errors.push(`${label} is ${definitionType}, not a URL button`);
+        } else if (params.length !== 1 || params[0].type !== 'text') {
+          errors.push(`${label} expects one text parameter`);
+        }
+        break;
+      case 'quick_reply':
+        if (definitionType !== 'QUICK_REPLY') {
+          errors.push(`${label} is ${definitionType}, not a quick reply`);
+        } else if (params.some((p) => p.type !== 'payload')) {
+          errors.push(`${label} parameters must be payloads`);
+        }
+        break;
+      case 'copy_code':
+        if (definitionType !== 'COPY_CODE') {
+          errors.push(`${label} is ${definitionType}, not a copy code button`);
+        } else if (params.length !== 1 || params[0].type !== 'coupon_code') {
+          errors.push(`${label} expects one coupon_code parameter`);
+        }
+        break;
+      default:
+        errors.push(`${label} needs a subType`);
+    }
+  }
+
+  // Buttons that cannot be sent without a parameter
+  buttonDefinitions.forEach((buttonDefinition, index) => {
+    const definitionType = String(buttonDefinition.type).toUpperCase();
+    const requiresParameter =
+      (definitionType === 'URL' && countPlaceholders(buttonDefinition.url)) ||
+      definitionType === 'COPY_CODE' ||
+      definitionType === 'OTP';
+    if (requiresParameter && !seenIndexes.has(index)) {
+      errors.push(`Button ${index} (${definitionType}) requires a parameter`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Render the body text with its parameters substituted, for display in the inbox
+ */
+export function renderTemplateBody(
+  definition: any[] | undefined,
+  components: TemplateComponentInput[],
+): string | null {
+  const bodyText = definition?.find(
+    (c) => String(c.type).toUpperCase() === 'BODY',
+  )?.text;
+  if (!bodyText) {
+    return null;
+  }
+
+  const params = components.find((c) => c.type === 'body')?.parameters || [];
+  const values = params.map(
+    (p) =>
+      p.text ?? p.currency?.fallbackValue ?? p.dateTime?.fallbackValue ?? '',
+  );
+
+  // Placeholders are numbered by order of first appearance
+  const order: string[] = [];
+  return bodyText.replace(/{{\s*(\w+)\s*}}/g, (match: string, key: string) => {
+    if (!order.includes(key)) {
+      order.push(key);
+    }
+    return values[order.indexOf(key)] ?? match;
+  });
+}
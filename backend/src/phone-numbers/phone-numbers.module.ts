@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { PhoneNumbersService } from './phone-numbers.service';
+
+@Global()
+@Module({
+  providers: [PhoneNumbersService],
+  exports: [PhoneNumbersService],
+})
+export class PhoneNumbersModule {}
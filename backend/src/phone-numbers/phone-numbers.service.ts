@@ -0,0 +1,54 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  DEFAULT_COUNTRY,
+  normalizePhoneNumber,
+} from '../common/utils/phone.util';
+
+export type PhoneNumberNormalizer = (value: unknown) => string | null;
+
+/**
+ * Single entry point for turning user-typed numbers into the canonical E.164 digits
+ * stored in Conversation.contactNumber, Message.to, CampaignJob.toNumber and Contact.phoneNumber
+ */
+@Injectable()
+export class PhoneNumbersService {
+  constructor(private prisma: PrismaService) {}
+
+  async getDefaultCountry(shopId: string) {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: { defaultCountry: true },
+    });
+    return shop?.defaultCountry ?? DEFAULT_COUNTRY;
+  }
+
+  /**
+   * Normalizer bound to the shop's default country, for bulk inputs (imports, campaigns)
+   */
+  async forShop(shopId: string): Promise<PhoneNumberNormalizer> {
+    const country = await this.getDefaultCountry(shopId);
+    return (value) => normalizePhoneNumber(value, country);
+  }
+
+  async normalize(shopId: string, value: unknown) {
+    const normalizer = await this.forShop(shopId);
+    return normalizer(value);
+  }
+
+  async normalizeOrThrow(shopId: string, value: unknown) {
+    const number = await this.normalize(shopId, value);
+    if (!number) {
+      throw new BadRequestException(`Invalid phone number: ${value}`);
+    }
+    return number;
+  }
+
+  /**
+   * Numbers reported by Meta (wa_id) always carry the country code,
+   * only the Brazilian 9th digit needs fixing
+   */
+  normalizeWaId(waId: string) {
+    return normalizePhoneNumber(`+${waId}`) ?? waId;
+  }
+}
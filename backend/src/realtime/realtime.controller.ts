@@ -0,0 +1,24 @@
+import {
+  Controller,
+  MessageEvent,
+  Query,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+
+@Controller('realtime')
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class RealtimeController {
+  constructor(private realtimeService: RealtimeService) {}
+
+  @Sse('events')
+  @OwnsResource({ resource: 'shop', query: 'shopId' })
+  events(@Query('shopId') shopId: string): Observable<MessageEvent> {
+    return this.realtimeService.stream(shopId);
+  }
+}
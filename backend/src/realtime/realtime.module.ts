@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { RealtimeController } from './realtime.controller';
+import { RealtimeService } from './realtime.service';
+
+@Global()
+@Module({
+  controllers: [RealtimeController],
+  providers: [RealtimeService],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type RealtimeEvent =
+  | {
+      type: 'message.created';
+      conversationId: string | null;
+      messageId: string;
+      direction: string;
+    }
+  | { type: 'message.status'; messageId: string; status: string }
+  | { type: 'conversation.updated'; conversationId: string };
+
+interface ShopEvent {
+  shopId: string;
+  event: RealtimeEvent;
+}
+
+const CHANNEL = 'realtime:events';
+// Keeps proxies from closing idle streams
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Fans out inbox events to connected clients through Redis pub/sub,
+ * so an event emitted on one backend instance reaches clients on every instance
+ */
+@Injectable()
+export class RealtimeService implements OnModuleDestroy {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly events = new Subject<ShopEvent>();
+
+  constructor(
+    private configService: ConfigService,
+    private prisma: PrismaService,
+  ) {
+    const redisUrl =
+      configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
+    this.publisher = new Redis(redisUrl);
+    // A connection in subscriber mode cannot publish, hence the second client
+    this.subscriber = new Redis(redisUrl);
+
+    this.subscriber.subscribe(CHANNEL).catch((error) => {
+      this.logger.error(`Failed to subscribe to ${CHANNEL}: ${error.message}`);
+    });
+    this.subscriber.on('message', (_channel, payload) => {
+      try {
+        this.events.next(JSON.parse(payload));
+      } catch (error) {
+        this.logger.warn(
+          `Dropped malformed realtime payload: ${error.message}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Broadcast an event to every client connected to the shop.
+   * Best effort: a Redis outage must never fail the request or job emitting it
+   */
+  async publish(shopId: string, event: RealtimeEvent) {
+    try {
+      await this.publisher.publish(CHANNEL, JSON.stringify({ shopId, event }));
+    } catch (error) {
+      this.logger.warn(`Failed to publish ${event.type}: ${error.message}`);
+    }
+  }
+
+  async publishForWabaAccount(wabaAccountId: string, event: RealtimeEvent) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+      select: { shopId: true },
+    });
+
+    if (wabaAccount) {
+      await this.publish(wabaAccount.shopId, event);
+    }
+  }
+
+  async publishForConversation(conversationId: string) {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { wabaAccount: { select: { shopId: true } } },
+    });
+
+    if (conversation) {
+      await this.publish(conversation.wabaAccount.shopId, {
+        type: 'conversation.updated',
+        conversationId,
+      });
+    }
+  }
+
+  /**
+   * Server-Sent Events stream for one shop
+   */
+  stream(shopId: string): Observable<MessageEvent> {
+    const events = this.events.pipe(
+      filter((shopEvent) => shopEvent.shopId === shopId),
+      map((shopEvent) => ({
+        type: shopEvent.event.type,
+        data: shopEvent.event,
+      })),
+    );
+
+    const heartbeat = interval(HEARTBEAT_MS).pipe(
+      map(() => ({ type: 'heartbeat', data: {} })),
+    );
+
+    return merge(events, heartbeat);
+  }
+
+  async onModuleDestroy() {
+    this.events.complete();
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
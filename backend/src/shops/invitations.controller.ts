@@ -0,0 +1,20 @@
+import { Controller, Get, Post, Param, UseGuards } from '@nestjs/common';
+import { ShopMembersService } from './shop-members.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@Controller('invitations')
+@UseGuards(JwtAuthGuard)
+export class InvitationsController {
+  constructor(private shopMembersService: ShopMembersService) {}
+
+  @Get(':token')
+  async getInvitation(@Param('token') token: string) {
+    return this.shopMembersService.getInvitation(token);
+  }
+
+  @Post(':token/accept')
+  async accept(@Param('token') token: string, @CurrentUser() user: any) {
+    return this.shopMembersService.acceptInvitation(token, user);
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { IsEmail, IsIn } from 'class-validator';
+import { ShopMembersService } from './shop-members.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { INVITABLE_ROLES, ShopRole } from '../tenancy/shop-roles';
+
+class InviteMemberDto {
+  @IsEmail()
+  email: string;
+
+  @IsIn(INVITABLE_ROLES)
+  role: ShopRole;
+}
+
+class UpdateMemberRoleDto {
+  @IsIn(INVITABLE_ROLES)
+  role: ShopRole;
+}
+
+@Controller('shops/:id')
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class ShopMembersController {
+  constructor(private shopMembersService: ShopMembersService) {}
+
+  @Get('members')
+  @OwnsResource({ resource: 'shop', param: 'id' })
+  async listMembers(@Param('id') id: string) {
+    return this.shopMembersService.listMembers(id);
+  }
+
+  @Post('invitations')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async invite(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() inviteMemberDto: InviteMemberDto,
+  ) {
+    return this.shopMembersService.invite(
+      id,
+      user.id,
+      inviteMemberDto.email,
+      inviteMemberDto.role,
+    );
+  }
+
+  @Delete('invitations/:invitationId')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async revokeInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+  ) {
+    return this.shopMembersService.revokeInvitation(id, invitationId);
+  }
+
+  @Patch('members/:memberId')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async updateRole(
+    @Param('id') id: string,
+    @Param('memberId') memberId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+  ) {
+    return this.shopMembersService.updateRole(
+      id,
+      memberId,
+      updateMemberRoleDto.role,
+    );
+  }
+
+  @Delete('members/:memberId')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('memberId') memberId: string,
+  ) {
+    return this.shopMembersService.removeMember(id, memberId);
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { ShopRole } from '../tenancy/shop-roles';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ShopMembersService {
+  private readonly logger = new Logger(ShopMembersService.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    // FRONTEND_URL may be a comma-separated list (CORS); links use the first one
+    this.frontendUrl = (
+      configService.get<string>('FRONTEND_URL') || 'http://localhost:3000'
+    )
+      .split(',')[0]
+      .trim()
+      .replace(/\/$/, '');
+  }
+
+  async listMembers(shopId: string) {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: { ownerId: true },
+    });
+
+    if (!shop) {
+      throw new NotFoundException('Shop not found');
+    }
+
+    // Shops created before memberships existed have no owner row yet
+    await this.prisma.shopMember.upsert({
+      where: { shopId_userId: { shopId, userId: shop.ownerId } },
+      update: {},
+      create: { shopId, userId: shop.ownerId, role: 'owner' },
+    });
+
+    const [members, invitations] = await Promise.all([
+      this.prisma.shopMember.findMany({
+        where: { shopId },
+        include: { user: { select: { email: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.shopInvitation.findMany({
+        where: { shopId, acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      members: members.map((member) => ({
+        id: member.id,
+        userId: member.userId,
+        email: member.user.email,
+        role: member.role,
+        createdAt: member.createdAt,
+      })),
+      invitations: invitations.map((invitation) =>
+        this.toInvitationResponse(invitation),
+      ),
+    };
+  }
+
+  /**
+   * Create an invitation token for an email address
+   * No mail transport is configured, so the link is returned for the inviter to share
+   */
+  async invite(
+    shopId: string,
+    invitedById: string,
+    email: string,
+    role: ShopRole,
+  ) {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingMember = await this.prisma.shopMember.findFirst({
+      where: { shopId, user: { email: normalizedEmail } },
+    });
+    if (existingMember) {
+      throw new BadRequestException(
+        'This user is already a member of the shop',
+      );
+    }
+
+    // Re-inviting replaces any pending invitation for the same email
+    await this.prisma.shopInvitation.deleteMany({
+      where: { shopId, email: normalizedEmail, acceptedAt: null },
+    });
+
+    const invitation = await this.prisma.shopInvitation.create({
+      data: {
+        shopId,
+        email: normalizedEmail,
+        role,
+        token: crypto.randomBytes(32).toString('hex'),
+        invitedById,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+    });
+
+    this.logger.log(`Invited ${normalizedEmail} to shop ${shopId} as ${role}`);
+
+    return this.toInvitationResponse(invitation);
+  }
+
+  async revokeInvitation(shopId: string, invitationId: string) {
+    const { count } = await this.prisma.shopInvitation.deleteMany({
+      where: { id: invitationId, shopId, acceptedAt: null },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return { success: true };
+  }
+
+  async updateRole(shopId: string, memberId: string, role: ShopRole) {
+    const member = await this.findMember(shopId, memberId);
+
+    if (member.role === 'owner') {
+      throw new ForbiddenException("The owner's role cannot be changed");
+    }
+
+    return this.prisma.shopMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+  }
+
+  async removeMember(shopId: string, memberId: string) {
+    const member = await this.findMember(shopId, memberId);
+
+    if (member.role === 'owner') {
+      throw new ForbiddenException('The owner cannot be removed from the shop');
+    }
+
+    await this.prisma.shopMember.delete({ where: { id: member.id } });
+
+    return { success: true };
+  }
+
+  /**
+   * Public details of a pending invitation, shown before accepting
+   */
+  async getInvitation(token: string) {
+    const invitation = await this.findPendingInvitation(token);
+
+    return {
+      shopName: invitation.shop.name,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  async acceptInvitation(token: string, user: { id: string; email: string }) {
+    const invitation = await this.findPendingInvitation(token);
+
+    if (invitation.email !== user.email.trim().toLowerCase()) {
+      throw new ForbiddenException(
+        `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`,
+      );
+    }
+
+    const existingMember = await this.prisma.shopMember.findUnique({
+      where: {
+        shopId_userId: { shopId: invitation.shopId, userId: user.id },
+      },
+    });
+    if (existingMember) {
+      throw new BadRequestException('You are already a member of this shop');
+    }
+
+    const [member] = await this.prisma.$transaction([
+      this.prisma.shopMember.create({
+        data: {
+          shopId: invitation.shopId,
+          userId: user.id,
+          role: invitation.role,
+        },
+      }),
+      this.prisma.shopInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      }),
+    ]);
+
+    return { shopId: invitation.shopId, role: member.role };
+  }
+
+  private async findMember(shopId: string, memberId: string) {
+    const member = await this.prisma.shopMember.findFirst({
+      where: { id: memberId, shopId },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return member;
+  }
+
+  private async findPendingInvitation(token: string) {
+    const invitation = await this.prisma.shopInvitation.findUnique({
+      where: { token },
+      include: { shop: { select: { name: true } } },
+    });
+
+    if (!invitation || invitation.acceptedAt) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (invitation.expiresAt < new Date()) {
+      throw new BadRequestException('This invitation has expired');
+    }
+
+    return invitation;
+  }
+
+  private toInvitationResponse(invitation: {
+    id: string;
+    email: string;
+    role: string;
+    token: string;
+    expiresAt: Date;
+    createdAt: Date;
+  }) {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+      inviteUrl: `${this.frontendUrl}/convite/${invitation.token}`,
+    };
+  }
+}
@@ -1,8 +1,30 @@
 import { Controller, Get, Post, Body, Param, Put, Delete, UseGuards } from '@nestjs/common';
 import { ShopsService } from './shops.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { IsString, MinLength, IsEmail, IsOptional } from 'class-validator';
+import {
+  IsString,
+  MinLength,
+  IsOptional,
+  IsIn,
+  IsTimeZone,
+  IsBoolean,
+  IsInt,
+  IsArray,
+  Min,
+  Max,
+  Matches,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ROUTING_MODES,
+  RoutingMode,
+} from '../inbox/conversation-routing.service';
+import { COUNTRY_DIALING_PLANS } from '../common/utils/phone.util';
 
 class CreateShopDto {
   @IsString()
@@ -10,14 +32,106 @@ class CreateShopDto {
   name: string;
 }
 
+class BusinessHoursIntervalDto {
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  start: string;
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  end: string;
+}
+
+class BusinessHoursDayDto {
+  @IsBoolean()
+  open: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BusinessHoursIntervalDto)
+  intervals: BusinessHoursIntervalDto[];
+}
+
+class BusinessHoursDto {
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  monday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  tuesday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  wednesday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  thursday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  friday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  saturday?: BusinessHoursDayDto;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDayDto)
+  @IsOptional()
+  sunday?: BusinessHoursDayDto;
+}
+
 class UpdateShopDto {
   @IsString()
   @MinLength(1)
-  name: string;
+  @IsOptional()
+  name?: string;
+
+  @IsIn(Object.keys(COUNTRY_DIALING_PLANS))
+  @IsOptional()
+  defaultCountry?: string;
+
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ValidateNested()
+  @Type(() => BusinessHoursDto)
+  @IsOptional()
+  businessHours?: BusinessHoursDto;
+
+  // Campaign messages wait for the business hours
+  @IsBoolean()
+  @IsOptional()
+  campaignQuietHours?: boolean;
+
+  // Null removes the cap
+  @ValidateIf((dto) => dto.frequencyCapCount !== null)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  frequencyCapCount?: number | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(24 * 30)
+  @IsOptional()
+  frequencyCapHours?: number;
+}
+
+class UpdateRoutingDto {
+  @IsIn(ROUTING_MODES)
+  mode: RoutingMode;
 }
 
 @Controller('shops')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class ShopsController {
   constructor(private shopsService: ShopsService) {}
 
@@ -28,24 +142,32 @@ export class ShopsController {
 
   @Get()
   async findAll(@CurrentUser() user: any) {
-    return this.shopsService.findByOwner(user.id);
+    return this.shopsService.findForUser(user.id);
   }
 
   @Get(':id')
+  @OwnsResource({ resource: 'shop', param: 'id' })
   async findOne(@Param('id') id: string) {
     return this.shopsService.findOne(id);
   }
 
   @Put(':id')
-  async update(
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async update(@Param('id') id: string, @Body() updateShopDto: UpdateShopDto) {
+    return this.shopsService.update(id, updateShopDto);
+  }
+
+  @Put(':id/routing')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'admin' })
+  async updateRouting(
     @Param('id') id: string,
-    @CurrentUser() user: any,
-    @Body() updateShopDto: UpdateShopDto,
+    @Body() updateRoutingDto: UpdateRoutingDto,
   ) {
-    return this.shopsService.update(id, user.id, updateShopDto);
+    return this.shopsService.updateRouting(id, updateRoutingDto.mode);
   }
 
   @Delete(':id')
+  @OwnsResource({ resource: 'shop', param: 'id', role: 'owner' })
   async remove(@Param('id') id: string, @CurrentUser() user: any) {
     return this.shopsService.remove(id, user.id);
   }
@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ShopsController } from './shops.controller';
 import { ShopsService } from './shops.service';
+import { ShopMembersController } from './shop-members.controller';
+import { ShopMembersService } from './shop-members.service';
+import { InvitationsController } from './invitations.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
   imports: [PrismaModule],
-  controllers: [ShopsController],
-  providers: [ShopsService],
+  controllers: [ShopsController, ShopMembersController, InvitationsController],
+  providers: [ShopsService, ShopMembersService],
   exports: [ShopsService],
 })
 export class ShopsModule {}
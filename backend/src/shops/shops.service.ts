@@ -1,5 +1,17 @@
 import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { BusinessHours } from '../common/utils/business-hours.util';
+
+export interface UpdateShopInput {
+  name?: string;
+  defaultCountry?: string;
+  timezone?: string;
+  businessHours?: BusinessHours;
+  campaignQuietHours?: boolean;
+  frequencyCapCount?: number | null;
+  frequencyCapHours?: number;
+}
 
 @Injectable()
 export class ShopsService {
@@ -10,6 +22,9 @@ export class ShopsService {
       data: {
         name,
         ownerId,
+        members: {
+          create: { userId: ownerId, role: 'owner' },
+        },
       },
     });
   }
@@ -29,17 +44,28 @@ export class ShopsService {
     return shop;
   }
 
-  async findByOwner(ownerId: string) {
-    return this.prisma.shop.findMany({
-      where: { ownerId },
+  /**
+   * Shops the user owns or is a member of, with the user's role in each
+   */
+  async findForUser(userId: string) {
+    const shops = await this.prisma.shop.findMany({
+      where: {
+        OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+      },
       include: {
         waba: true,
+        members: { where: { userId }, select: { role: true } },
       },
     });
+
+    return shops.map(({ members, ...shop }) => ({
+      ...shop,
+      role: shop.ownerId === userId ? 'owner' : members[0]?.role,
+    }));
   }
 
-  async update(id: string, ownerId: string, updateData: { name?: string }) {
-    // Verify shop exists and belongs to user
+  async update(id: string, updateData: UpdateShopInput) {
+    // Role checks are enforced by TenantGuard
     const shop = await this.prisma.shop.findUnique({
       where: { id },
     });
@@ -48,20 +74,33 @@ export class ShopsService {
       throw new NotFoundException('Shop not found');
     }
 
-    if (shop.ownerId !== ownerId) {
-      throw new ForbiddenException('You do not have permission to update this shop');
-    }
-
     // Update shop
+    const { businessHours, ...data } = updateData;
     return this.prisma.shop.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...data,
+        ...(businessHours && {
+          businessHours: businessHours as unknown as Prisma.InputJsonValue,
+        }),
+      },
       include: {
         waba: true,
       },
     });
   }
 
+  /**
+   * Choose how new inbound conversations are distributed among available agents
+   */
+  async updateRouting(id: string, routingMode: string) {
+    return this.prisma.shop.update({
+      where: { id },
+      data: { routingMode, lastRoutedUserId: null },
+      select: { id: true, routingMode: true },
+    });
+  }
+
   async remove(id: string, ownerId: string) {
     // Verify shop exists and belongs to user
     const shop = await this.prisma.shop.findUnique({
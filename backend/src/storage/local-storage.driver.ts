@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Stores files on the local disk under a base directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key), fs.constants.R_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.basePath, key);
+    // Prevent keys from escaping the storage directory
+    if (!filePath.startsWith(this.basePath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
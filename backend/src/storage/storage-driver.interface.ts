@@ -0,0 +1,11 @@
+import { Readable } from 'stream';
+
+/**
+ * Minimal contract every storage backend must implement
+ */
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
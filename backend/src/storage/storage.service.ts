@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+
+/**
+ * File storage facade
+ * Uses the local disk by default, or an S3-compatible bucket when STORAGE_DRIVER=s3
+ */
+@Injectable()
+export class StorageService {
+  private readonly driver: StorageDriver;
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(private configService: ConfigService) {
+    const driverName = configService.get<string>('STORAGE_DRIVER') || 'local';
+
+    if (driverName === 's3') {
+      const bucket = configService.get<string>('S3_BUCKET');
+      if (!bucket) {
+        throw new Error('S3_BUCKET must be set when STORAGE_DRIVER=s3');
+      }
+      this.driver = new S3StorageDriver({
+        bucket,
+        region: configService.get<string>('S3_REGION') || 'us-east-1',
+        endpoint: configService.get<string>('S3_ENDPOINT'),
+        accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+        secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY'),
+        forcePathStyle:
+          configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+      });
+    } else {
+      this.driver = new LocalStorageDriver(
+        configService.get<string>('STORAGE_LOCAL_PATH') || './storage',
+      );
+    }
+
+    this.logger.log(`Using ${driverName} storage driver`);
+  }
+
+  put(key: string, data: Buffer, contentType: string): Promise<void> {
+    return this.driver.put(key, data, contentType);
+  }
+
+  getStream(key: string): Promise<Readable> {
+    return this.driver.getStream(key);
+  }
+
+  exists(key: string): Promise<boolean> {
+    return this.driver.exists(key);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.driver.delete(key);
+  }
+}
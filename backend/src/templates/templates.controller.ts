@@ -1,6 +1,8 @@
 import { Controller, Get, Post, Body, Param, Patch, UseGuards, Query } from '@nestjs/common';
 import { TemplatesService } from './templates.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
 import { IsString, IsNotEmpty, IsOptional, IsArray } from 'class-validator';
 
 class SubmitTemplateDto {
@@ -22,26 +24,34 @@ class SubmitTemplateDto {
 }
 
 @Controller('templates')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class TemplatesController {
   constructor(private templatesService: TemplatesService) {}
 
   @Get()
+  @OwnsResource({ resource: 'wabaAccount', query: 'wabaAccountId' })
   async findAll(@Query('wabaAccountId') wabaAccountId: string) {
     return this.templatesService.findAll(wabaAccountId);
   }
 
   @Get(':id')
+  @OwnsResource({ resource: 'template', param: 'id' })
   async findOne(@Param('id') id: string) {
     return this.templatesService.findOne(id);
   }
 
   @Post('submit')
+  @OwnsResource({
+    resource: 'wabaAccount',
+    query: 'wabaAccountId',
+    role: 'admin',
+  })
   async submitTemplate(@Body() submitTemplateDto: SubmitTemplateDto, @Query('wabaAccountId') wabaAccountId: string) {
     return this.templatesService.submitTemplate(wabaAccountId, submitTemplateDto);
   }
 
   @Patch(':id')
+  @OwnsResource({ resource: 'template', param: 'id', role: 'admin' })
   async updateStatus(
     @Param('id') id: string,
     @Body() body: { status: string; history?: any },
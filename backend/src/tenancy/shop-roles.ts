@@ -0,0 +1,14 @@
+export type ShopRole = 'owner' | 'admin' | 'agent' | 'viewer';
+
+// Ordered from least to most privileged
+export const SHOP_ROLES: ShopRole[] = ['viewer', 'agent', 'admin', 'owner'];
+
+// The owner role is only held by Shop.ownerId and cannot be granted by invitation
+export const INVITABLE_ROLES: ShopRole[] = ['admin', 'agent', 'viewer'];
+
+/**
+ * Check whether a role grants at least the permissions of another
+ */
+export function hasRole(role: ShopRole, minimum: ShopRole): boolean {
+  return SHOP_ROLES.indexOf(role) >= SHOP_ROLES.indexOf(minimum);
+}
@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { TenantAccessService } from './tenant-access.service';
+
+@Global()
+@Module({
+  providers: [TenantAccessService],
+  exports: [TenantAccessService],
+})
+export class TenancyModule {}
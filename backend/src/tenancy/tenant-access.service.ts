@@ -0,0 +1,171 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { TenantResource } from '../common/decorators/owns-resource.decorator';
+import { ShopRole, hasRole } from './shop-roles';
+
+const RESOURCE_LABELS: Record<TenantResource, string> = {
+  shop: 'Shop',
+  wabaAccount: 'WABA account',
+  conversation: 'Conversation',
+  message: 'Message',
+  template: 'Template',
+  campaign: 'Campaign',
+  recurringCampaign: 'Recurring campaign',
+  campaignSequence: 'Campaign sequence',
+  webhookEvent: 'Webhook event',
+  contact: 'Contact',
+  contactList: 'Contact list',
+};
+
+// Most tenant-scoped rows hang off a WabaAccount, which belongs to a Shop
+const wabaShop = { select: { wabaAccount: { select: { shopId: true } } } };
+
+@Injectable()
+export class TenantAccessService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Resolve the shop that owns a resource, or null if the resource does not exist
+   */
+  async resolveShopId(
+    resource: TenantResource,
+    id: string,
+  ): Promise<string | null> {
+    switch (resource) {
+      case 'shop': {
+        const shop = await this.prisma.shop.findUnique({
+          where: { id },
+          select: { id: true },
+        });
+        return shop?.id ?? null;
+      }
+      case 'wabaAccount': {
+        const account = await this.prisma.wabaAccount.findUnique({
+          where: { id },
+          select: { shopId: true },
+        });
+        return account?.shopId ?? null;
+      }
+      case 'conversation': {
+        const row = await this.prisma.conversation.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'message': {
+        const row = await this.prisma.message.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'template': {
+        const row = await this.prisma.template.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'campaign': {
+        const row = await this.prisma.campaign.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'recurringCampaign': {
+        const row = await this.prisma.recurringCampaign.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'campaignSequence': {
+        const row = await this.prisma.campaignSequence.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'webhookEvent': {
+        const row = await this.prisma.webhookEvent.findUnique({
+          where: { id },
+          ...wabaShop,
+        });
+        return row?.wabaAccount.shopId ?? null;
+      }
+      case 'contact': {
+        const contact = await this.prisma.contact.findUnique({
+          where: { id },
+          select: { shopId: true },
+        });
+        return contact?.shopId ?? null;
+      }
+      case 'contactList': {
+        const list = await this.prisma.contactList.findUnique({
+          where: { id },
+          select: { shopId: true },
+        });
+        return list?.shopId ?? null;
+      }
+    }
+  }
+
+  /**
+   * Get the user's role in a shop, or null if they are not a member
+   */
+  async getRole(userId: string, shopId: string): Promise<ShopRole | null> {
+    const shop = await this.prisma.shop.findUnique({
+      where: { id: shopId },
+      select: {
+        ownerId: true,
+        members: { where: { userId }, select: { role: true } },
+      },
+    });
+
+    if (!shop) {
+      return null;
+    }
+
+    // Shops created before memberships existed only have ownerId
+    if (shop.ownerId === userId) {
+      return 'owner';
+    }
+
+    return (shop.members[0]?.role as ShopRole) ?? null;
+  }
+
+  /**
+   * Throw unless the resource exists and belongs to a shop where the user has at least the given role
+   */
+  async assertAccess(
+    userId: string,
+    resource: TenantResource,
+    id: string,
+    minimumRole: ShopRole = 'viewer',
+  ) {
+    const shopId = await this.resolveShopId(resource, id);
+
+    if (!shopId) {
+      throw new NotFoundException(`${RESOURCE_LABELS[resource]} not found`);
+    }
+
+    const role = await this.getRole(userId, shopId);
+    if (!role) {
+      throw new ForbiddenException('You do not have access to this resource');
+    }
+
+    if (!hasRole(role, minimumRole)) {
+      throw new ForbiddenException(
+        `This action requires the ${minimumRole} role or higher`,
+      );
+    }
+
+    return shopId;
+  }
+}
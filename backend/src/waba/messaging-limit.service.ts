@@ -0,0 +1,209 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WabaAccount } from '@prisma/client';
+import axios from 'axios';
+import Redis from 'ioredis';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionUtil } from '../common/utils/encryption.util';
+
+/**
+ * Unique users a number may start conversations with in a rolling 24h window, per
+ * Meta messaging limit tier (null: unlimited)
+ */
+export const MESSAGING_LIMIT_TIERS: Record<string, number | null> = {
+  TIER_50: 50,
+  TIER_250: 250,
+  TIER_1K: 1000,
+  TIER_10K: 10000,
+  TIER_100K: 100000,
+  TIER_UNLIMITED: null,
+};
+
+// New numbers start here; used until the real tier has been synced
+const DEFAULT_TIER = 'TIER_250';
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Tiers go up (or down) over days, a daily refresh is enough
+const TIER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const SYNC_RETRY_MS = 60 * 60 * 1000;
+
+/**
+ * Keeps campaigns within the phone number's business-initiated messaging limit. Each
+ * number's recipients of the last 24h are kept in a Redis sorted set scored by send time.
+ */
+@Injectable()
+export class MessagingLimitService {
+  private readonly redis: Redis;
+  private readonly metaApiVersion: string;
+  private readonly logger = new Logger(MessagingLimitService.name);
+
+  // Failed syncs per account, so a Graph API outage is not retried on every send
+  private failedSyncs = new Map<string, number>();
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    const redisUrl =
+      configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
+    this.redis = new Redis(redisUrl);
+    this.metaApiVersion =
+      configService.get<string>('META_API_VERSION') || '21.0';
+  }
+
+  /**
+   * Tier, usage and what is left of the number's limit right now
+   */
+  async getCapacity(wabaAccountId: string) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    const { tier, limit } = await this.getLimit(wabaAccount);
+    const key = this.key(wabaAccount.phoneId);
+    await this.redis.zremrangebyscore(key, '-inf', Date.now() - WINDOW_MS);
+    const used = await this.redis.zcard(key);
+
+    return {
+      tier,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      syncedAt: wabaAccount.messagingLimitSyncedAt,
+    };
+  }
+
+  /**
+   * Take a slot of the number's limit for the recipient. Recipients already messaged in
+   * the window do not use a new one. When the limit is reached, retryAt is the moment
+   * the oldest recipient leaves the window.
+   */
+  async reserve(
+    wabaAccount: WabaAccount,
+    toNumber: string,
+  ): Promise<{ allowed: boolean; retryAt: Date | null }> {
+    const { limit } = await this.getLimit(wabaAccount);
+    const now = Date.now();
+
+    const script = `
+      local key = KEYS[1]
+      local now = tonumber(ARGV[1])
+      local windowMs = tonumber(ARGV[2])
+      local limit = tonumber(ARGV[3])
+      local member = ARGV[4]
+
+      redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+      if redis.call('ZSCORE', key, member) then
+        return -1
+      end
+
+      if limit < 0 or redis.call('ZCARD', key) < limit then
+        redis.call('ZADD', key, now, member)
+        redis.call('PEXPIRE', key, windowMs)
+        return -1
+      end
+
+      local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+      return tonumber(oldest[2])
+    `;
+
+    try {
+      const oldest = (await this.redis.eval(
+        script,
+        1,
+        this.key(wabaAccount.phoneId),
+        now.toString(),
+        WINDOW_MS.toString(),
+        (limit ?? -1).toString(),
+        toNumber,
+      )) as number;
+
+      return oldest < 0
+        ? { allowed: true, retryAt: null }
+        : { allowed: false, retryAt: new Date(oldest + WINDOW_MS) };
+    } catch (error) {
+      this.logger.error(
+        `Messaging limit check failed for ${wabaAccount.phoneId}:`,
+        error,
+      );
+      // Same as the rate limiter: fail open
+      return { allowed: true, retryAt: null };
+    }
+  }
+
+  /**
+   * Read the phone number's current messaging limit tier from the Graph API
+   */
+  async syncTier(wabaAccountId: string) {
+    const wabaAccount = await this.prisma.wabaAccount.findUnique({
+      where: { id: wabaAccountId },
+    });
+
+    if (!wabaAccount) {
+      throw new NotFoundException('WABA account not found');
+    }
+
+    // Placeholder id of a WABA without phone numbers
+    if (wabaAccount.phoneId.startsWith('pending-')) {
+      return wabaAccount.messagingLimitTier;
+    }
+
+    const accessToken = EncryptionUtil.decrypt(wabaAccount.encryptedToken);
+    const response = await axios.get(
+      `https://graph.facebook.com/v${this.metaApiVersion}/${wabaAccount.phoneId}`,
+      {
+        timeout: 30000,
+        params: { fields: 'messaging_limit_tier' },
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+    );
+    const tier: string | undefined = response.data?.messaging_limit_tier;
+
+    await this.prisma.wabaAccount.update({
+      where: { id: wabaAccountId },
+      data: {
+        messagingLimitTier: tier ?? wabaAccount.messagingLimitTier,
+        messagingLimitSyncedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Phone ${wabaAccount.phoneId} messaging limit tier: ${tier ?? 'unknown'}`,
+    );
+    return tier ?? wabaAccount.messagingLimitTier;
+  }
+
+  private async getLimit(wabaAccount: WabaAccount) {
+    let tier = wabaAccount.messagingLimitTier;
+    const syncedAt = wabaAccount.messagingLimitSyncedAt?.getTime() ?? 0;
+    const failedAt = this.failedSyncs.get(wabaAccount.id) ?? 0;
+
+    if (
+      Date.now() - syncedAt > TIER_MAX_AGE_MS &&
+      Date.now() - failedAt > SYNC_RETRY_MS
+    ) {
+      try {
+        tier = await this.syncTier(wabaAccount.id);
+        this.failedSyncs.delete(wabaAccount.id);
+      } catch (error: any) {
+        this.failedSyncs.set(wabaAccount.id, Date.now());
+        // Keep sending with the last known tier
+        this.logger.warn(
+          `Failed to sync messaging limit of ${wabaAccount.phoneId}: ${error.response?.data?.error?.message || error.message}`,
+        );
+      }
+    }
+
+    tier = tier && tier in MESSAGING_LIMIT_TIERS ? tier : DEFAULT_TIER;
+    return { tier, limit: MESSAGING_LIMIT_TIERS[tier] };
+  }
+
+  private key(phoneId: string) {
+    return `messaging_limit:${phoneId}`;
+  }
+}
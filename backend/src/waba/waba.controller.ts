@@ -1,14 +1,26 @@
 import { Controller, Get, Query, UseGuards, Post, Param, Delete } from '@nestjs/common';
 import { WabaService } from './waba.service';
+import { MessagingLimitService } from './messaging-limit.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 
 @Controller('waba')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, TenantGuard)
 export class WabaController {
-  constructor(private wabaService: WabaService) {}
+  constructor(
+    private wabaService: WabaService,
+    private messagingLimitService: MessagingLimitService,
+  ) {}
 
   @Get('embedded/start')
+  @OwnsResource({
+    resource: 'shop',
+    query: 'shopId',
+    optional: true,
+    role: 'admin',
+  })
   async startEmbeddedSignup(
     @CurrentUser() user: any,
     @Query('shopId') shopId: string,
@@ -34,6 +46,7 @@ export class WabaController {
   }
 
   @Post(':id/webhook/register')
+  @OwnsResource({ resource: 'wabaAccount', param: 'id', role: 'admin' })
   async registerWebhook(@Param('id') id: string) {
     // Register webhook for the specified WABA account id
     await this.wabaService.registerWebhookForAccount(id);
@@ -42,6 +55,7 @@ export class WabaController {
   }
 
   @Post(':id/refresh')
+  @OwnsResource({ resource: 'wabaAccount', param: 'id', role: 'admin' })
   async refreshToken(@Param('id') id: string) {
     // Refresh the access token for the WABA account
     const result = await this.wabaService.refreshTokenForAccount(id);
@@ -49,13 +63,22 @@ export class WabaController {
   }
 
   @Post(':id/sync-phone-numbers')
+  @OwnsResource({ resource: 'wabaAccount', param: 'id', role: 'admin' })
   async syncPhoneNumbers(@Param('id') id: string) {
     // Sync phone numbers from Meta for the WABA account
     const result = await this.wabaService.syncPhoneNumbersForAccount(id);
     return result;
   }
 
+  @Get(':id/messaging-limit')
+  @OwnsResource({ resource: 'wabaAccount', param: 'id' })
+  async getMessagingLimit(@Param('id') id: string) {
+    // Unique recipients the phone number can still reach in the current 24h window
+    return this.messagingLimitService.getCapacity(id);
+  }
+
   @Delete(':id')
+  @OwnsResource({ resource: 'wabaAccount', param: 'id', role: 'owner' })
   async disconnect(@Param('id') id: string) {
     // Disconnect (delete) the WABA account
     await this.wabaService.disconnectAccount(id);
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { WabaController } from './waba.controller';
 import { WabaService } from './waba.service';
+import { MessagingLimitService } from './messaging-limit.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { BullModule } from '@nestjs/bullmq';
 
@@ -12,8 +13,8 @@ import { BullModule } from '@nestjs/bullmq';
     }),
   ],
   controllers: [WabaController],
-  providers: [WabaService],
-  exports: [WabaService],
+  providers: [WabaService, MessagingLimitService],
+  exports: [WabaService, MessagingLimitService],
 })
 export class WabaModule {}
 
@@ -3,6 +3,7 @@ import { PrismaService } from '../prisma/prisma.service';
 import { EncryptionUtil } from '../common/utils/encryption.util';
 import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
+import { MessagingLimitService } from './messaging-limit.service';
 
 @Injectable()
 export class WabaService {
@@ -18,6 +19,7 @@ export class WabaService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private messagingLimitService: MessagingLimitService,
   ) {
     this.metaApiVersion =
       configService.get<string>('META_API_VERSION') || '21.0';
@@ -811,12 +813,18 @@ export class WabaService {
         },
       });
 
+      // The number may have changed, and with it the messaging limit tier
+      const messagingLimitTier = hasPhoneNumbers
+        ? await this.messagingLimitService.syncTier(accountId).catch(() => null)
+        : null;
+
       return {
         id: updated.id,
         wabaId: updated.wabaId,
         phoneId: updated.phoneId,
         displayNumber: updated.displayNumber,
         hasPhoneNumbers,
+        messagingLimitTier,
       };
     } catch (error: any) {
       const errorMsg = error.response?.data?.error?.message || error.message;
@@ -1,10 +1,28 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
+import { MediaService } from '../media/media.service';
+import { MEDIA_MESSAGE_TYPES } from '../messages/media.constants';
+import { ConversationRoutingService } from '../inbox/conversation-routing.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { PhoneNumbersService } from '../phone-numbers/phone-numbers.service';
+import { ConsentService } from '../consent/consent.service';
+import { MessagesService } from '../messages/messages.service';
+import { SERVICE_WINDOW_MS } from '../common/utils/service-window.util';
 
 @Processor('webhook-processing')
 export class WebhookProcessor extends WorkerHost {
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private mediaService: MediaService,
+    private routingService: ConversationRoutingService,
+    private realtime: RealtimeService,
+    private contactsService: ContactsService,
+    private phoneNumbers: PhoneNumbersService,
+    private consent: ConsentService,
+    private messagesService: MessagesService,
+  ) {
     super();
   }
 
@@ -39,14 +57,28 @@ export class WebhookProcessor extends WorkerHost {
         // Handle messages
         if (value.messages) {
           for (const message of value.messages) {
-            await this.processMessage(wabaAccount.id, message, 'inbound');
+            // The sender's WhatsApp profile comes in a sibling contacts[] array
+            const profileName = value.contacts?.find(
+              (contact: any) => contact.wa_id === message.from,
+            )?.profile?.name;
+            await this.processMessage(
+              wabaAccount.id,
+              wabaAccount.shopId,
+              message,
+              'inbound',
+              profileName,
+            );
           }
         }
 
         // Handle status updates
         if (value.statuses) {
           for (const status of value.statuses) {
-            await this.updateMessageStatus(wabaAccount.id, status);
+            await this.updateMessageStatus(
+              wabaAccount.id,
+              wabaAccount.shopId,
+              status,
+            );
           }
         }
 
@@ -99,11 +131,42 @@ export class WebhookProcessor extends WorkerHost {
     }
   }
 
-  private async processMessage(wabaAccountId: string, message: any, direction: string) {
-    const from = message.from;
+  private async processMessage(
+    wabaAccountId: string,
+    shopId: string,
+    message: any,
+    direction: string,
+    profileName?: string,
+  ) {
+    // Same canonical form as numbers typed in the app, so both land in one conversation
+    const from = this.phoneNumbers.normalizeWaId(message.from);
     const to = message.to || message.id?.split(':')[0];
     const messageId = message.id;
-    const body = message.text?.body || message.type;
+    // Media payloads live under a key named after the message type (e.g. message.image)
+    const media = MEDIA_MESSAGE_TYPES.includes(message.type)
+      ? message[message.type]
+      : null;
+    const reply = this.extractReply(message);
+    const body =
+      message.text?.body ||
+      reply?.title ||
+      media?.caption ||
+      (media ? null : message.type);
+
+    // Meta sends the message time as unix seconds
+    const sentAt = message.timestamp
+      ? new Date(Number(message.timestamp) * 1000)
+      : new Date();
+
+    const contact =
+      direction === 'inbound'
+        ? await this.contactsService.upsertFromInbound(
+            shopId,
+            from,
+            profileName,
+            sentAt,
+          )
+        : null;
 
     // Find or create conversation
     let conversation = await this.prisma.conversation.findFirst({
@@ -118,15 +181,40 @@ export class WebhookProcessor extends WorkerHost {
         data: {
           wabaAccountId,
           contactNumber: from,
+          contactId: contact?.id ?? null,
           unreadCount: direction === 'inbound' ? 1 : 0,
+          lastInboundAt: direction === 'inbound' ? sentAt : null,
         },
       });
+
+      if (direction === 'inbound') {
+        try {
+          await this.routingService.routeConversation(conversation.id);
+        } catch (error) {
+          // Routing is best effort; the conversation stays in the unassigned queue
+          console.warn(
+            `Failed to route conversation ${conversation.id}:`,
+            error.message,
+          );
+        }
+      }
     } else if (direction === 'inbound') {
+      // Webhooks can arrive out of order, never move the window backwards
+      const lastInboundAt =
+        conversation.lastInboundAt && conversation.lastInboundAt > sentAt
+          ? conversation.lastInboundAt
+          : sentAt;
       await this.prisma.conversation.update({
         where: { id: conversation.id },
         data: {
           lastAt: new Date(),
           unreadCount: { increment: 1 },
+          lastInboundAt,
+          contactId: contact?.id,
+          // A new customer message brings resolved or snoozed conversations back to the inbox
+          status: 'open',
+          snoozedUntil: null,
+          resolvedAt: null,
         },
       });
     }
@@ -137,7 +225,7 @@ export class WebhookProcessor extends WorkerHost {
     });
 
     if (!existingMessage) {
-      await this.prisma.message.create({
+      const created = await this.prisma.message.create({
         data: {
           conversationId: conversation.id,
           wabaAccountId,
@@ -146,14 +234,139 @@ export class WebhookProcessor extends WorkerHost {
           to,
           direction,
           status: direction === 'inbound' ? 'delivered' : 'pending',
+          type: message.type || 'text',
           body,
+          replyId: reply?.id || null,
+          mediaId: media?.id || null,
+          mediaMimeType: media?.mime_type || null,
+          mediaFilename: media?.filename || null,
           rawPayload: message,
         },
       });
+
+      await this.realtime.publish(shopId, {
+        type: 'message.created',
+        conversationId: conversation.id,
+        messageId: created.id,
+        direction,
+      });
+
+      if (direction === 'inbound') {
+        await this.markCampaignReplies(wabaAccountId, from, sentAt);
+        await this.handleConsentKeywords(
+          wabaAccountId,
+          shopId,
+          from,
+          message.text?.body ?? reply?.title ?? null,
+          created.id,
+        );
+      }
+
+      // Download right away: Meta media URLs are short-lived
+      if (media?.id) {
+        try {
+          await this.mediaService.storeMessageMedia(created.id);
+        } catch (error) {
+          // Keep the message; GET /inbox/media/:messageId retries the download on demand
+          console.warn(
+            `Failed to store media for message ${messageId}:`,
+            error.response?.data || error.message,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Flag the campaign messages sent to this number in the 24h before its reply, so
+   * reports, follow-ups and sequences filter on CampaignJob.repliedAt in the database.
+   * Older sends are not credited with the reply.
+   */
+  private async markCampaignReplies(
+    wabaAccountId: string,
+    from: string,
+    repliedAt: Date,
+  ) {
+    const sentWithin = {
+      gte: new Date(repliedAt.getTime() - SERVICE_WINDOW_MS),
+      lte: repliedAt,
+    };
+
+    await this.prisma.campaignJob.updateMany({
+      where: {
+        toNumber: from,
+        status: 'sent',
+        repliedAt: null,
+        campaign: { wabaAccountId },
+        OR: [
+          { message: { createdAt: sentWithin } },
+          // Sent before jobs were linked to their message
+          { localMessageId: null, updatedAt: sentWithin },
+        ],
+      },
+      data: { repliedAt },
+    });
+  }
+
+  /**
+   * Opt the sender out (or back in) when the message is a consent keyword such as SAIR
+   */
+  private async handleConsentKeywords(
+    wabaAccountId: string,
+    shopId: string,
+    from: string,
+    text: string | null,
+    messageId: string,
+  ) {
+    try {
+      const result = await this.consent.handleInboundText(
+        shopId,
+        from,
+        text,
+        messageId,
+      );
+
+      if (result?.reply) {
+        // The customer just wrote to us, so the service window is open for a free-form reply
+        await this.messagesService.sendMessage(
+          wabaAccountId,
+          from,
+          result.reply,
+        );
+      }
+    } catch (error) {
+      // The inbound message is already stored; a failed confirmation must not retry the webhook
+      console.warn(
+        `Failed to process consent keywords for message ${messageId}:`,
+        error.message,
+      );
     }
   }
 
-  private async updateMessageStatus(wabaAccountId: string, status: any) {
+  /**
+   * Extract the option chosen in an interactive reply or a template quick-reply button
+   */
+  private extractReply(message: any): { id: string; title: string } | null {
+    if (message.type === 'interactive') {
+      const reply =
+        message.interactive?.button_reply || message.interactive?.list_reply;
+      if (reply) {
+        return { id: reply.id, title: reply.title };
+      }
+    }
+
+    if (message.type === 'button' && message.button) {
+      return { id: message.button.payload, title: message.button.text };
+    }
+
+    return null;
+  }
+
+  private async updateMessageStatus(
+    wabaAccountId: string,
+    shopId: string,
+    status: any,
+  ) {
     const messageId = status.id;
     const statusValue = status.status; // sent, delivered, read, failed
 
@@ -167,6 +380,71 @@ export class WebhookProcessor extends WorkerHost {
         updatedAt: new Date(),
       },
     });
+
+    await this.updateCampaignJobStatus(messageId, status);
+
+    await this.realtime.publish(shopId, {
+      type: 'message.status',
+      messageId,
+      status: statusValue,
+    });
+  }
+
+  /**
+   * Keep the delivery funnel of campaign messages on their CampaignJob. Statuses can
+   * arrive out of order, so a late "delivered" never downgrades a "read".
+   */
+  private async updateCampaignJobStatus(messageId: string, status: any) {
+    const campaignJob = await this.prisma.campaignJob.findUnique({
+      where: { messageId },
+      select: {
+        id: true,
+        deliveryStatus: true,
+        deliveredAt: true,
+        readAt: true,
+      },
+    });
+
+    if (!campaignJob) {
+      return;
+    }
+
+    const at = status.timestamp
+      ? new Date(Number(status.timestamp) * 1000)
+      : new Date();
+    const rank = (value: string | null) =>
+      ['sent', 'delivered', 'read'].indexOf(value ?? 'sent');
+    const advances = rank(status.status) > rank(campaignJob.deliveryStatus);
+
+    switch (status.status) {
+      case 'delivered':
+      case 'read':
+        await this.prisma.campaignJob.update({
+          where: { id: campaignJob.id },
+          data: {
+            ...(advances && { deliveryStatus: status.status }),
+            // A read receipt implies delivery, even when "delivered" never arrives
+            deliveredAt: campaignJob.deliveredAt ?? at,
+            ...(status.status === 'read' && {
+              readAt: campaignJob.readAt ?? at,
+            }),
+          },
+        });
+        break;
+      case 'failed':
+        await this.prisma.campaignJob.update({
+          where: { id: campaignJob.id },
+          data: {
+            deliveryStatus: 'failed',
+            errorCode: status.errors?.[0]?.code ?? null,
+            lastError:
+              status.errors?.[0]?.title ||
+              status.errors?.[0]?.message ||
+              'Delivery failed',
+          },
+        });
+        break;
+    }
   }
 
   private async updateTemplateStatus(wabaAccountId: string, update: any) {
@@ -2,6 +2,8 @@ import { Controller, Get, Post, Body, Req, Res, Param, UseGuards } from '@nestjs
 import { Request, Response } from 'express';
 import { WebhooksService } from './webhooks.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { OwnsResource } from '../common/decorators/owns-resource.decorator';
 
 @Controller('webhooks')
 export class WebhooksController {
@@ -56,7 +58,12 @@ export class WebhooksController {
   }
 
   @Post('replay/:eventId')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, TenantGuard)
+  @OwnsResource({
+    resource: 'webhookEvent',
+    param: 'eventId',
+    role: 'admin',
+  })
   async replayEvent(@Param('eventId') eventId: string) {
     return this.webhooksService.replayEvent(eventId);
   }
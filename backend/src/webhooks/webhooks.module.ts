@@ -4,10 +4,20 @@ import { WebhooksService } from './webhooks.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { BullModule } from '@nestjs/bullmq';
 import { WebhookProcessor } from './webhook.processor';
+import { MediaModule } from '../media/media.module';
+import { InboxModule } from '../inbox/inbox.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { ConsentModule } from '../consent/consent.module';
+import { MessagesModule } from '../messages/messages.module';
 
 @Module({
   imports: [
     PrismaModule,
+    MediaModule,
+    InboxModule,
+    ContactsModule,
+    ConsentModule,
+    MessagesModule,
     BullModule.registerQueue({
       name: 'webhook-processing',
     }),
@@ -0,0 +1,186 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/prisma/prisma.service';
+import { HttpExceptionFilter } from '../src/common/filters/http-exception.filter';
+import { ShopRole } from '../src/tenancy/shop-roles';
+
+/**
+ * The e2e specs run the whole app against a real database and Redis (see
+ * DATABASE_SETUP.md), seeding their own shops and removing them afterwards.
+ */
+export async function createTestApp() {
+  const moduleRef = await Test.createTestingModule({
+    imports: [AppModule],
+  }).compile();
+
+  // Same request pipeline as main.ts
+  const app = moduleRef.createNestApplication();
+  app.useGlobalFilters(new HttpExceptionFilter());
+  app.useGlobalPipes(
+    new ValidationPipe({
+      whitelist: true,
+      transform: true,
+      forbidNonWhitelisted: true,
+    }),
+  );
+  app.setGlobalPrefix('api');
+  await app.init();
+
+  return app;
+}
+
+export interface ShopFixture {
+  shopId: string;
+  wabaAccountId: string;
+  templateId: string;
+  conversationId: string;
+  messageId: string;
+  campaignId: string;
+  recurringCampaignId: string;
+  campaignSequenceId: string;
+  contactListId: string;
+  // Bearer token per role; the owner is Shop.ownerId, the others are members
+  tokens: Record<ShopRole, string>;
+}
+
+const MEMBER_ROLES: ShopRole[] = ['admin', 'agent', 'viewer'];
+
+/**
+ * A shop with one user per role and one row of every tenant-scoped resource
+ */
+export async function createShopFixture(
+  app: INestApplication,
+  label: string,
+): Promise<ShopFixture> {
+  const prisma = app.get(PrismaService);
+  const jwtService = app.get(JwtService);
+  // Unique per run so leftovers of an aborted run never collide
+  const suffix = randomUUID();
+
+  const createUser = (role: ShopRole) =>
+    prisma.user.create({
+      data: { email: `e2e-${label}-${role}-${suffix}@example.com` },
+    });
+
+  const owner = await createUser('owner');
+  const shop = await prisma.shop.create({
+    data: { name: `E2E ${label}`, ownerId: owner.id },
+  });
+
+  const tokens = {
+    owner: jwtService.sign({ email: owner.email, sub: owner.id }),
+  } as Record<ShopRole, string>;
+
+  for (const role of MEMBER_ROLES) {
+    const user = await createUser(role);
+    await prisma.shopMember.create({
+      data: { shopId: shop.id, userId: user.id, role },
+    });
+    tokens[role] = jwtService.sign({ email: user.email, sub: user.id });
+  }
+
+  const wabaAccount = await prisma.wabaAccount.create({
+    data: {
+      shopId: shop.id,
+      wabaId: `e2e-${suffix}`,
+      phoneId: `e2e-phone-${suffix}`,
+      displayNumber: '+55 11 90000-0000',
+      encryptedToken: 'e2e',
+    },
+  });
+  const wabaAccountId = wabaAccount.id;
+
+  const template = await prisma.template.create({
+    data: {
+      wabaAccountId,
+      name: `e2e_${label.toLowerCase()}`,
+      language: 'pt_BR',
+      status: 'approved',
+    },
+  });
+  const conversation = await prisma.conversation.create({
+    data: { wabaAccountId, contactNumber: '5511900000000' },
+  });
+  const message = await prisma.message.create({
+    data: {
+      wabaAccountId,
+      conversationId: conversation.id,
+      from: '5511900000000',
+      to: wabaAccount.phoneId,
+      direction: 'inbound',
+      status: 'delivered',
+      body: 'Olá',
+    },
+  });
+  const contactList = await prisma.contactList.create({
+    data: { shopId: shop.id, name: `E2E ${label}` },
+  });
+  const campaign = await prisma.campaign.create({
+    data: {
+      wabaAccountId,
+      templateId: template.id,
+      contactCount: 0,
+      status: 'completed',
+    },
+  });
+  const recurringCampaign = await prisma.recurringCampaign.create({
+    data: {
+      wabaAccountId,
+      name: `E2E ${label}`,
+      templateId: template.id,
+      contactListIds: [contactList.id],
+      cron: '0 9 * * 1',
+      // Never scheduled in BullMQ, so nothing fires during the run
+      active: false,
+    },
+  });
+  const campaignSequence = await prisma.campaignSequence.create({
+    data: {
+      wabaAccountId,
+      name: `E2E ${label}`,
+      contactListIds: [contactList.id],
+      status: 'draft',
+    },
+  });
+
+  return {
+    shopId: shop.id,
+    wabaAccountId,
+    templateId: template.id,
+    conversationId: conversation.id,
+    messageId: message.id,
+    campaignId: campaign.id,
+    recurringCampaignId: recurringCampaign.id,
+    campaignSequenceId: campaignSequence.id,
+    contactListId: contactList.id,
+    tokens,
+  };
+}
+
+/**
+ * Remove the shop with everything that cascades from it, then its users
+ */
+export async function removeShopFixture(
+  app: INestApplication,
+  fixture: ShopFixture,
+) {
+  const prisma = app.get(PrismaService);
+  const members = await prisma.shopMember.findMany({
+    where: { shopId: fixture.shopId },
+    select: { userId: true },
+  });
+  const shop = await prisma.shop.findUnique({
+    where: { id: fixture.shopId },
+    select: { ownerId: true },
+  });
+
+  await prisma.shop.delete({ where: { id: fixture.shopId } });
+  await prisma.user.deleteMany({
+    where: {
+      id: { in: [shop.ownerId, ...members.map((member) => member.userId)] },
+    },
+  });
+}
@@ -0,0 +1,320 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { PrismaService } from '../src/prisma/prisma.service';
+import {
+  ShopFixture,
+  createShopFixture,
+  createTestApp,
+  removeShopFixture,
+} from './tenancy-fixtures';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface CrossShopCase {
+  name: string;
+  method: Method;
+  path: (other: ShopFixture, own: ShopFixture) => string;
+  body?: (other: ShopFixture, own: ShopFixture) => object;
+}
+
+// Every route that takes a tenant-scoped id, called with ids of the other shop
+const CROSS_SHOP_CASES: CrossShopCase[] = [
+  // Inbox
+  {
+    name: 'list conversations',
+    method: 'get',
+    path: (b) => `/api/inbox/conversations?wabaAccountId=${b.wabaAccountId}`,
+  },
+  {
+    name: 'read a conversation',
+    method: 'get',
+    path: (b) => `/api/inbox/conversations/${b.conversationId}`,
+  },
+  {
+    name: 'download message media',
+    method: 'get',
+    path: (b) => `/api/inbox/media/${b.messageId}`,
+  },
+  {
+    name: 'mark a conversation as read',
+    method: 'put',
+    path: (b) => `/api/inbox/conversations/${b.conversationId}/read`,
+  },
+  {
+    name: 'resolve a conversation',
+    method: 'put',
+    path: (b) => `/api/inbox/conversations/${b.conversationId}/resolve`,
+  },
+  {
+    name: 'snooze a conversation',
+    method: 'put',
+    path: (b) => `/api/inbox/conversations/${b.conversationId}/snooze`,
+    body: () => ({ until: new Date(Date.now() + 3600000).toISOString() }),
+  },
+  {
+    name: 'list agent availability',
+    method: 'get',
+    path: (b) => `/api/inbox/availability?wabaAccountId=${b.wabaAccountId}`,
+  },
+
+  // Templates
+  {
+    name: 'list templates',
+    method: 'get',
+    path: (b) => `/api/templates?wabaAccountId=${b.wabaAccountId}`,
+  },
+  {
+    name: 'read a template',
+    method: 'get',
+    path: (b) => `/api/templates/${b.templateId}`,
+  },
+  {
+    name: 'submit a template',
+    method: 'post',
+    path: (b) => `/api/templates/submit?wabaAccountId=${b.wabaAccountId}`,
+    body: () => ({ name: 'e2e', language: 'pt_BR', category: 'MARKETING' }),
+  },
+  {
+    name: 'update a template',
+    method: 'patch',
+    path: (b) => `/api/templates/${b.templateId}`,
+    body: () => ({ status: 'rejected' }),
+  },
+
+  // Campaigns
+  {
+    name: 'list campaigns',
+    method: 'get',
+    path: (b) => `/api/campaigns?wabaAccountId=${b.wabaAccountId}`,
+  },
+  {
+    name: 'read a campaign',
+    method: 'get',
+    path: (b) => `/api/campaigns/${b.campaignId}`,
+  },
+  {
+    name: 'export a campaign report',
+    method: 'get',
+    path: (b) => `/api/campaigns/${b.campaignId}/export?format=csv`,
+  },
+  {
+    name: 'create a campaign on the other WABA account',
+    method: 'post',
+    path: () => '/api/campaigns',
+    body: (b) => ({
+      wabaAccountId: b.wabaAccountId,
+      templateId: b.templateId,
+      contactNumbers: ['5511911111111'],
+    }),
+  },
+  {
+    name: 'create a campaign with the other shop template',
+    method: 'post',
+    path: () => '/api/campaigns',
+    body: (b, a) => ({
+      wabaAccountId: a.wabaAccountId,
+      templateId: b.templateId,
+      contactNumbers: ['5511911111111'],
+    }),
+  },
+  {
+    name: 'cancel a campaign',
+    method: 'post',
+    path: (b) => `/api/campaigns/${b.campaignId}/cancel`,
+  },
+  {
+    name: 'list recurring campaigns',
+    method: 'get',
+    path: (b) => `/api/campaigns/recurring?wabaAccountId=${b.wabaAccountId}`,
+  },
+  {
+    name: 'update a recurring campaign',
+    method: 'patch',
+    path: (b) => `/api/campaigns/recurring/${b.recurringCampaignId}`,
+    body: () => ({ active: true }),
+  },
+  {
+    name: 'delete a recurring campaign',
+    method: 'delete',
+    path: (b) => `/api/campaigns/recurring/${b.recurringCampaignId}`,
+  },
+  {
+    name: 'list sequences',
+    method: 'get',
+    path: (b) => `/api/campaigns/sequences?wabaAccountId=${b.wabaAccountId}`,
+  },
+  {
+    name: 'start a sequence',
+    method: 'post',
+    path: (b) => `/api/campaigns/sequences/${b.campaignSequenceId}/start`,
+  },
+
+  // Messages
+  {
+    name: 'send a text message',
+    method: 'post',
+    path: () => '/api/messages/send',
+    body: (b) => ({
+      wabaAccountId: b.wabaAccountId,
+      to: '5511911111111',
+      body: 'Olá',
+    }),
+  },
+  {
+    name: 'send a template message',
+    method: 'post',
+    path: () => '/api/messages/template',
+    body: (b) => ({
+      wabaAccountId: b.wabaAccountId,
+      to: '5511911111111',
+      templateName: 'e2e',
+      language: 'pt_BR',
+    }),
+  },
+
+  // Dashboard
+  {
+    name: 'read dashboard stats',
+    method: 'get',
+    path: (b) => `/api/dashboard/stats?wabaAccountId=${b.wabaAccountId}`,
+  },
+
+  // WABA
+  {
+    name: 'start embedded signup for the other shop',
+    method: 'get',
+    path: (b) => `/api/waba/embedded/start?shopId=${b.shopId}`,
+  },
+  {
+    name: 'read the messaging limit',
+    method: 'get',
+    path: (b) => `/api/waba/${b.wabaAccountId}/messaging-limit`,
+  },
+  {
+    name: 'refresh the WABA token',
+    method: 'post',
+    path: (b) => `/api/waba/${b.wabaAccountId}/refresh`,
+  },
+  {
+    name: 'sync phone numbers',
+    method: 'post',
+    path: (b) => `/api/waba/${b.wabaAccountId}/sync-phone-numbers`,
+  },
+  {
+    name: 'delete the WABA account',
+    method: 'delete',
+    path: (b) => `/api/waba/${b.wabaAccountId}`,
+  },
+];
+
+describe('Tenant isolation (e2e)', () => {
+  let app: INestApplication;
+  let shopA: ShopFixture;
+  let shopB: ShopFixture;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    shopA = await createShopFixture(app, 'A');
+    shopB = await createShopFixture(app, 'B');
+  });
+
+  afterAll(async () => {
+    if (shopA) await removeShopFixture(app, shopA);
+    if (shopB) await removeShopFixture(app, shopB);
+    await app.close();
+  });
+
+  it.each(CROSS_SHOP_CASES)(
+    "rejects shop A's owner trying to $name of shop B",
+    async ({ method, path, body }) => {
+      let req = request(app.getHttpServer())
+        [method](path(shopB, shopA))
+        .set('Authorization', `Bearer ${shopA.tokens.owner}`);
+      if (body) {
+        req = req.send(body(shopB, shopA));
+      }
+
+      const response = await req;
+
+      expect([403, 404]).toContain(response.status);
+    },
+  );
+
+  // Multipart routes check ownership in the handler instead of the guard
+  it.each(['/api/messages/media/upload', '/api/messages/media'])(
+    "rejects shop A's owner uploading to shop B through %s",
+    async (path) => {
+      const response = await request(app.getHttpServer())
+        .post(path)
+        .set('Authorization', `Bearer ${shopA.tokens.owner}`)
+        .field('wabaAccountId', shopB.wabaAccountId)
+        .field('to', '5511911111111')
+        .field('type', 'image')
+        .attach('file', Buffer.from('e2e'), {
+          filename: 'e2e.png',
+          contentType: 'image/png',
+        });
+
+      expect([403, 404]).toContain(response.status);
+    },
+  );
+
+  it('returns 404 for ids that do not exist in any shop', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/api/campaigns/does-not-exist')
+      .set('Authorization', `Bearer ${shopA.tokens.owner}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("still serves shop A's own data to its owner", async () => {
+    const server = app.getHttpServer();
+    const auth = `Bearer ${shopA.tokens.owner}`;
+
+    const conversations = await request(server)
+      .get(`/api/inbox/conversations?wabaAccountId=${shopA.wabaAccountId}`)
+      .set('Authorization', auth);
+    const template = await request(server)
+      .get(`/api/templates/${shopA.templateId}`)
+      .set('Authorization', auth);
+    const campaigns = await request(server)
+      .get(`/api/campaigns?wabaAccountId=${shopA.wabaAccountId}`)
+      .set('Authorization', auth);
+
+    expect(conversations.status).toBe(200);
+    expect(template.status).toBe(200);
+    expect(campaigns.status).toBe(200);
+  });
+
+  it("leaves shop B's data untouched", async () => {
+    const prisma = app.get(PrismaService);
+
+    const [wabaAccount, template, conversation, campaign, recurring, sequence] =
+      await Promise.all([
+        prisma.wabaAccount.findUnique({ where: { id: shopB.wabaAccountId } }),
+        prisma.template.findUnique({ where: { id: shopB.templateId } }),
+        prisma.conversation.findUnique({
+          where: { id: shopB.conversationId },
+        }),
+        prisma.campaign.findUnique({ where: { id: shopB.campaignId } }),
+        prisma.recurringCampaign.findUnique({
+          where: { id: shopB.recurringCampaignId },
+        }),
+        prisma.campaignSequence.findUnique({
+          where: { id: shopB.campaignSequenceId },
+        }),
+      ]);
+
+    expect(wabaAccount).not.toBeNull();
+    expect(template.status).toBe('approved');
+    expect(conversation.status).toBe('open');
+    expect(campaign.status).toBe('completed');
+    expect(recurring.active).toBe(false);
+    expect(sequence.status).toBe('draft');
+    expect(
+      await prisma.campaign.count({
+        where: { wabaAccountId: shopB.wabaAccountId },
+      }),
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { ShopRole } from '../src/tenancy/shop-roles';
+import {
+  ShopFixture,
+  createShopFixture,
+  createTestApp,
+  removeShopFixture,
+} from './tenancy-fixtures';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface RoleCase {
+  name: string;
+  method: Method;
+  path: (shop: ShopFixture) => string;
+  body?: (shop: ShopFixture) => object;
+  // Least privileged role the route accepts
+  minimumRole: ShopRole;
+}
+
+// Requests the lower roles must be refused before anything is sent to Meta
+const ROLE_CASES: RoleCase[] = [
+  {
+    name: 'mark a conversation as read',
+    method: 'put',
+    path: (shop) => `/api/inbox/conversations/${shop.conversationId}/read`,
+    minimumRole: 'agent',
+  },
+  {
+    name: 'send a text message',
+    method: 'post',
+    path: () => '/api/messages/send',
+    body: (shop) => ({
+      wabaAccountId: shop.wabaAccountId,
+      to: '5511911111111',
+      body: 'Olá',
+    }),
+    minimumRole: 'agent',
+  },
+  {
+    name: 'update a template',
+    method: 'patch',
+    path: (shop) => `/api/templates/${shop.templateId}`,
+    body: () => ({ status: 'approved' }),
+    minimumRole: 'admin',
+  },
+  {
+    name: 'create a campaign',
+    method: 'post',
+    path: () => '/api/campaigns',
+    body: (shop) => ({
+      wabaAccountId: shop.wabaAccountId,
+      templateId: shop.templateId,
+      contactNumbers: ['5511911111111'],
+    }),
+    minimumRole: 'admin',
+  },
+  {
+    name: 'delete a recurring campaign',
+    method: 'delete',
+    path: (shop) => `/api/campaigns/recurring/${shop.recurringCampaignId}`,
+    minimumRole: 'admin',
+  },
+  {
+    name: 'refresh the WABA token',
+    method: 'post',
+    path: (shop) => `/api/waba/${shop.wabaAccountId}/refresh`,
+    minimumRole: 'admin',
+  },
+  {
+    name: 'delete the WABA account',
+    method: 'delete',
+    path: (shop) => `/api/waba/${shop.wabaAccountId}`,
+    minimumRole: 'owner',
+  },
+];
+
+const ROLES: ShopRole[] = ['viewer', 'agent', 'admin', 'owner'];
+
+// Every role below the route's minimum, paired with the route
+const REFUSED = ROLE_CASES.flatMap((roleCase) =>
+  ROLES.slice(0, ROLES.indexOf(roleCase.minimumRole)).map((role) => ({
+    ...roleCase,
+    role,
+  })),
+);
+
+describe('Shop roles (e2e)', () => {
+  let app: INestApplication;
+  let shop: ShopFixture;
+
+  const call = (
+    role: ShopRole,
+    method: Method,
+    path: string,
+    body?: object,
+  ) => {
+    const req = request(app.getHttpServer())
+      [method](path)
+      .set('Authorization', `Bearer ${shop.tokens[role]}`);
+    return body ? req.send(body) : req;
+  };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    shop = await createShopFixture(app, 'Roles');
+  });
+
+  afterAll(async () => {
+    if (shop) await removeShopFixture(app, shop);
+    await app.close();
+  });
+
+  it.each(REFUSED)(
+    'refuses a $role trying to $name',
+    async ({ role, method, path, body }) => {
+      const response = await call(role, method, path(shop), body?.(shop));
+
+      expect(response.status).toBe(403);
+    },
+  );
+
+  it.each(ROLES)('lets a %s read the shop data', async (role) => {
+    const response = await call(
+      role,
+      'get',
+      `/api/templates?wabaAccountId=${shop.wabaAccountId}`,
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it.each(['agent', 'admin', 'owner'] as ShopRole[])(
+    'lets a %s work the inbox',
+    async (role) => {
+      const response = await call(
+        role,
+        'put',
+        `/api/inbox/conversations/${shop.conversationId}/read`,
+      );
+
+      expect(response.status).toBe(200);
+    },
+  );
+
+  it.each(['admin', 'owner'] as ShopRole[])(
+    'lets a %s manage templates',
+    async (role) => {
+      const response = await call(
+        role,
+        'patch',
+        `/api/templates/${shop.templateId}`,
+        { status: 'approved' },
+      );
+
+      expect(response.status).toBe(200);
+    },
+  );
+
+  it('lets an admin start a sequence', async () => {
+    const response = await call(
+      'admin',
+      'post',
+      `/api/campaigns/sequences/${shop.campaignSequenceId}/start`,
+    );
+
+    expect(response.status).toBe(201);
+  });
+});
@@ -3,13 +3,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { AppLayout } from "./components/layout/AppLayout";
 import Inicio from "./pages/Inicio";
 import Conversas from "./pages/Conversas";
+import Contatos from "./pages/Contatos";
+import ContatoDetalhe from "./pages/ContatoDetalhe";
 import MensagensAprovadas from "./pages/MensagensAprovadas";
 import Campanhas from "./pages/Campanhas";
 import NovaCampanha from "./pages/NovaCampanha";
+import CampanhasAutomaticas from "./pages/CampanhasAutomaticas";
+import CampanhaDetalhe from "./pages/CampanhaDetalhe";
 import ConectarWhatsApp from "./pages/ConectarWhatsApp";
 import StatusConexao from "./pages/StatusConexao";
 import PerfilEmpresa from "./pages/PerfilEmpresa";
@@ -20,12 +24,14 @@ import Register from "./pages/Register";
 import ChooseApi from "./pages/ChooseApi";
 import Onboarding from "./pages/Onboarding";
 import OnboardingCallback from "./pages/OnboardingCallback";
+import AceitarConvite from "./pages/AceitarConvite";
 import { AuthProvider, useAuth } from "./lib/auth";
 
 const queryClient = new QueryClient();
 
 const ProtectedRoute = ({ children }: { children: ReactNode }) => {
   const { isAuthenticated, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -36,7 +42,8 @@ const ProtectedRoute = ({ children }: { children: ReactNode }) => {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Remember where the user was going (e.g. an invitation link) for after login
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
   }
 
   return <>{children}</>;
@@ -69,6 +76,14 @@ const App = () => (
               }
             />
             <Route path="/onboarding/callback" element={<OnboardingCallback />} />
+            <Route
+              path="/convite/:token"
+              element={
+                <ProtectedRoute>
+                  <AceitarConvite />
+                </ProtectedRoute>
+              }
+            />
 
             <Route
               path="/"
@@ -80,9 +95,13 @@ const App = () => (
             >
             <Route index element={<Inicio />} />
             <Route path="conversas" element={<Conversas />} />
+            <Route path="contatos" element={<Contatos />} />
+            <Route path="contatos/:id" element={<ContatoDetalhe />} />
             <Route path="mensagens-aprovadas" element={<MensagensAprovadas />} />
             <Route path="campanhas" element={<Campanhas />} />
             <Route path="campanhas/nova" element={<NovaCampanha />} />
+            <Route path="campanhas/automacoes" element={<CampanhasAutomaticas />} />
+            <Route path="campanhas/:id" element={<CampanhaDetalhe />} />
             <Route path="conectar-whatsapp" element={<ConectarWhatsApp />} />
             <Route path="status-conexao" element={<StatusConexao />} />
             <Route path="perfil-empresa" element={<PerfilEmpresa />} />
@@ -0,0 +1,208 @@
+import type { Dispatch, SetStateAction } from "react";
+import { FlaskConical, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateVariablesCard } from "@/components/campaigns/TemplateVariablesCard";
+import type { AbTestMetric, AbTestSettings, CampaignVariantInput, Template } from "@/lib/types";
+
+interface AbTestCardProps {
+  wabaAccountId: string;
+  templates: Template[];
+  contactNumbers: string[];
+  contactListIds: string[];
+  // Variants B to D; variant A is the template chosen for the campaign
+  variants: CampaignVariantInput[];
+  onVariantsChange: Dispatch<SetStateAction<CampaignVariantInput[]>>;
+  // Null sends the variants to the whole audience
+  abTest: AbTestSettings | null;
+  onAbTestChange: (abTest: AbTestSettings | null) => void;
+}
+
+const LABELS = ["B", "C", "D"];
+
+const DEFAULT_AB_TEST: AbTestSettings = { testPercentage: 20, waitHours: 4, metric: "read" };
+
+const METRICS: { value: AbTestMetric; label: string }[] = [
+  { value: "read", label: "Taxa de leitura" },
+  { value: "reply", label: "Taxa de resposta" },
+];
+
+export function AbTestCard({
+  wabaAccountId,
+  templates,
+  contactNumbers,
+  contactListIds,
+  variants,
+  onVariantsChange,
+  abTest,
+  onAbTestChange,
+}: AbTestCardProps) {
+  const approvedTemplates = templates.filter((t) => t.status === "approved");
+  const enabled = variants.length > 0;
+
+  const updateVariant = (index: number, changes: Partial<CampaignVariantInput>) => {
+    onVariantsChange((current) =>
+      current.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    );
+  };
+
+  const toggle = (checked: boolean) => {
+    onVariantsChange(checked ? [{ templateId: "" }] : []);
+    if (!checked) onAbTestChange(null);
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Teste A/B
+          </div>
+          <Switch checked={enabled} onCheckedChange={toggle} />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!enabled ? (
+          <p className="text-sm text-muted-foreground">
+            Divida o público entre até 4 mensagens e compare entrega, leitura e respostas.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              A variante A é a mensagem escolhida acima.
+            </p>
+
+            {variants.map((variant, index) => {
+              const template = approvedTemplates.find((t) => t.id === variant.templateId);
+              return (
+                <div key={LABELS[index]} className="space-y-4">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label>Variante {LABELS[index]}</Label>
+                      <Select
+                        value={variant.templateId}
+                        onValueChange={(value) => updateVariant(index, { templateId: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Escolha uma mensagem" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {approvedTemplates.map((t) => (
+                            <SelectItem key={t.id} value={t.id}>
+                              {t.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {variants.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onVariantsChange((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                  {template && (
+                    <TemplateVariablesCard
+                      wabaAccountId={wabaAccountId}
+                      template={template}
+                      contactNumbers={contactNumbers}
+                      contactListIds={contactListIds}
+                      variables={variant.variables ?? []}
+                      onChange={(variables) => updateVariant(index, { variables })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {variants.length < LABELS.length && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onVariantsChange((current) => [...current, { templateId: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar variante
+              </Button>
+            )}
+
+            <div className="border-t pt-4 space-y-4">
+              <label className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">Testar com parte do público primeiro</span>
+                  <span className="block text-xs text-muted-foreground">
+                    O restante recebe a variante vencedora depois da espera
+                  </span>
+                </span>
+                <Switch
+                  checked={!!abTest}
+                  onCheckedChange={(checked) => onAbTestChange(checked ? DEFAULT_AB_TEST : null)}
+                />
+              </label>
+
+              {abTest && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="testPercentage">Público do teste (%)</Label>
+                    <Input
+                      id="testPercentage"
+                      type="number"
+                      min={5}
+                      max={50}
+                      value={abTest.testPercentage}
+                      onChange={(e) => onAbTestChange({ ...abTest, testPercentage: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="waitHours">Espera (horas)</Label>
+                    <Input
+                      id="waitHours"
+                      type="number"
+                      min={1}
+                      max={72}
+                      value={abTest.waitHours}
+                      onChange={(e) => onAbTestChange({ ...abTest, waitHours: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Vencedora por</Label>
+                    <Select
+                      value={abTest.metric}
+                      onValueChange={(value) => onAbTestChange({ ...abTest, metric: value as AbTestMetric })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {METRICS.map((metric) => (
+                          <SelectItem key={metric.value} value={metric.value}>
+                            {metric.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2, ShieldCheck, TestTube } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/lib/api";
+import type { CampaignInput, CampaignRecipientIssue, CampaignValidation } from "@/lib/types";
+
+interface CampaignCheckCardProps {
+  wabaAccountId: string;
+  // Throws when the form is not ready to be sent
+  getInput: () => CampaignInput;
+}
+
+const MAX_TEST_NUMBERS = 5;
+
+// Recipients listed in the report; the counts cover everybody
+const MAX_LISTED = 50;
+
+const ISSUE_LABELS: Record<CampaignRecipientIssue, string> = {
+  invalid_number: "Número inválido",
+  duplicate: "Duplicado",
+  opted_out: "Descadastrado",
+  missing_variables: "Variáveis vazias",
+  over_capacity: "Acima do limite diário",
+};
+
+const ValidationReport = ({ report }: { report: CampaignValidation }) => {
+  const withIssues = report.recipients.filter((recipient) => recipient.issues.length > 0);
+  const counts: [string, number][] = [
+    ["Números inválidos", report.invalidCount],
+    ["Duplicados", report.duplicateCount],
+    ["Descadastrados", report.optedOutCount],
+    ["Com variáveis vazias", report.missingVariablesCount],
+    ["Aguardarão o limite diário", report.overCapacityCount],
+  ];
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">Destinatários válidos</span>
+        <span className="font-medium">{report.recipientCount.toLocaleString()}</span>
+      </div>
+      {counts
+        .filter(([, count]) => count > 0)
+        .map(([label, count]) => (
+          <div key={label} className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-medium text-warning">{count.toLocaleString()}</span>
+          </div>
+        ))}
+
+      {report.errors.length > 0 && (
+        <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+          {report.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {withIssues.length === 0 && report.errors.length === 0 ? (
+        <p className="text-sm text-success flex items-center gap-2">
+          <CheckCircle2 className="h-4 w-4" />
+          Todos os destinatários estão prontos para o envio.
+        </p>
+      ) : (
+        <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+          {withIssues.slice(0, MAX_LISTED).map((recipient, index) => (
+            <div key={`${recipient.input}-${index}`} className="p-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono">{recipient.phoneNumber ?? recipient.input}</span>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {recipient.issues.map((issue) => (
+                    <Badge key={issue} variant="outline" className="text-xs">
+                      {ISSUE_LABELS[issue]}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {recipient.missingVariables.length > 0 && (
+                <p className="text-xs text-muted-foreground">{recipient.missingVariables.join(", ")}</p>
+              )}
+            </div>
+          ))}
+          {withIssues.length > MAX_LISTED && (
+            <p className="p-2 text-xs text-muted-foreground">
+              e mais {(withIssues.length - MAX_LISTED).toLocaleString()} destinatários
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export function CampaignCheckCard({ wabaAccountId, getInput }: CampaignCheckCardProps) {
+  const [testNumbers, setTestNumbers] = useState("");
+  const [report, setReport] = useState<CampaignValidation | null>(null);
+
+  const numbers = testNumbers
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const validateMutation = useMutation({
+    mutationFn: () => api.validateCampaign(wabaAccountId, getInput()),
+    onSuccess: setReport,
+    onError: (error: Error) => {
+      toast.error(error.message || "Não foi possível validar a campanha");
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => {
+      if (numbers.length === 0) throw new Error("Informe ao menos um número de teste");
+      if (numbers.length > MAX_TEST_NUMBERS) {
+        throw new Error(`Use no máximo ${MAX_TEST_NUMBERS} números de teste`);
+      }
+      return api.sendCampaignTest(wabaAccountId, getInput(), numbers);
+    },
+    onSuccess: (result) => {
+      const skipped = result.recipients.filter((recipient) => recipient.issues.length > 0);
+      if (skipped.length > 0) {
+        toast.warning(
+          `Teste enviado. Não recebem: ${skipped
+            .map((recipient) => `${recipient.input} (${recipient.issues.map((issue) => ISSUE_LABELS[issue]).join(", ")})`)
+            .join("; ")}`
+        );
+      } else {
+        toast.success("Teste enviado aos números informados");
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Não foi possível enviar o teste");
+    },
+  });
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Testar antes de Enviar
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="testNumbers">Números de Teste</Label>
+          <Textarea
+            id="testNumbers"
+            placeholder={"Até 5 números da equipe (um por linha)\n5511999999999"}
+            rows={3}
+            value={testNumbers}
+            onChange={(e) => setTestNumbers(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Recebem a mensagem exata da campanha, com os dados do primeiro contato da lista
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => validateMutation.mutate()}
+            disabled={validateMutation.isPending}
+          >
+            {validateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 mr-2" />
+            )}
+            Validar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending || numbers.length === 0}
+          >
+            {testMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <TestTube className="h-4 w-4 mr-2" />
+            )}
+            Enviar teste
+          </Button>
+        </div>
+
+        {report && <ValidationReport report={report} />}
+      </CardContent>
+    </Card>
+  );
+}
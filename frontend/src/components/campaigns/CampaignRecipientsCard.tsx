@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, Download, Loader2, Search, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/lib/api";
+import type {
+  CampaignJobFilter,
+  CampaignJobFilters,
+  CampaignJobReport,
+  CampaignReportFormat,
+  PaginatedResponse,
+} from "@/lib/types";
+
+interface CampaignRecipientsCardProps {
+  campaignId: string;
+  jobs: PaginatedResponse<CampaignJobReport>;
+  filters: CampaignJobFilters;
+  onFiltersChange: (filters: CampaignJobFilters) => void;
+}
+
+const STATUS_FILTERS: { value: CampaignJobFilter; label: string }[] = [
+  { value: "pending", label: "Na fila" },
+  { value: "held", label: "Aguardando vencedora" },
+  { value: "sent", label: "Enviadas" },
+  { value: "delivered", label: "Entregues" },
+  { value: "read", label: "Lidas" },
+  { value: "failed", label: "Falhas" },
+  { value: "skipped", label: "Ignoradas" },
+  { value: "cancelled", label: "Canceladas" },
+];
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  pending: "Na fila",
+  held: "Aguardando",
+  sent: "Enviada",
+  failed: "Falhou",
+  skipped: "Ignorada",
+  cancelled: "Cancelada",
+};
+
+// Webhook statuses go further than the send itself
+const getJobStatus = (job: CampaignJobReport) => {
+  if (job.deliveryStatus === "failed") return { label: "Não entregue", className: "text-destructive" };
+  if (job.readAt) return { label: "Lida", className: "text-info" };
+  if (job.deliveredAt) return { label: "Entregue", className: "text-success" };
+  if (job.status === "failed") return { label: "Falhou", className: "text-destructive" };
+  return { label: JOB_STATUS_LABELS[job.status] ?? job.status, className: "" };
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "—");
+
+export function CampaignRecipientsCard({ campaignId, jobs, filters, onFiltersChange }: CampaignRecipientsCardProps) {
+  const [exporting, setExporting] = useState<CampaignReportFormat | null>(null);
+  const { page, totalPages, total } = jobs.pagination;
+
+  // Any filter change starts over from the first page
+  const updateFilters = (changes: CampaignJobFilters) => onFiltersChange({ ...filters, ...changes, page: 1 });
+
+  const handleExport = async (format: CampaignReportFormat) => {
+    setExporting(format);
+    try {
+      const blob = await api.downloadCampaignReport(campaignId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `campanha-${campaignId}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error((error as Error).message || "Não foi possível exportar o relatório");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Destinatários
+          </div>
+          <div className="flex gap-2">
+            {(["csv", "xlsx"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+              >
+                {exporting === format ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-1" />
+                )}
+                {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar número..."
+              value={filters.search ?? ""}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={filters.status ?? "all"}
+            onValueChange={(value) =>
+              updateFilters({ status: value === "all" ? undefined : (value as CampaignJobFilter) })
+            }
+          >
+            <SelectTrigger className="md:w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              {STATUS_FILTERS.map((status) => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.replied === undefined ? "all" : String(filters.replied)}
+            onValueChange={(value) => updateFilters({ replied: value === "all" ? undefined : value === "true" })}
+          >
+            <SelectTrigger className="md:w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Com e sem resposta</SelectItem>
+              <SelectItem value="true">Responderam</SelectItem>
+              <SelectItem value="false">Não responderam</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Número</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Erro</TableHead>
+              <TableHead>Entregue em</TableHead>
+              <TableHead>Lida em</TableHead>
+              <TableHead>Resposta</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.data.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                  Nenhum destinatário encontrado
+                </TableCell>
+              </TableRow>
+            ) : (
+              jobs.data.map((job) => {
+                const status = getJobStatus(job);
+                return (
+                  <TableRow key={job.id}>
+                    <TableCell>
+                      <p className="font-medium">{job.phoneNumber}</p>
+                      {(job.name || job.variant) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[job.name, job.variant && `Variante ${job.variant}`].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className={status.className}>{status.label}</TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground" title={job.error ?? undefined}>
+                      {job.error ?? "—"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(job.deliveredAt)}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(job.readAt)}</TableCell>
+                    <TableCell>
+                      {job.replied ? <Badge variant="outline">Respondeu</Badge> : <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{total.toLocaleString()} destinatários</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onFiltersChange({ ...filters, page: page - 1 })}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Página {page} de {Math.max(totalPages, 1)}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onFiltersChange({ ...filters, page: page + 1 })}
+              disabled={page >= totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
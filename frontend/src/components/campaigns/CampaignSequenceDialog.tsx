@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateVariablesCard } from "@/components/campaigns/TemplateVariablesCard";
+import { api } from "@/lib/api";
+import type { CampaignVariable, ContactList, Template } from "@/lib/types";
+
+interface CampaignSequenceDialogProps {
+  wabaAccountId: string;
+  shopId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface StepDraft {
+  templateId: string;
+  variables: CampaignVariable[];
+  // Days after the sequence starts
+  delayDays: number;
+}
+
+const NO_NUMBERS: string[] = [];
+
+const MAX_STEPS = 10;
+
+const FIRST_STEP: StepDraft = { templateId: "", variables: [], delayDays: 0 };
+
+export function CampaignSequenceDialog({ wabaAccountId, shopId, open, onOpenChange }: CampaignSequenceDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [listId, setListId] = useState("");
+  const [exitOnReply, setExitOnReply] = useState(true);
+  const [steps, setSteps] = useState<StepDraft[]>([FIRST_STEP]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setListId("");
+    setExitOnReply(true);
+    setSteps([FIRST_STEP]);
+  }, [open]);
+
+  const { data: contactLists = [] } = useQuery<ContactList[]>({
+    queryKey: ["contact-lists", shopId],
+    queryFn: () => api.getContactLists(shopId),
+    enabled: open,
+  });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["templates", wabaAccountId],
+    queryFn: () => api.getTemplates(wabaAccountId),
+    enabled: open,
+  });
+
+  const approvedTemplates = templates.filter((t) => t.status === "approved");
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) =>
+    setSteps((current) => current.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  // Each step must come after the previous one
+  const validDelays = steps.every((step, i) => i === 0 || step.delayDays > steps[i - 1].delayDays);
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createCampaignSequence(wabaAccountId, {
+        name: name.trim(),
+        contactListIds: [listId],
+        exitOnReply,
+        steps: steps.map((step) => ({
+          templateId: step.templateId,
+          variables: step.variables,
+          delayHours: step.delayDays * 24,
+        })),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-sequences", wabaAccountId] });
+      toast.success("Sequência criada. Inicie quando quiser começar os envios.");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao criar sequência"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova sequência</DialogTitle>
+          <DialogDescription>
+            Cada etapa vira uma campanha. As etapas seguintes vão para quem recebeu a primeira, exceto quem saiu.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="sequenceName">Nome</Label>
+            <Input
+              id="sequenceName"
+              placeholder="Ex: Boas-vindas"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lista de contatos</Label>
+            <Select value={listId} onValueChange={setListId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione uma lista" />
+              </SelectTrigger>
+              <SelectContent>
+                {contactLists.map((list) => (
+                  <SelectItem key={list.id} value={list.id}>
+                    {list.name} ({list.memberCount.toLocaleString()} contatos)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <label className="flex items-center justify-between text-sm">
+            <span>
+              <span className="font-medium">Sair da sequência ao responder</span>
+              <span className="block text-xs text-muted-foreground">
+                Descadastrados nunca recebem as próximas etapas
+              </span>
+            </span>
+            <Switch checked={exitOnReply} onCheckedChange={setExitOnReply} />
+          </label>
+
+          {steps.map((step, index) => {
+            const template = approvedTemplates.find((t) => t.id === step.templateId);
+            return (
+              <div key={index} className="space-y-4 border-t pt-4">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label>Etapa {index + 1}</Label>
+                    <Select
+                      value={step.templateId}
+                      onValueChange={(value) => updateStep(index, { templateId: value, variables: [] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Escolha uma mensagem" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {approvedTemplates.map((t) => (
+                          <SelectItem key={t.id} value={t.id}>
+                            {t.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-32 space-y-1">
+                    <Label htmlFor={`delay-${index}`}>Após (dias)</Label>
+                    <Input
+                      id={`delay-${index}`}
+                      type="number"
+                      min={0}
+                      value={step.delayDays}
+                      onChange={(e) => updateStep(index, { delayDays: Number(e.target.value) })}
+                    />
+                  </div>
+                  {steps.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+                {template && (
+                  <TemplateVariablesCard
+                    wabaAccountId={wabaAccountId}
+                    template={template}
+                    contactNumbers={NO_NUMBERS}
+                    contactListIds={listId ? [listId] : NO_NUMBERS}
+                    variables={step.variables}
+                    onChange={(variables) => updateStep(index, { variables })}
+                    showPreview={false}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {!validDelays && (
+            <p className="text-sm text-destructive">Cada etapa deve vir depois da anterior.</p>
+          )}
+
+          {steps.length < MAX_STEPS && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setSteps((current) => [
+                  ...current,
+                  { templateId: "", variables: [], delayDays: current[current.length - 1].delayDays + 1 },
+                ])
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar etapa
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Voltar
+          </Button>
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => createMutation.mutate()}
+            disabled={
+              !name.trim() ||
+              !listId ||
+              !validDelays ||
+              steps.some((step) => !step.templateId) ||
+              createMutation.isPending
+            }
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Criar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import type { ContactImportPreview, ContactImportReport, ContactList } from "@/lib/types";
+
+interface ContactListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: string;
+  onCreated?: (list: ContactList) => void;
+}
+
+// Radix Select does not accept an empty value
+const NO_COLUMN = "__none__";
+
+const ERROR_LABELS: Record<ContactImportReport["errors"][number]["reason"], string> = {
+  invalid_number: "Número inválido",
+  duplicate: "Duplicado no arquivo",
+};
+
+export function ContactListDialog({ open, onOpenChange, shopId, onCreated }: ContactListDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [numbers, setNumbers] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ContactImportPreview | null>(null);
+  const [phoneColumn, setPhoneColumn] = useState("");
+  const [nameColumn, setNameColumn] = useState(NO_COLUMN);
+  // Column -> custom field key, blank columns are not imported
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<ContactImportReport | null>(null);
+
+  const reset = () => {
+    setName("");
+    setNumbers("");
+    setFile(null);
+    setPreview(null);
+    setPhoneColumn("");
+    setNameColumn(NO_COLUMN);
+    setVariables({});
+    setReport(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => api.previewContactImport(shopId, selected),
+    onSuccess: (data) => {
+      setPreview(data);
+      setPhoneColumn(data.suggestedMapping.phone ?? "");
+      setNameColumn(data.suggestedMapping.name ?? NO_COLUMN);
+      setVariables({});
+    },
+    onError: (error: Error) => {
+      setFile(null);
+      toast.error(error.message || "Não foi possível ler o arquivo");
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const pasted = numbers
+        .split("\n")
+        .map((n) => n.trim())
+        .filter(Boolean);
+      const list = await api.createContactList(shopId, name.trim(), pasted);
+      if (!file) return { list, report: list.report };
+
+      const fileReport = await api.importContactList(list.id, file, {
+        phone: phoneColumn,
+        name: nameColumn === NO_COLUMN ? undefined : nameColumn,
+        variables: Object.fromEntries(
+          Object.entries(variables)
+            .map(([column, key]) => [column, key.trim()])
+            .filter(([, key]) => key),
+        ),
+      });
+      return { list, report: mergeReports(list.report, fileReport) };
+    },
+    onSuccess: ({ list, report }) => {
+      queryClient.invalidateQueries({ queryKey: ["contact-lists", shopId] });
+      queryClient.invalidateQueries({ queryKey: ["contacts", shopId] });
+      setReport(report);
+      onCreated?.({ ...list, memberCount: report.imported });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao criar lista");
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    setPreview(null);
+    previewMutation.mutate(selected);
+  };
+
+  const canSave =
+    !!name.trim() &&
+    (!!numbers.trim() || (!!file && !!preview && !!phoneColumn)) &&
+    !previewMutation.isPending &&
+    !saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Criar Lista de Contatos</DialogTitle>
+          <DialogDescription>
+            Importe uma planilha CSV/XLSX ou cole os números. Duplicados e números inválidos são ignorados.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-5 w-5 text-[#25D366]" />
+              {report.imported.toLocaleString()} contatos adicionados de {report.totalRows.toLocaleString()} linhas
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="p-3 rounded-lg bg-muted/30">
+                <p className="font-bold">{report.alreadyInList}</p>
+                <p className="text-xs text-muted-foreground">Já na lista</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/30">
+                <p className="font-bold">{report.invalid}</p>
+                <p className="text-xs text-muted-foreground">Inválidos</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/30">
+                <p className="font-bold">{report.duplicates}</p>
+                <p className="text-xs text-muted-foreground">Duplicados</p>
+              </div>
+            </div>
+            {report.errors.length > 0 && (
+              <div className="border rounded-lg divide-y max-h-48 overflow-y-auto text-sm">
+                {report.errors.map((error, index) => (
+                  <div key={index} className="flex items-center justify-between px-3 py-2">
+                    <span className="text-muted-foreground">
+                      {error.row ? `Linha ${error.row}: ` : ""}
+                      {error.value || "(vazio)"}
+                    </span>
+                    <span className="text-xs text-destructive">{ERROR_LABELS[error.reason]}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Concluir</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="listName">Nome da Lista</Label>
+              <Input
+                id="listName"
+                placeholder="Ex: Clientes Premium"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Importar CSV/XLSX</Label>
+              <div className="relative">
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={handleFileChange}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <Button variant="outline" className="w-full">
+                  {previewMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 mr-2" />
+                  )}
+                  {file ? file.name : "Selecionar arquivo"}
+                </Button>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="space-y-3 p-3 border rounded-lg">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Coluna do telefone</Label>
+                    <Select value={phoneColumn} onValueChange={setPhoneColumn}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Escolha a coluna" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {preview.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Coluna do nome</Label>
+                    <Select value={nameColumn} onValueChange={setNameColumn}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Não importar</SelectItem>
+                        {preview.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {preview.headers.some((h) => h !== phoneColumn && h !== nameColumn) && (
+                  <div className="space-y-2">
+                    <Label>Outras colunas como variáveis</Label>
+                    {preview.headers
+                      .filter((header) => header !== phoneColumn && header !== nameColumn)
+                      .map((header) => (
+                        <div key={header} className="flex items-center gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{header}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {preview.sampleRows[0]?.[header] || "-"}
+                            </p>
+                          </div>
+                          <Input
+                            className="w-48"
+                            placeholder="Nome da variável"
+                            value={variables[header] ?? ""}
+                            onChange={(e) => setVariables({ ...variables, [header]: e.target.value })}
+                          />
+                        </div>
+                      ))}
+                    <p className="text-xs text-muted-foreground">
+                      Deixe em branco para ignorar a coluna
+                    </p>
+                  </div>
+                )}
+
+                {!phoneColumn && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertCircle className="h-3 w-3" />
+                    Escolha a coluna com os números de telefone
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="listContacts">Ou cole os números</Label>
+              <Textarea
+                id="listContacts"
+                placeholder="Cole os números aqui (um por linha)&#10;5511999999999&#10;5511888888888"
+                rows={5}
+                value={numbers}
+                onChange={(e) => setNumbers(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button
+                className="bg-[#25D366] hover:bg-[#25D366]/90"
+                onClick={() => saveMutation.mutate()}
+                disabled={!canSave}
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Salvar Lista
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Pasted numbers and the file are imported separately but reported together
+const mergeReports = (a: ContactImportReport, b: ContactImportReport): ContactImportReport => ({
+  totalRows: a.totalRows + b.totalRows,
+  imported: a.imported + b.imported,
+  alreadyInList: a.alreadyInList + b.alreadyInList,
+  invalid: a.invalid + b.invalid,
+  duplicates: a.duplicates + b.duplicates,
+  errors: [...a.errors, ...b.errors],
+});
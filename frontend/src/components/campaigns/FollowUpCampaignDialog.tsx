@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateVariablesCard } from "@/components/campaigns/TemplateVariablesCard";
+import { api } from "@/lib/api";
+import type { Campaign, CampaignFollowUpType, CampaignVariable, Template } from "@/lib/types";
+
+interface FollowUpCampaignDialogProps {
+  campaign: Campaign | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Follow-up recipients are picked on the server
+const NO_NUMBERS: string[] = [];
+
+const FOLLOW_UP_TYPES: { value: CampaignFollowUpType; label: string; description: string }[] = [
+  {
+    value: "retry_failed",
+    label: "Reenviar falhas",
+    description: "Números que falharam por erros temporários (limite de envio, instabilidade)",
+  },
+  {
+    value: "not_read",
+    label: "Entregues e não lidas",
+    description: "Quem recebeu a mensagem mas ainda não abriu",
+  },
+  {
+    value: "no_reply",
+    label: "Lidas sem resposta",
+    description: "Quem leu a mensagem e não respondeu",
+  },
+];
+
+export function FollowUpCampaignDialog({ campaign, onOpenChange }: FollowUpCampaignDialogProps) {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<CampaignFollowUpType>("retry_failed");
+  const [templateId, setTemplateId] = useState("");
+  const [variables, setVariables] = useState<CampaignVariable[]>([]);
+
+  useEffect(() => {
+    setType("retry_failed");
+    setTemplateId(campaign?.templateId ?? "");
+  }, [campaign]);
+
+  const { data: audiences, isLoading } = useQuery({
+    queryKey: ["campaign-follow-ups", campaign?.id],
+    queryFn: () => api.getCampaignFollowUps(campaign!.id),
+    enabled: !!campaign,
+  });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["templates", campaign?.wabaAccountId],
+    queryFn: () => api.getTemplates(campaign!.wabaAccountId),
+    enabled: !!campaign,
+  });
+
+  const approvedTemplates = templates.filter((t) => t.status === "approved");
+  const selectedTemplate = approvedTemplates.find((t) => t.id === templateId);
+  // The original template keeps the campaign's variable mapping on the server
+  const changedTemplate = !!selectedTemplate && templateId !== campaign?.templateId;
+
+  const followUpMutation = useMutation({
+    mutationFn: () =>
+      api.createCampaignFollowUp(campaign!.id, {
+        type,
+        ...(changedTemplate && { templateId, variables }),
+      }),
+    onSuccess: (followUp) => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", followUp.wabaAccountId] });
+      toast.success(`Campanha criada para ${followUp.contactCount.toLocaleString()} destinatários`);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao criar campanha"),
+  });
+
+  const count = audiences?.[type] ?? 0;
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova campanha a partir desta</DialogTitle>
+          <DialogDescription>
+            Os resultados aparecem somados no relatório da campanha original.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <RadioGroup
+            value={type}
+            onValueChange={(value) => setType(value as CampaignFollowUpType)}
+            className="space-y-3"
+          >
+            {FOLLOW_UP_TYPES.map((option) => (
+              <div key={option.value} className="flex items-start space-x-3">
+                <RadioGroupItem value={option.value} id={option.value} className="mt-1" />
+                <Label htmlFor={option.value} className="font-normal">
+                  <span className="font-medium">
+                    {option.label} ({isLoading ? "…" : (audiences?.[option.value] ?? 0).toLocaleString()})
+                  </span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione um template" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvedTemplates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                    {template.id === campaign?.templateId && " (original)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {changedTemplate && campaign && (
+            <TemplateVariablesCard
+              wabaAccountId={campaign.wabaAccountId}
+              template={selectedTemplate}
+              contactNumbers={NO_NUMBERS}
+              contactListIds={NO_NUMBERS}
+              variables={variables}
+              onChange={setVariables}
+              showPreview={false}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Voltar
+          </Button>
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => followUpMutation.mutate()}
+            disabled={!count || !templateId || followUpMutation.isPending}
+          >
+            {followUpMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enviar para {count.toLocaleString()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
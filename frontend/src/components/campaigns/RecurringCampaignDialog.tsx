@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateVariablesCard } from "@/components/campaigns/TemplateVariablesCard";
+import { api } from "@/lib/api";
+import type { CampaignVariable, ContactList, Template } from "@/lib/types";
+
+interface RecurringCampaignDialogProps {
+  wabaAccountId: string;
+  shopId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_NUMBERS: string[] = [];
+
+// Common schedules; anything else is typed as a cron expression
+const SCHEDULE_PRESETS: { value: string; label: string }[] = [
+  { value: "0 9 * * *", label: "Todos os dias às 9h" },
+  { value: "0 9 * * 1", label: "Toda segunda-feira às 9h" },
+  { value: "0 9 * * 1-5", label: "Dias úteis às 9h" },
+  { value: "0 9 1 * *", label: "Todo dia 1º do mês às 9h" },
+];
+
+const CUSTOM = "custom";
+
+export function RecurringCampaignDialog({ wabaAccountId, shopId, open, onOpenChange }: RecurringCampaignDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [preset, setPreset] = useState(SCHEDULE_PRESETS[0].value);
+  const [cron, setCron] = useState("");
+  const [listId, setListId] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [variables, setVariables] = useState<CampaignVariable[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setPreset(SCHEDULE_PRESETS[0].value);
+    setCron("");
+    setListId("");
+    setTemplateId("");
+    setVariables([]);
+  }, [open]);
+
+  const { data: contactLists = [] } = useQuery<ContactList[]>({
+    queryKey: ["contact-lists", shopId],
+    queryFn: () => api.getContactLists(shopId),
+    enabled: open,
+  });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["templates", wabaAccountId],
+    queryFn: () => api.getTemplates(wabaAccountId),
+    enabled: open,
+  });
+
+  const approvedTemplates = templates.filter((t) => t.status === "approved");
+  const selectedTemplate = approvedTemplates.find((t) => t.id === templateId);
+  const schedule = preset === CUSTOM ? cron.trim() : preset;
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createRecurringCampaign(wabaAccountId, {
+        name: name.trim(),
+        templateId,
+        variables,
+        contactListIds: [listId],
+        cron: schedule,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-campaigns", wabaAccountId] });
+      toast.success("Campanha recorrente criada");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao criar campanha recorrente"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova campanha recorrente</DialogTitle>
+          <DialogDescription>
+            A cada execução a lista é lida de novo e uma campanha é criada com seu próprio relatório.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="recurringName">Nome</Label>
+            <Input
+              id="recurringName"
+              placeholder="Ex: Ofertas da semana"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Frequência</Label>
+            <Select value={preset} onValueChange={setPreset}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULE_PRESETS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM}>Personalizada (cron)</SelectItem>
+              </SelectContent>
+            </Select>
+            {preset === CUSTOM && (
+              <Input
+                placeholder="minuto hora dia mês dia-da-semana, ex: 30 18 * * 5"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className="font-mono"
+              />
+            )}
+            <p className="text-xs text-muted-foreground">Horários no fuso da loja</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lista de contatos</Label>
+            <Select value={listId} onValueChange={setListId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione uma lista" />
+              </SelectTrigger>
+              <SelectContent>
+                {contactLists.map((list) => (
+                  <SelectItem key={list.id} value={list.id}>
+                    {list.name} ({list.memberCount.toLocaleString()} contatos)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione um template" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvedTemplates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedTemplate && (
+            <TemplateVariablesCard
+              wabaAccountId={wabaAccountId}
+              template={selectedTemplate}
+              contactNumbers={NO_NUMBERS}
+              contactListIds={listId ? [listId] : NO_NUMBERS}
+              variables={variables}
+              onChange={setVariables}
+              showPreview={false}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Voltar
+          </Button>
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || !schedule || !listId || !templateId || createMutation.isPending}
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Criar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
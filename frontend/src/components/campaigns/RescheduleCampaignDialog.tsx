@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/lib/api";
+import { DEFAULT_TIMEZONE, toZonedInputValue } from "@/lib/timezone";
+import type { Campaign } from "@/lib/types";
+
+interface RescheduleCampaignDialogProps {
+  campaign: Campaign | null;
+  onOpenChange: (open: boolean) => void;
+  timeZone?: string;
+}
+
+export function RescheduleCampaignDialog({
+  campaign,
+  onOpenChange,
+  timeZone = DEFAULT_TIMEZONE,
+}: RescheduleCampaignDialogProps) {
+  const queryClient = useQueryClient();
+  const [scheduledAt, setScheduledAt] = useState("");
+
+  useEffect(() => {
+    setScheduledAt(campaign?.scheduledAt ? toZonedInputValue(campaign.scheduledAt, timeZone) : "");
+  }, [campaign, timeZone]);
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => api.rescheduleCampaign(campaign!.id, scheduledAt),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", updated.wabaAccountId] });
+      toast.success("Campanha reagendada");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao reagendar campanha"),
+  });
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reagendar campanha</DialogTitle>
+          <DialogDescription>Horário de {timeZone}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="rescheduleDate">Data e Hora</Label>
+          <Input
+            id="rescheduleDate"
+            type="datetime-local"
+            value={scheduledAt}
+            onChange={(e) => setScheduledAt(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Voltar
+          </Button>
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => rescheduleMutation.mutate()}
+            disabled={!scheduledAt || rescheduleMutation.isPending}
+          >
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
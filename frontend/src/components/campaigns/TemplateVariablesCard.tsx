@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertCircle, Braces, Eye, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import type { CampaignVariable, CampaignVariableSource, Template } from "@/lib/types";
+
+interface TemplateVariablesCardProps {
+  wabaAccountId: string;
+  template: Template;
+  contactNumbers: string[];
+  contactListIds: string[];
+  variables: CampaignVariable[];
+  onChange: (variables: CampaignVariable[]) => void;
+  // Off when the recipients are only known to the server (follow-ups)
+  showPreview?: boolean;
+}
+
+type TemplateDefinition = Array<{ type: string; format?: string; text?: string }>;
+
+const SOURCES: { value: CampaignVariableSource; label: string }[] = [
+  { value: "name", label: "Nome do contato" },
+  { value: "phone", label: "Telefone" },
+  { value: "field", label: "Campo personalizado / coluna da planilha" },
+  { value: "text", label: "Texto fixo" },
+];
+
+// Distinct {{n}} placeholders, in order of first appearance
+const getPlaceholders = (text?: string): string[] =>
+  Array.from(new Set((text?.match(/{{\s*\w+\s*}}/g) || []).map((m) => m.replace(/[{}\s]/g, ""))));
+
+// Text placeholders of the header and body, the ones the backend lets campaigns map
+const getTemplateVariables = (template: Template): CampaignVariable[] => {
+  const components: TemplateDefinition = template.history?.components || [];
+  const header = components.find((c) => c.type === "HEADER");
+  const headerKeys = header && (header.format || "TEXT") === "TEXT" ? getPlaceholders(header.text) : [];
+  const bodyKeys = getPlaceholders(components.find((c) => c.type === "BODY")?.text);
+
+  return [
+    ...headerKeys.map((key) => ({ component: "header" as const, key, source: "name" as const })),
+    ...bodyKeys.map((key) => ({ component: "body" as const, key, source: "name" as const })),
+  ];
+};
+
+const signature = (variables: CampaignVariable[]) =>
+  variables.map((variable) => `${variable.component}.${variable.key}`).join(",");
+
+export function TemplateVariablesCard({
+  wabaAccountId,
+  template,
+  contactNumbers,
+  contactListIds,
+  variables,
+  onChange,
+  showPreview = true,
+}: TemplateVariablesCardProps) {
+  const defaults = useMemo(() => getTemplateVariables(template), [template]);
+
+  // A template with other placeholders resets the mapping; refetches of the same one keep it
+  useEffect(() => {
+    if (signature(variables) !== signature(defaults)) {
+      onChange(defaults);
+    }
+  }, [defaults, variables, onChange]);
+
+  // Typing in the mapping should not fire a preview request per keystroke
+  const [debounced, setDebounced] = useState({ variables, contactNumbers, contactListIds });
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced({ variables, contactNumbers, contactListIds }), 500);
+    return () => clearTimeout(timeout);
+  }, [variables, contactNumbers, contactListIds]);
+
+  const hasRecipients = debounced.contactNumbers.length > 0 || debounced.contactListIds.length > 0;
+
+  const { data: preview, isFetching, error } = useQuery({
+    queryKey: ["campaign-preview", wabaAccountId, template.id, debounced],
+    queryFn: () =>
+      api.previewCampaign(wabaAccountId, {
+        templateId: template.id,
+        contactNumbers: debounced.contactNumbers,
+        contactListIds: debounced.contactListIds,
+        variables: debounced.variables,
+      }),
+    enabled: showPreview && hasRecipients,
+    retry: false,
+  });
+
+  const updateVariable = (index: number, changes: Partial<CampaignVariable>) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Braces className="h-5 w-5" />
+          Variáveis do Template
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {variables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Este template não tem variáveis.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Colunas importadas de planilhas ficam disponíveis como campos personalizados dos contatos.
+            </p>
+            {variables.map((variable, index) => (
+              <div key={`${variable.component}-${variable.key}`} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>
+                    {`{{${variable.key}}}`} {variable.component === "header" ? "(cabeçalho)" : "(corpo)"}
+                  </Label>
+                  <Select
+                    value={variable.source}
+                    onValueChange={(value) =>
+                      updateVariable(index, { source: value as CampaignVariableSource, value: "" })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SOURCES.map((source) => (
+                        <SelectItem key={source.value} value={source.value}>
+                          {source.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {(variable.source === "field" || variable.source === "text") && (
+                  <div className="space-y-1">
+                    <Label>{variable.source === "field" ? "Nome do campo" : "Texto"}</Label>
+                    <Input
+                      placeholder={variable.source === "field" ? "ex: cupom" : ""}
+                      value={variable.value ?? ""}
+                      onChange={(e) => updateVariable(index, { value: e.target.value })}
+                    />
+                  </div>
+                )}
+                {variable.source !== "text" && (
+                  <div className="space-y-1">
+                    <Label>Valor padrão (se vazio)</Label>
+                    <Input
+                      placeholder="ex: cliente"
+                      value={variable.fallback ?? ""}
+                      onChange={(e) => updateVariable(index, { fallback: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showPreview && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Eye className="h-4 w-4" />
+              Pré-visualização
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </p>
+            {!hasRecipients ? (
+              <p className="text-sm text-muted-foreground">
+                Adicione contatos para ver a mensagem de um destinatário.
+              </p>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (
+              preview && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Para {preview.recipient.name || preview.recipient.phoneNumber} (1 de{" "}
+                    {preview.recipientCount.toLocaleString()})
+                  </p>
+                  <div className="rounded-lg bg-muted/50 p-4 text-sm space-y-2 whitespace-pre-wrap">
+                    {preview.header && <p className="font-semibold">{preview.header}</p>}
+                    {preview.body && <p>{preview.body}</p>}
+                    {preview.footer && <p className="text-xs text-muted-foreground">{preview.footer}</p>}
+                  </div>
+                  {preview.errors.length > 0 && (
+                    <div className="space-y-1">
+                      {preview.errors.map((message) => (
+                        <p key={message} className="text-sm text-destructive flex items-start gap-2">
+                          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                          {message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { UserCheck, UserMinus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import type { Conversation, Shop } from "@/lib/types";
+
+interface ConversationAssignmentProps {
+  conversation: Conversation;
+  shop: Shop;
+  onChanged: () => void;
+}
+
+export function ConversationAssignment({ conversation, shop, onChanged }: ConversationAssignmentProps) {
+  const { user } = useAuth();
+  const assignee = conversation.assignedTo;
+  const canReassign =
+    !!assignee && (assignee.id === user?.id || shop.role === "owner" || shop.role === "admin");
+
+  const { data } = useQuery({
+    queryKey: ["shop-members", shop.id],
+    queryFn: () => api.getShopMembers(shop.id),
+  });
+
+  // Viewers can read the inbox but cannot take conversations
+  const agents = (data?.members ?? []).filter(
+    (m) => m.role !== "viewer" && m.userId !== assignee?.id,
+  );
+
+  const mutation = useMutation({
+    mutationFn: (action: { type: "assign" | "transfer" | "unassign"; userId?: string }) => {
+      switch (action.type) {
+        case "assign":
+          return api.assignConversation(conversation.id, action.userId);
+        case "transfer":
+          return api.transferConversation(conversation.id, action.userId!);
+        default:
+          return api.unassignConversation(conversation.id);
+      }
+    },
+    onSuccess: onChanged,
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao atribuir conversa");
+    },
+  });
+
+  if (shop.role === "viewer") {
+    return assignee ? (
+      <span className="text-sm text-muted-foreground">Atribuída a {assignee.email}</span>
+    ) : null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {assignee && (
+        <span className="text-sm text-muted-foreground hidden lg:inline">
+          {assignee.id === user?.id ? "Atribuída a você" : `Atribuída a ${assignee.email}`}
+        </span>
+      )}
+      {!assignee && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => mutation.mutate({ type: "assign" })}
+          disabled={mutation.isPending}
+        >
+          <UserCheck className="h-4 w-4 mr-2" />
+          Assumir
+        </Button>
+      )}
+      {(!assignee || canReassign) && (
+        <Select
+          value=""
+          onValueChange={(userId) =>
+            mutation.mutate({ type: assignee ? "transfer" : "assign", userId })
+          }
+          disabled={mutation.isPending}
+        >
+          <SelectTrigger className="w-44 h-9">
+            <SelectValue placeholder={assignee ? "Transferir para..." : "Atribuir a..."} />
+          </SelectTrigger>
+          <SelectContent>
+            {agents.map((member) => (
+              <SelectItem key={member.userId} value={member.userId}>
+                {member.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {canReassign && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => mutation.mutate({ type: "unassign" })}
+          disabled={mutation.isPending}
+        >
+          <UserMinus className="h-4 w-4 mr-2" />
+          Liberar
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle2, Clock, MoreVertical, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { api } from "@/lib/api";
+import type { Conversation } from "@/lib/types";
+
+interface ConversationStatusActionsProps {
+  conversation: Conversation;
+  onChanged: () => void;
+}
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+// Next occurrence of 9h, `days` days from today
+const morningIn = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+const SNOOZE_OPTIONS = [
+  { label: "1 hora", until: () => hoursFromNow(1) },
+  { label: "3 horas", until: () => hoursFromNow(3) },
+  { label: "Amanhã às 9h", until: () => morningIn(1) },
+  { label: "Próxima semana", until: () => morningIn(7) },
+];
+
+export function ConversationStatusActions({ conversation, onChanged }: ConversationStatusActionsProps) {
+  const mutation = useMutation({
+    mutationFn: (action: { type: "resolve" | "reopen" | "pending" | "snooze"; until?: Date }) => {
+      switch (action.type) {
+        case "resolve":
+          return api.resolveConversation(conversation.id);
+        case "pending":
+          return api.markConversationPending(conversation.id);
+        case "snooze":
+          return api.snoozeConversation(conversation.id, action.until!.toISOString());
+        default:
+          return api.reopenConversation(conversation.id);
+      }
+    },
+    onSuccess: onChanged,
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao atualizar conversa");
+    },
+  });
+
+  const isOpen = conversation.status === "open";
+
+  return (
+    <div className="flex items-center gap-1">
+      {isOpen ? (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => mutation.mutate({ type: "resolve" })}
+          disabled={mutation.isPending}
+        >
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          Resolver
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => mutation.mutate({ type: "reopen" })}
+          disabled={mutation.isPending}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reabrir
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="icon" variant="ghost" disabled={mutation.isPending}>
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {conversation.status !== "resolved" && (
+            <DropdownMenuItem onClick={() => mutation.mutate({ type: "resolve" })}>
+              Resolver
+            </DropdownMenuItem>
+          )}
+          {conversation.status !== "pending" && (
+            <DropdownMenuItem onClick={() => mutation.mutate({ type: "pending" })}>
+              Marcar como pendente
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Adiar até
+          </DropdownMenuLabel>
+          {SNOOZE_OPTIONS.map((option) => (
+            <DropdownMenuItem
+              key={option.label}
+              onClick={() => mutation.mutate({ type: "snooze", until: option.until() })}
+            >
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Download, FileText, ImageOff } from "lucide-react";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { Message } from "@/lib/types";
+
+interface MessageMediaProps {
+  message: Message;
+  outbound?: boolean;
+}
+
+export function MessageMedia({ message, outbound = false }: MessageMediaProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    setUrl(null);
+    setFailed(false);
+    api
+      .getMessageMedia(message.id)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [message.id]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-sm opacity-80 mb-1">
+        <ImageOff className="h-4 w-4" />
+        <span>Mídia indisponível</span>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return <div className="h-24 w-48 rounded-md bg-black/10 animate-pulse mb-1" />;
+  }
+
+  switch (message.type) {
+    case "image":
+    case "sticker":
+      return (
+        <a href={url} target="_blank" rel="noreferrer">
+          <img
+            src={url}
+            alt={message.mediaFilename || "Imagem"}
+            className={cn(
+              "rounded-md mb-1 object-cover",
+              message.type === "sticker" ? "h-32 w-32" : "max-h-64 max-w-full",
+            )}
+          />
+        </a>
+      );
+    case "video":
+      return <video src={url} controls className="rounded-md mb-1 max-h-64 max-w-full" />;
+    case "audio":
+      return <audio src={url} controls className="mb-1 w-64 max-w-full" />;
+    default:
+      return (
+        <a
+          href={url}
+          download={message.mediaFilename || "documento"}
+          className={cn(
+            "flex items-center gap-2 rounded-md px-3 py-2 mb-1 text-sm",
+            outbound ? "bg-white/20 hover:bg-white/30" : "bg-background hover:bg-background/80",
+          )}
+        >
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="flex-1 truncate">{message.mediaFilename || "Documento"}</span>
+          <Download className="h-4 w-4 shrink-0" />
+        </a>
+      );
+  }
+}
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import type { Template } from "@/lib/types";
+
+interface SendTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wabaAccountId: string;
+  to: string;
+  onSent?: () => void;
+}
+
+type TemplateDefinition = Array<{ type: string; text?: string }>;
+
+const getBodyText = (template?: Template): string => {
+  const history = template?.history;
+  const components: TemplateDefinition =
+    history?.components || history?.metaResponse?.components || [];
+  return components.find((c) => c.type === "BODY")?.text || "";
+};
+
+// Distinct {{n}} placeholders, in order of first appearance
+const getPlaceholders = (text: string): string[] =>
+  Array.from(new Set((text.match(/{{\s*\w+\s*}}/g) || []).map((m) => m.replace(/[{}\s]/g, ""))));
+
+export function SendTemplateDialog({
+  open,
+  onOpenChange,
+  wabaAccountId,
+  to,
+  onSent,
+}: SendTemplateDialogProps) {
+  const [templateId, setTemplateId] = useState("");
+  const [values, setValues] = useState<string[]>([]);
+
+  const { data: templates = [], isLoading } = useQuery<Template[]>({
+    queryKey: ["templates", wabaAccountId],
+    queryFn: () => api.getTemplates(wabaAccountId),
+    enabled: open && !!wabaAccountId,
+  });
+
+  const approvedTemplates = templates.filter((t) => t.status === "approved");
+  const selected = approvedTemplates.find((t) => t.id === templateId);
+  const bodyText = getBodyText(selected);
+  const placeholders = useMemo(() => getPlaceholders(bodyText), [bodyText]);
+
+  useEffect(() => {
+    setValues(placeholders.map(() => ""));
+  }, [placeholders]);
+
+  useEffect(() => {
+    if (!open) setTemplateId("");
+  }, [open]);
+
+  const preview = placeholders.reduce(
+    (text, key, index) =>
+      text.replace(new RegExp(`{{\\s*${key}\\s*}}`, "g"), values[index] || `{{${key}}}`),
+    bodyText,
+  );
+
+  const sendMutation = useMutation({
+    mutationFn: () =>
+      api.sendTemplateMessage(wabaAccountId, to, selected!.name, selected!.language, values),
+    onSuccess: () => {
+      toast.success("Template enviado");
+      onOpenChange(false);
+      onSent?.();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao enviar template");
+    },
+  });
+
+  const canSend = !!selected && values.every((v) => v.trim()) && !sendMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Enviar template</DialogTitle>
+          <DialogDescription>
+            Fora da janela de 24h só é possível iniciar a conversa com um template aprovado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Carregando..." : "Selecione um template"} />
+              </SelectTrigger>
+              <SelectContent>
+                {approvedTemplates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name} ({t.language})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoading && !approvedTemplates.length && (
+              <p className="text-xs text-muted-foreground">Nenhum template aprovado.</p>
+            )}
+          </div>
+
+          {placeholders.map((key, index) => (
+            <div key={key} className="space-y-2">
+              <Label>{`Variável {{${key}}}`}</Label>
+              <Input
+                value={values[index] || ""}
+                onChange={(e) =>
+                  setValues((prev) => prev.map((v, i) => (i === index ? e.target.value : v)))
+                }
+              />
+            </div>
+          ))}
+
+          {selected && (
+            <div className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap">{preview}</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => sendMutation.mutate()}
+            disabled={!canSend}
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+          >
+            {sendMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Enviar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import {
   Wifi,
   Building2,
   Users,
+  Contact,
 } from "lucide-react";
 import {
   Sidebar,
@@ -27,6 +28,7 @@ import markWhite from "@/assets/mark-white.webp";
 const mainItems = [
   { title: "Painel", url: "/", icon: Home },
   { title: "Conversas", url: "/conversas", icon: MessageSquare },
+  { title: "Contatos", url: "/contatos", icon: Contact },
   { title: "Mensagens Aprovadas", url: "/mensagens-aprovadas", icon: FileCheck },
   { title: "Campanhas", url: "/campanhas", icon: Megaphone },
 ];
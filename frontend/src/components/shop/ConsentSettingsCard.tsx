@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Ban, Save, Search, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/lib/api";
+import { parseTags } from "@/lib/contacts";
+import type { Shop } from "@/lib/types";
+
+interface ConsentSettingsCardProps {
+  shop: Shop;
+}
+
+export function ConsentSettingsCard({ shop }: ConsentSettingsCardProps) {
+  const queryClient = useQueryClient();
+  const [optOutKeywords, setOptOutKeywords] = useState("");
+  const [optInKeywords, setOptInKeywords] = useState("");
+  const [optOutReply, setOptOutReply] = useState("");
+  const [search, setSearch] = useState("");
+  const canManage = shop.role === "owner" || shop.role === "admin";
+  const canEdit = shop.role !== "viewer";
+
+  const { data: settings } = useQuery({
+    queryKey: ["consent-settings", shop.id],
+    queryFn: () => api.getConsentSettings(shop.id),
+  });
+
+  const { data: optedOut } = useQuery({
+    queryKey: ["consent", shop.id, search],
+    queryFn: () => api.getConsentRecords(shop.id, { status: "opted_out", search, limit: 20 }),
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setOptOutKeywords(settings.optOutKeywords.join(", "));
+    setOptInKeywords(settings.optInKeywords.join(", "));
+    setOptOutReply(settings.optOutReply ?? "");
+  }, [settings]);
+
+  const onError = (error: Error) => toast.error(error.message || "Erro ao atualizar consentimento");
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.updateConsentSettings(shop.id, {
+        optOutKeywords: parseTags(optOutKeywords),
+        optInKeywords: parseTags(optInKeywords),
+        optOutReply,
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["consent-settings", shop.id], data);
+      toast.success("Configurações de descadastro salvas");
+    },
+    onError,
+  });
+
+  const optInMutation = useMutation({
+    mutationFn: (phoneNumber: string) =>
+      api.setConsent(shop.id, phoneNumber, "opted_in", "Reativado pela equipe"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["consent", shop.id] });
+      toast.success("Número reativado");
+    },
+    onError,
+  });
+
+  const records = optedOut?.data ?? [];
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="h-5 w-5 text-primary" />
+          Descadastro (opt-out)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Quem responder apenas com uma palavra de descadastro deixa de receber campanhas e
+          mensagens de modelo desta empresa.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="optOutKeywords">Palavras para sair (separadas por vírgula)</Label>
+            <Input
+              id="optOutKeywords"
+              value={optOutKeywords}
+              onChange={(e) => setOptOutKeywords(e.target.value)}
+              disabled={!canManage}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="optInKeywords">Palavras para voltar a receber</Label>
+            <Input
+              id="optInKeywords"
+              value={optInKeywords}
+              onChange={(e) => setOptInKeywords(e.target.value)}
+              disabled={!canManage}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="optOutReply">Mensagem de confirmação (opcional)</Label>
+          <Textarea
+            id="optOutReply"
+            placeholder="Você não receberá mais nossas promoções. Envie VOLTAR para se inscrever novamente."
+            rows={3}
+            value={optOutReply}
+            onChange={(e) => setOptOutReply(e.target.value)}
+            disabled={!canManage}
+          />
+        </div>
+        {canManage && (
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Salvar
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Números descadastrados ({optedOut?.pagination.total ?? 0})</p>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar número..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Número</TableHead>
+                <TableHead>Desde</TableHead>
+                {canEdit && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell>{record.phoneNumber}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(record.updatedAt).toLocaleString("pt-BR")}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reativar"
+                        onClick={() => optInMutation.mutate(record.phoneNumber)}
+                        disabled={optInMutation.isPending}
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {!records.length && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-muted-foreground">
+                    Nenhum número descadastrado.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Mail, Trash2, UserPlus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/lib/api";
+import { INVITABLE_ROLES, ROLE_LABELS } from "@/lib/shop-roles";
+import type { RoutingMode, Shop, ShopRole } from "@/lib/types";
+
+const ROUTING_LABELS: Record<RoutingMode, string> = {
+  manual: "Manual",
+  round_robin: "Rodízio entre atendentes",
+  least_busy: "Atendente menos ocupado",
+};
+
+interface ShopMembersCardProps {
+  shop: Shop;
+}
+
+export function ShopMembersCard({ shop }: ShopMembersCardProps) {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ShopRole>("agent");
+  const canManage = shop.role === "owner" || shop.role === "admin";
+  const queryKey = ["shop-members", shop.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => api.getShopMembers(shop.id),
+  });
+
+  const onError = (error: Error) => toast.error(error.message || "Erro ao atualizar equipe");
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast.success("Link do convite copiado");
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => api.inviteShopMember(shop.id, email.trim(), role),
+    onSuccess: (invitation) => {
+      setEmail("");
+      refresh();
+      copyLink(invitation.inviteUrl).catch(() => toast.success("Convite criado"));
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) => api.revokeShopInvitation(shop.id, invitationId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: ShopRole }) =>
+      api.updateShopMemberRole(shop.id, memberId, role),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (memberId: string) => api.removeShopMember(shop.id, memberId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const routingMutation = useMutation({
+    mutationFn: (mode: RoutingMode) => api.updateShopRouting(shop.id, mode),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shops"] });
+      toast.success("Distribuição de conversas atualizada");
+    },
+    onError,
+  });
+
+  const members = data?.members ?? [];
+  const invitations = data?.invitations ?? [];
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Equipe
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="email"
+              placeholder="email@exemplo.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as ShopRole)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITABLE_ROLES.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!email.trim() || inviteMutation.isPending}
+              className="bg-[#25D366] hover:bg-[#25D366]/90"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Convidar
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center gap-2">
+          <div className="flex-1">
+            <p className="text-sm font-medium">Distribuição de novas conversas</p>
+            <p className="text-sm text-muted-foreground">
+              Conversas novas são atribuídas aos atendentes marcados como disponíveis.
+            </p>
+          </div>
+          <Select
+            value={shop.routingMode ?? "manual"}
+            onValueChange={(value) => routingMutation.mutate(value as RoutingMode)}
+            disabled={!canManage || routingMutation.isPending}
+          >
+            <SelectTrigger className="md:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROUTING_LABELS) as RoutingMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {ROUTING_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>E-mail</TableHead>
+              <TableHead>Função</TableHead>
+              {canManage && <TableHead className="w-12" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>{member.email}</TableCell>
+                <TableCell>
+                  {canManage && member.role !== "owner" ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        updateRoleMutation.mutate({ memberId: member.id, role: value as ShopRole })
+                      }
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITABLE_ROLES.map((r) => (
+                          <SelectItem key={r} value={r}>
+                            {ROLE_LABELS[r]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </TableCell>
+                {canManage && (
+                  <TableCell>
+                    {member.role !== "owner" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeMutation.mutate(member.id)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {invitations.map((invitation) => (
+              <TableRow key={invitation.id} className="text-muted-foreground">
+                <TableCell className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  {invitation.email}
+                  <Badge variant="secondary">Convite pendente</Badge>
+                </TableCell>
+                <TableCell>{ROLE_LABELS[invitation.role]}</TableCell>
+                {canManage && (
+                  <TableCell className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => copyLink(invitation.inviteUrl)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!isLoading && !members.length && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-muted-foreground">
+                  Nenhum membro encontrado.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { api } from "@/lib/api";
+import type { RealtimeEvent } from "@/lib/types";
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Subscribe to the shop's realtime event stream, reconnecting with backoff.
+ * Returns whether the stream is currently connected so callers can fall back to polling.
+ */
+export function useRealtimeEvents(
+  shopId: string | undefined,
+  onEvent: (event: RealtimeEvent) => void,
+) {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    const controller = new AbortController();
+    let retryDelay = 1000;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      api
+        .streamEvents(
+          shopId,
+          (event) => handlerRef.current(event),
+          controller.signal,
+          () => {
+            retryDelay = 1000;
+            setConnected(true);
+          },
+        )
+        .catch(() => undefined)
+        .finally(() => {
+          setConnected(false);
+          if (controller.signal.aborted) return;
+          retryTimer = setTimeout(connect, retryDelay);
+          retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+        });
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [shopId]);
+
+  return connected;
+}
@@ -1,14 +1,51 @@
 import type {
   User,
   Shop,
+  ShopRole,
+  ShopMember,
+  ShopInvitation,
+  InvitationDetails,
   WabaAccount,
   Conversation,
+  ConversationAssignment,
+  AssignmentFilter,
+  ConversationStatus,
+  ConversationStatusUpdate,
+  RoutingMode,
   Message,
   Template,
   Campaign,
   CampaignCost,
+  CampaignTestSend,
+  CampaignValidation,
+  MessagingLimit,
+  CampaignDetail,
+  CampaignJobFilters,
+  CampaignReportFormat,
+  CampaignInput,
+  CampaignFollowUpInput,
+  CampaignFollowUpType,
+  CampaignPreview,
+  CampaignSequence,
+  CampaignSequenceInput,
+  RecurringCampaign,
+  RecurringCampaignInput,
   PaginatedResponse,
   DashboardStats,
+  MediaMessageType,
+  TemplateComponent,
+  RealtimeEvent,
+  Contact,
+  ContactInput,
+  ContactDetails,
+  ContactList,
+  ColumnMapping,
+  ContactImportPreview,
+  ContactImportReport,
+  ConsentStatus,
+  ConsentRecord,
+  ConsentHistory,
+  ConsentSettings,
 } from './types';
 
 // In production we serve the frontend and backend from the same origin.
@@ -45,8 +82,10 @@ class ApiClient {
     options: RequestInit = {},
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
+    // Let the browser set the multipart boundary for file uploads
+    const isFormData = options.body instanceof FormData;
     const headers: HeadersInit = {
-      'Content-Type': 'application/json',
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -114,10 +153,24 @@ class ApiClient {
     return this.request<Shop>(`/shops/${id}`);
   }
 
-  async updateShop(id: string, name: string): Promise<Shop> {
+  async updateShop(
+    id: string,
+    data: Partial<
+      Pick<
+        Shop,
+        | 'name'
+        | 'defaultCountry'
+        | 'timezone'
+        | 'businessHours'
+        | 'campaignQuietHours'
+        | 'frequencyCapCount'
+        | 'frequencyCapHours'
+      >
+    >,
+  ): Promise<Shop> {
     return this.request<Shop>(`/shops/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify(data),
     });
   }
 
@@ -138,6 +191,56 @@ class ApiClient {
     });
   }
 
+  async updateShopRouting(shopId: string, mode: RoutingMode): Promise<{ id: string; routingMode: RoutingMode }> {
+    return this.request<{ id: string; routingMode: RoutingMode }>(`/shops/${shopId}/routing`, {
+      method: 'PUT',
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  // Team members
+  async getShopMembers(
+    shopId: string,
+  ): Promise<{ members: ShopMember[]; invitations: ShopInvitation[] }> {
+    return this.request(`/shops/${shopId}/members`);
+  }
+
+  async inviteShopMember(shopId: string, email: string, role: ShopRole): Promise<ShopInvitation> {
+    return this.request<ShopInvitation>(`/shops/${shopId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async revokeShopInvitation(shopId: string, invitationId: string): Promise<{ success: boolean }> {
+    return this.request(`/shops/${shopId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async updateShopMemberRole(shopId: string, memberId: string, role: ShopRole): Promise<ShopMember> {
+    return this.request<ShopMember>(`/shops/${shopId}/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeShopMember(shopId: string, memberId: string): Promise<{ success: boolean }> {
+    return this.request(`/shops/${shopId}/members/${memberId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getInvitation(token: string): Promise<InvitationDetails> {
+    return this.request<InvitationDetails>(`/invitations/${token}`);
+  }
+
+  async acceptInvitation(token: string): Promise<{ shopId: string; role: ShopRole }> {
+    return this.request(`/invitations/${token}/accept`, {
+      method: 'POST',
+    });
+  }
+
   // WABA
   async getEmbeddedSignupUrl(shopId?: string, connectionType: 'new' | 'existing' = 'new'): Promise<{ url: string }> {
     const params = new URLSearchParams();
@@ -158,12 +261,16 @@ class ApiClient {
     });
   }
 
-  async syncPhoneNumbers(wabaAccountId: string): Promise<{ id: string; wabaId: string; phoneId: string; displayNumber: string; hasPhoneNumbers: boolean }> {
-    return this.request<{ id: string; wabaId: string; phoneId: string; displayNumber: string; hasPhoneNumbers: boolean }>(`/waba/${wabaAccountId}/sync-phone-numbers`, {
+  async syncPhoneNumbers(wabaAccountId: string): Promise<{ id: string; wabaId: string; phoneId: string; displayNumber: string; hasPhoneNumbers: boolean; messagingLimitTier: string | null }> {
+    return this.request<{ id: string; wabaId: string; phoneId: string; displayNumber: string; hasPhoneNumbers: boolean; messagingLimitTier: string | null }>(`/waba/${wabaAccountId}/sync-phone-numbers`, {
       method: 'POST',
     });
   }
 
+  async getMessagingLimit(wabaAccountId: string): Promise<MessagingLimit> {
+    return this.request<MessagingLimit>(`/waba/${wabaAccountId}/messaging-limit`);
+  }
+
   async disconnectWaba(wabaAccountId: string): Promise<{ success: boolean; message: string }> {
     return this.request<{ success: boolean; message: string }>(`/waba/${wabaAccountId}`, {
       method: 'DELETE',
@@ -190,6 +297,7 @@ class ApiClient {
     language: string,
     parameters?: string[],
     clientMessageId?: string,
+    components?: TemplateComponent[],
   ): Promise<any> {
     return this.request<any>('/messages/template', {
       method: 'POST',
@@ -200,21 +308,103 @@ class ApiClient {
         language,
         parameters,
         clientMessageId,
+        components,
       }),
     });
   }
 
+  async sendMediaMessage(
+    wabaAccountId: string,
+    to: string,
+    type: MediaMessageType,
+    file: File,
+    caption?: string,
+    clientMessageId?: string,
+  ): Promise<{ id: string; status: string }> {
+    const formData = new FormData();
+    formData.append('wabaAccountId', wabaAccountId);
+    formData.append('to', to);
+    formData.append('type', type);
+    formData.append('file', file);
+    if (caption) formData.append('caption', caption);
+    if (type === 'document') formData.append('filename', file.name);
+    if (clientMessageId) formData.append('clientMessageId', clientMessageId);
+    return this.request<{ id: string; status: string }>('/messages/media', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
   // Inbox
   async getConversations(
     wabaAccountId: string,
     page: number = 1,
     limit: number = 50,
+    assigned: AssignmentFilter = 'all',
+    status?: ConversationStatus,
   ): Promise<PaginatedResponse<Conversation>> {
+    const statusParam = status ? `&status=${status}` : '';
     return this.request<PaginatedResponse<Conversation>>(
-      `/inbox/conversations?wabaAccountId=${wabaAccountId}&page=${page}&limit=${limit}`,
+      `/inbox/conversations?wabaAccountId=${wabaAccountId}&page=${page}&limit=${limit}&assigned=${assigned}${statusParam}`,
     );
   }
 
+  async resolveConversation(conversationId: string): Promise<ConversationStatusUpdate> {
+    return this.request<ConversationStatusUpdate>(`/inbox/conversations/${conversationId}/resolve`, {
+      method: 'PUT',
+    });
+  }
+
+  async reopenConversation(conversationId: string): Promise<ConversationStatusUpdate> {
+    return this.request<ConversationStatusUpdate>(`/inbox/conversations/${conversationId}/reopen`, {
+      method: 'PUT',
+    });
+  }
+
+  async markConversationPending(conversationId: string): Promise<ConversationStatusUpdate> {
+    return this.request<ConversationStatusUpdate>(`/inbox/conversations/${conversationId}/pending`, {
+      method: 'PUT',
+    });
+  }
+
+  async snoozeConversation(conversationId: string, until: string): Promise<ConversationStatusUpdate> {
+    return this.request<ConversationStatusUpdate>(`/inbox/conversations/${conversationId}/snooze`, {
+      method: 'PUT',
+      body: JSON.stringify({ until }),
+    });
+  }
+
+  async assignConversation(conversationId: string, userId?: string): Promise<ConversationAssignment> {
+    return this.request<ConversationAssignment>(`/inbox/conversations/${conversationId}/assign`, {
+      method: 'PUT',
+      body: JSON.stringify({ userId }),
+    });
+  }
+
+  async transferConversation(conversationId: string, userId: string): Promise<ConversationAssignment> {
+    return this.request<ConversationAssignment>(`/inbox/conversations/${conversationId}/transfer`, {
+      method: 'PUT',
+      body: JSON.stringify({ userId }),
+    });
+  }
+
+  async unassignConversation(conversationId: string): Promise<ConversationAssignment> {
+    return this.request<ConversationAssignment>(`/inbox/conversations/${conversationId}/unassign`, {
+      method: 'PUT',
+    });
+  }
+
+  async getAvailability(wabaAccountId: string): Promise<{ available: boolean }> {
+    return this.request<{ available: boolean }>(`/inbox/availability?wabaAccountId=${wabaAccountId}`);
+  }
+
+  async setAvailability(wabaAccountId: string, available: boolean): Promise<{ available: boolean }> {
+    return this.request<{ available: boolean }>('/inbox/availability', {
+      method: 'PUT',
+      body: JSON.stringify({ wabaAccountId, available }),
+    });
+  }
+
   async getConversationMessages(
     conversationId: string,
     page: number = 1,
@@ -225,12 +415,177 @@ class ApiClient {
     );
   }
 
+  // Media is behind JWT auth, so it is fetched as a blob instead of linked directly
+  async getMessageMedia(messageId: string): Promise<Blob> {
+    const response = await fetch(`${this.baseURL}/inbox/media/${messageId}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load media: status ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
   async markConversationAsRead(conversationId: string): Promise<{ success: boolean }> {
     return this.request<{ success: boolean }>(`/inbox/conversations/${conversationId}/read`, {
       method: 'PUT',
     });
   }
 
+  // Contacts
+  async getContacts(
+    shopId: string,
+    filters: { search?: string; tag?: string; page?: number; limit?: number } = {},
+  ): Promise<PaginatedResponse<Contact>> {
+    const params = new URLSearchParams({
+      shopId,
+      page: String(filters.page ?? 1),
+      limit: String(filters.limit ?? 50),
+    });
+    if (filters.search) params.append('search', filters.search);
+    if (filters.tag) params.append('tag', filters.tag);
+    return this.request<PaginatedResponse<Contact>>(`/contacts?${params.toString()}`);
+  }
+
+  async getContact(id: string): Promise<ContactDetails> {
+    return this.request<ContactDetails>(`/contacts/${id}`);
+  }
+
+  async createContact(shopId: string, phoneNumber: string, data: ContactInput = {}): Promise<Contact> {
+    return this.request<Contact>('/contacts', {
+      method: 'POST',
+      body: JSON.stringify({ shopId, phoneNumber, ...data }),
+    });
+  }
+
+  async updateContact(id: string, data: ContactInput): Promise<Contact> {
+    return this.request<Contact>(`/contacts/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteContact(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/contacts/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Contact lists
+  async getContactLists(shopId: string): Promise<ContactList[]> {
+    return this.request<ContactList[]>(`/contact-lists?shopId=${shopId}`);
+  }
+
+  async createContactList(
+    shopId: string,
+    name: string,
+    phoneNumbers: string[] = [],
+  ): Promise<ContactList & { report: ContactImportReport }> {
+    return this.request<ContactList & { report: ContactImportReport }>('/contact-lists', {
+      method: 'POST',
+      body: JSON.stringify({ shopId, name, phoneNumbers }),
+    });
+  }
+
+  async addNumbersToContactList(id: string, phoneNumbers: string[]): Promise<ContactImportReport> {
+    return this.request<ContactImportReport>(`/contact-lists/${id}/numbers`, {
+      method: 'POST',
+      body: JSON.stringify({ phoneNumbers }),
+    });
+  }
+
+  async previewContactImport(shopId: string, file: File): Promise<ContactImportPreview> {
+    const formData = new FormData();
+    formData.append('shopId', shopId);
+    formData.append('file', file);
+    return this.request<ContactImportPreview>('/contact-lists/import/preview', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async importContactList(id: string, file: File, mapping: ColumnMapping): Promise<ContactImportReport> {
+    const formData = new FormData();
+    formData.append('mapping', JSON.stringify(mapping));
+    formData.append('file', file);
+    return this.request<ContactImportReport>(`/contact-lists/${id}/import`, {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async deleteContactList(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/contact-lists/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Export is behind JWT auth too, so it is downloaded as a blob
+  async downloadContactList(id: string): Promise<Blob> {
+    const response = await fetch(`${this.baseURL}/contact-lists/${id}/export`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download list: status ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Consent
+  async getConsentRecords(
+    shopId: string,
+    filters: { status?: ConsentStatus; search?: string; page?: number; limit?: number } = {},
+  ): Promise<PaginatedResponse<ConsentRecord>> {
+    const params = new URLSearchParams({
+      shopId,
+      page: String(filters.page ?? 1),
+      limit: String(filters.limit ?? 50),
+    });
+    if (filters.status) params.append('status', filters.status);
+    if (filters.search) params.append('search', filters.search);
+    return this.request<PaginatedResponse<ConsentRecord>>(`/consent?${params.toString()}`);
+  }
+
+  async getConsentHistory(shopId: string, phoneNumber: string): Promise<ConsentHistory> {
+    const params = new URLSearchParams({ shopId, phoneNumber });
+    return this.request<ConsentHistory>(`/consent/history?${params.toString()}`);
+  }
+
+  async setConsent(
+    shopId: string,
+    phoneNumber: string,
+    status: ConsentStatus,
+    note?: string,
+  ): Promise<{ changed: boolean; status: ConsentStatus }> {
+    return this.request<{ changed: boolean; status: ConsentStatus }>(
+      status === 'opted_out' ? '/consent/opt-out' : '/consent/opt-in',
+      {
+        method: 'POST',
+        body: JSON.stringify({ shopId, phoneNumber, note }),
+      },
+    );
+  }
+
+  async getConsentSettings(shopId: string): Promise<ConsentSettings> {
+    return this.request<ConsentSettings>(`/consent/settings?shopId=${shopId}`);
+  }
+
+  async updateConsentSettings(
+    shopId: string,
+    settings: { optOutKeywords?: string[]; optInKeywords?: string[]; optOutReply?: string },
+  ): Promise<ConsentSettings> {
+    return this.request<ConsentSettings>('/consent/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ shopId, ...settings }),
+    });
+  }
+
   // Templates
   async getTemplates(wabaAccountId: string): Promise<Template[]> {
     return this.request<Template[]>(`/templates?wabaAccountId=${wabaAccountId}`);
@@ -255,19 +610,98 @@ class ApiClient {
     return this.request<Campaign[]>(`/campaigns?wabaAccountId=${wabaAccountId}`);
   }
 
-  async createCampaign(
-    wabaAccountId: string,
-    templateId: string | null,
-    contactNumbers: string[],
-  ): Promise<Campaign> {
+  async createCampaign(wabaAccountId: string, data: CampaignInput): Promise<Campaign> {
     return this.request<Campaign>('/campaigns', {
       method: 'POST',
-      body: JSON.stringify({ wabaAccountId, templateId, contactNumbers }),
+      body: JSON.stringify({ wabaAccountId, ...data }),
+    });
+  }
+
+  async validateCampaign(wabaAccountId: string, data: CampaignInput): Promise<CampaignValidation> {
+    return this.request<CampaignValidation>('/campaigns', {
+      method: 'POST',
+      body: JSON.stringify({ wabaAccountId, ...data, mode: 'dry_run' }),
+    });
+  }
+
+  async sendCampaignTest(wabaAccountId: string, data: CampaignInput, testNumbers: string[]): Promise<CampaignTestSend> {
+    return this.request<CampaignTestSend>('/campaigns', {
+      method: 'POST',
+      body: JSON.stringify({ wabaAccountId, ...data, mode: 'test', testNumbers }),
+    });
+  }
+
+  async previewCampaign(wabaAccountId: string, data: CampaignInput): Promise<CampaignPreview> {
+    return this.request<CampaignPreview>('/campaigns/preview', {
+      method: 'POST',
+      body: JSON.stringify({ wabaAccountId, ...data }),
+    });
+  }
+
+  async getCampaignFollowUps(id: string): Promise<Record<CampaignFollowUpType, number>> {
+    return this.request<Record<CampaignFollowUpType, number>>(`/campaigns/${id}/follow-ups`);
+  }
+
+  async createCampaignFollowUp(id: string, data: CampaignFollowUpInput): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/follow-ups`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async rescheduleCampaign(id: string, scheduledAt: string): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/schedule`, {
+      method: 'PATCH',
+      body: JSON.stringify({ scheduledAt }),
+    });
+  }
+
+  async startCampaign(id: string): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/start`, {
+      method: 'POST',
+    });
+  }
+
+  async pauseCampaign(id: string): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/pause`, {
+      method: 'POST',
+    });
+  }
+
+  async resumeCampaign(id: string): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/resume`, {
+      method: 'POST',
     });
   }
 
-  async getCampaign(id: string): Promise<Campaign> {
-    return this.request<Campaign>(`/campaigns/${id}`);
+  async cancelCampaign(id: string): Promise<Campaign> {
+    return this.request<Campaign>(`/campaigns/${id}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async getCampaign(id: string, filters: CampaignJobFilters = {}): Promise<CampaignDetail> {
+    const params = new URLSearchParams({
+      page: String(filters.page ?? 1),
+      limit: String(filters.limit ?? 50),
+    });
+    if (filters.status) params.append('status', filters.status);
+    if (filters.replied !== undefined) params.append('replied', String(filters.replied));
+    if (filters.search) params.append('search', filters.search);
+    return this.request<CampaignDetail>(`/campaigns/${id}?${params.toString()}`);
+  }
+
+  async downloadCampaignReport(id: string, format: CampaignReportFormat): Promise<Blob> {
+    const response = await fetch(`${this.baseURL}/campaigns/${id}/export?format=${format}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download report: status ${response.status}`);
+    }
+
+    return response.blob();
   }
 
   async getCampaignCost(templateId: string | null, contactCount: number): Promise<CampaignCost> {
@@ -280,10 +714,113 @@ class ApiClient {
     return this.request<CampaignCost>(`/campaigns/cost?${params.toString()}`);
   }
 
+  // Recurring campaigns and sequences
+  async getRecurringCampaigns(wabaAccountId: string): Promise<RecurringCampaign[]> {
+    return this.request<RecurringCampaign[]>(`/campaigns/recurring?wabaAccountId=${wabaAccountId}`);
+  }
+
+  async createRecurringCampaign(wabaAccountId: string, data: RecurringCampaignInput): Promise<RecurringCampaign> {
+    return this.request<RecurringCampaign>('/campaigns/recurring', {
+      method: 'POST',
+      body: JSON.stringify({ wabaAccountId, ...data }),
+    });
+  }
+
+  async updateRecurringCampaign(id: string, data: Partial<RecurringCampaignInput>): Promise<RecurringCampaign> {
+    return this.request<RecurringCampaign>(`/campaigns/recurring/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteRecurringCampaign(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/campaigns/recurring/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getCampaignSequences(wabaAccountId: string): Promise<CampaignSequence[]> {
+    return this.request<CampaignSequence[]>(`/campaigns/sequences?wabaAccountId=${wabaAccountId}`);
+  }
+
+  async createCampaignSequence(wabaAccountId: string, data: CampaignSequenceInput): Promise<CampaignSequence> {
+    return this.request<CampaignSequence>('/campaigns/sequences', {
+      method: 'POST',
+      body: JSON.stringify({ wabaAccountId, ...data }),
+    });
+  }
+
+  async startCampaignSequence(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/campaigns/sequences/${id}/start`, {
+      method: 'POST',
+    });
+  }
+
+  async cancelCampaignSequence(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/campaigns/sequences/${id}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteCampaignSequence(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/campaigns/sequences/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Dashboard
   async getDashboardStats(wabaAccountId: string): Promise<DashboardStats> {
     return this.request<DashboardStats>(`/dashboard/stats?wabaAccountId=${wabaAccountId}`);
   }
+
+  // Realtime: EventSource cannot send the Authorization header, so the SSE stream is read with fetch
+  async streamEvents(
+    shopId: string,
+    onEvent: (event: RealtimeEvent) => void,
+    signal: AbortSignal,
+    onOpen?: () => void,
+  ): Promise<void> {
+    const response = await fetch(`${this.baseURL}/realtime/events?shopId=${shopId}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      credentials: 'include',
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to open event stream: status ${response.status}`);
+    }
+    onOpen?.();
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      // Events are separated by a blank line; keep the trailing partial event in the buffer
+      const chunks = buffer.split('\n\n');
+      buffer = chunks.pop() ?? '';
+
+      for (const chunk of chunks) {
+        const data = chunk
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+
+        const event = JSON.parse(data);
+        if (event.type) {
+          onEvent(event as RealtimeEvent);
+        }
+      }
+    }
+  }
 }
 
 export const api = new ApiClient(API_BASE_URL);
@@ -0,0 +1,50 @@
+import type { CampaignFollowUpType } from "./types";
+
+export const FOLLOW_UP_LABELS: Record<CampaignFollowUpType, string> = {
+  retry_failed: "Reenvio de falhas",
+  not_read: "Reenvio para não lidas",
+  no_reply: "Reenvio para sem resposta",
+};
+
+export const getStatusLabel = (status: string) => {
+  switch (status) {
+    case "running":
+    case "sending":
+      return "Em Execução";
+    case "completed":
+      return "Concluída";
+    case "scheduled":
+      return "Agendada";
+    case "paused":
+      return "Pausada";
+    case "created":
+      return "Criada";
+    case "failed":
+      return "Falhou";
+    case "cancelled":
+      return "Cancelada";
+    case "draft":
+      return "Rascunho";
+    default:
+      return status;
+  }
+};
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case "running":
+    case "sending":
+      return "bg-primary/20 text-primary border-primary/30";
+    case "completed":
+      return "bg-success/20 text-success border-success/30";
+    case "scheduled":
+      return "bg-info/20 text-info border-info/30";
+    case "paused":
+      return "bg-warning/20 text-warning border-warning/30";
+    case "failed":
+    case "cancelled":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+    default:
+      return "bg-muted/20 text-muted-foreground border-muted/30";
+  }
+};
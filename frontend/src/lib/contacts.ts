@@ -0,0 +1,8 @@
+import type { Contact } from "./types";
+
+// "cliente, vip" -> ["cliente", "vip"]
+export const parseTags = (value: string) =>
+  [...new Set(value.split(",").map((tag) => tag.trim()).filter(Boolean))];
+
+export const contactDisplayName = (contact: Pick<Contact, "name" | "profileName" | "phoneNumber">) =>
+  contact.name || contact.profileName || contact.phoneNumber;
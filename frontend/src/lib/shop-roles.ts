@@ -0,0 +1,10 @@
+import type { ShopRole } from "./types";
+
+export const ROLE_LABELS: Record<ShopRole, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  agent: "Atendente",
+  viewer: "Visualizador",
+};
+
+export const INVITABLE_ROLES: ShopRole[] = ["admin", "agent", "viewer"];
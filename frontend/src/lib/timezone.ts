@@ -0,0 +1,25 @@
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+
+// Zones offered in the shop settings; the backend accepts any IANA zone
+export const TIMEZONES = [
+  { value: "America/Sao_Paulo", label: "Brasília (BRT)" },
+  { value: "America/Manaus", label: "Manaus (AMT)" },
+  { value: "America/Cuiaba", label: "Cuiabá (AMT)" },
+  { value: "America/Rio_Branco", label: "Rio Branco (ACT)" },
+  { value: "America/Noronha", label: "Fernando de Noronha" },
+  { value: "America/Fortaleza", label: "Fortaleza" },
+  { value: "America/Recife", label: "Recife" },
+  { value: "America/Bahia", label: "Salvador" },
+  { value: "America/Belem", label: "Belém" },
+  { value: "Europe/Lisbon", label: "Lisboa" },
+  { value: "America/New_York", label: "Nova York" },
+  { value: "America/Argentina/Buenos_Aires", label: "Buenos Aires" },
+  { value: "UTC", label: "UTC" },
+];
+
+export const formatInTimezone = (iso: string, timeZone = DEFAULT_TIMEZONE) =>
+  new Date(iso).toLocaleString("pt-BR", { timeZone, dateStyle: "short", timeStyle: "short" });
+
+// Value for an <input type="datetime-local"> showing the instant as wall-clock time in the zone
+export const toZonedInputValue = (iso: string, timeZone = DEFAULT_TIMEZONE) =>
+  new Date(iso).toLocaleString("sv-SE", { timeZone }).replace(" ", "T").slice(0, 16);
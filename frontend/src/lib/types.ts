@@ -21,23 +21,133 @@ export interface Shop {
   ownerId: string;
   createdAt?: string;
   waba?: WabaAccount[];
+  role?: ShopRole;
+  routingMode?: RoutingMode;
+  defaultCountry?: string;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  // Campaign messages wait for the business hours
+  campaignQuietHours?: boolean;
+  // Max marketing campaign messages per contact in the window, no cap when null
+  frequencyCapCount?: number | null;
+  frequencyCapHours?: number;
+}
+
+export type Weekday = "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday" | "sunday";
+
+export interface BusinessHoursDay {
+  open: boolean;
+  // "HH:mm" in the shop's timezone
+  intervals: { start: string; end: string }[];
+}
+
+export type BusinessHours = Partial<Record<Weekday, BusinessHoursDay>>;
+
+export type RoutingMode = "manual" | "round_robin" | "least_busy";
+
+export type ShopRole = "owner" | "admin" | "agent" | "viewer";
+
+export interface ShopMember {
+  id: string;
+  userId: string;
+  email: string;
+  role: ShopRole;
+  createdAt: string;
+}
+
+export interface ShopInvitation {
+  id: string;
+  email: string;
+  role: ShopRole;
+  expiresAt: string;
+  createdAt: string;
+  inviteUrl: string;
+}
+
+export interface InvitationDetails {
+  shopName: string;
+  email: string;
+  role: ShopRole;
+  expiresAt: string;
 }
 
 export interface Conversation {
   id: string;
   contactNumber: string;
+  contactId?: string | null;
+  contactName?: string | null;
   lastMessage: string;
+  lastMessageType?: MessageType;
   lastMessageAt: string;
   unreadCount: number;
-  status?: string;
+  status: ConversationStatus;
+  snoozedUntil?: string | null;
+  resolvedAt?: string | null;
+  windowOpen?: boolean;
+  windowExpiresAt?: string | null;
+  assignedTo?: { id: string; email: string } | null;
+  assignedAt?: string | null;
+}
+
+export type ConversationStatus = "open" | "pending" | "resolved" | "snoozed";
+
+export interface ConversationStatusUpdate {
+  id: string;
+  status: ConversationStatus;
+  snoozedUntil: string | null;
+  resolvedAt: string | null;
+}
+
+export type AssignmentFilter = "all" | "me" | "unassigned";
+
+export type RealtimeEvent =
+  | {
+      type: "message.created";
+      conversationId: string | null;
+      messageId: string;
+      direction: "inbound" | "outbound";
+    }
+  | { type: "message.status"; messageId: string; status: string }
+  | { type: "conversation.updated"; conversationId: string };
+
+export interface ConversationAssignment {
+  id: string;
+  assignedTo: { id: string; email: string } | null;
+  assignedAt: string | null;
+}
+
+export type MediaMessageType = "image" | "video" | "audio" | "document" | "sticker";
+
+export type MessageType = "text" | "template" | "interactive" | "button" | MediaMessageType;
+
+export interface TemplateParameter {
+  type: "text" | "currency" | "date_time" | "image" | "video" | "document" | "payload" | "coupon_code";
+  text?: string;
+  payload?: string;
+  couponCode?: string;
+  currency?: { fallbackValue: string; code: string; amount1000: number };
+  dateTime?: { fallbackValue: string };
+  media?: { link?: string; id?: string; filename?: string };
+}
+
+export interface TemplateComponent {
+  type: "header" | "body" | "button";
+  subType?: "quick_reply" | "url" | "copy_code";
+  index?: number;
+  parameters: TemplateParameter[];
 }
 
 export interface Message {
   id: string;
   direction: "inbound" | "outbound";
+  type?: MessageType;
   content: string;
+  replyId?: string | null;
   timestamp: string;
   status: string;
+  mediaMimeType?: string | null;
+  mediaFilename?: string | null;
+  hasMedia?: boolean;
 }
 
 export type TemplateStatus = "draft" | "submitted" | "approved" | "rejected";
@@ -61,12 +171,353 @@ export interface Campaign {
   templateId: string | null;
   contactCount: number;
   status: string;
+  scheduledAt?: string | null;
+  parentCampaignId?: string | null;
+  followUpType?: CampaignFollowUpType | null;
+  // Set on campaigns created by a recurring campaign or a sequence step
+  recurringCampaignId?: string | null;
+  sequenceId?: string | null;
+  sequenceStep?: number | null;
+  abTest?: AbTestSettings | null;
   createdAt?: string;
   updatedAt?: string;
+  pendingCount?: number;
+  // Waiting for the winner of an A/B test
+  heldCount?: number;
   sentCount?: number;
   deliveredCount?: number;
   readCount?: number;
+  // Send errors plus messages Meta accepted but could not deliver
   failedCount?: number;
+  skippedCount?: number;
+  cancelledCount?: number;
+}
+
+export type CampaignJobFilter =
+  | "held"
+  | "pending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+export interface CampaignJobFilters {
+  status?: CampaignJobFilter;
+  // Only sent messages can be replied to
+  replied?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+// One recipient of a campaign
+export interface CampaignJobReport {
+  id: string;
+  phoneNumber: string;
+  name: string | null;
+  variant: string | null;
+  status: string;
+  deliveryStatus: string | null;
+  error: string | null;
+  errorCode: number | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  readAt: string | null;
+  replied: boolean;
+}
+
+export type CampaignReportFormat = "csv" | "xlsx";
+
+export interface CampaignDetail extends Campaign {
+  // Recipients matching the filters passed to getCampaign
+  jobs: PaginatedResponse<CampaignJobReport>;
+  variants: CampaignVariantResult[];
+  followUps: Campaign[];
+  // Each recipient counted once across the campaign and its follow-ups
+  combined: { contactCount: number; deliveredCount: number; readCount: number } | null;
+}
+
+export type AbTestMetric = "read" | "reply";
+
+export interface AbTestSettings {
+  // Share of the audience that receives the variants; the rest gets the winner
+  testPercentage: number;
+  waitHours: number;
+  metric: AbTestMetric;
+}
+
+export interface CampaignVariantInput {
+  templateId: string;
+  variables?: CampaignVariable[];
+}
+
+export interface CampaignVariantResult {
+  variantId: string;
+  label: string;
+  templateId: string;
+  isWinner: boolean;
+  sentCount: number;
+  deliveredCount: number;
+  readCount: number;
+  repliedCount: number;
+  // Percentages of the messages sent
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+}
+
+export type CampaignFollowUpType = "retry_failed" | "not_read" | "no_reply";
+
+export interface CampaignFollowUpInput {
+  type: CampaignFollowUpType;
+  // Original template (and variable mapping) when absent
+  templateId?: string;
+  variables?: CampaignVariable[];
+  scheduledAt?: string;
+}
+
+export type CampaignVariableSource = "name" | "phone" | "field" | "text";
+
+export interface CampaignVariable {
+  component: "header" | "body";
+  key: string;
+  source: CampaignVariableSource;
+  // Custom field key for "field", the text itself for "text"
+  value?: string;
+  fallback?: string;
+}
+
+export interface CampaignInput {
+  templateId: string | null;
+  contactNumbers: string[];
+  contactListIds?: string[];
+  // Wall-clock time ("2024-12-24T09:00") in the shop's timezone
+  scheduledAt?: string;
+  variables?: CampaignVariable[];
+  // A/B test between two to four templates; templateId is ignored when set
+  variants?: CampaignVariantInput[];
+  abTest?: AbTestSettings;
+}
+
+// A run of a recurring campaign or a sequence step
+export interface AutomatedCampaignRun {
+  id: string;
+  status: string;
+  contactCount: number;
+  sequenceStep?: number | null;
+  createdAt: string;
+}
+
+export interface RecurringCampaign {
+  id: string;
+  wabaAccountId: string;
+  name: string;
+  templateId: string;
+  variables: CampaignVariable[] | null;
+  contactListIds: string[];
+  // Cron expression ("0 9 * * 1") in the shop's timezone
+  cron: string;
+  active: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  // Why the last run created no campaign
+  lastError: string | null;
+  createdAt: string;
+  campaigns: AutomatedCampaignRun[];
+}
+
+export interface RecurringCampaignInput {
+  name: string;
+  templateId: string;
+  variables?: CampaignVariable[];
+  contactListIds: string[];
+  cron: string;
+  active?: boolean;
+}
+
+export type CampaignSequenceStatus = "draft" | "running" | "completed" | "failed" | "cancelled";
+
+export interface CampaignSequenceStep {
+  id: string;
+  position: number;
+  // Hours after the sequence starts
+  delayHours: number;
+  templateId: string;
+  variables: CampaignVariable[] | null;
+}
+
+export interface CampaignSequence {
+  id: string;
+  wabaAccountId: string;
+  name: string;
+  contactListIds: string[];
+  // Recipients who reply get no further steps; opt-outs never do
+  exitOnReply: boolean;
+  status: CampaignSequenceStatus;
+  startedAt: string | null;
+  // Why the last failed step could not create its campaign
+  lastError: string | null;
+  createdAt: string;
+  steps: CampaignSequenceStep[];
+  campaigns: AutomatedCampaignRun[];
+}
+
+export interface CampaignSequenceInput {
+  name: string;
+  contactListIds: string[];
+  exitOnReply?: boolean;
+  steps: { templateId: string; variables?: CampaignVariable[]; delayHours: number }[];
+}
+
+export interface CampaignPreview {
+  recipientCount: number;
+  recipient: { phoneNumber: string; name: string | null };
+  header: string | null;
+  body: string | null;
+  footer: string | null;
+  errors: string[];
+}
+
+export type CampaignRecipientIssue =
+  | "invalid_number"
+  | "duplicate"
+  | "opted_out"
+  | "missing_variables"
+  | "over_capacity";
+
+export interface CampaignRecipientReport {
+  // As typed or stored in the list; phoneNumber is null when it is not a valid number
+  input: string;
+  phoneNumber: string | null;
+  issues: CampaignRecipientIssue[];
+  missingVariables: string[];
+}
+
+// Dry run of a campaign: nothing is created or sent
+export interface CampaignValidation {
+  mode: "dry_run";
+  recipientCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+  optedOutCount: number;
+  missingVariablesCount: number;
+  overCapacityCount: number;
+  messagingLimit: MessagingLimit;
+  // Problems that block the campaign
+  errors: string[];
+  recipients: CampaignRecipientReport[];
+}
+
+export interface CampaignTestSend {
+  mode: "test";
+  campaign: Campaign;
+  recipients: CampaignRecipientReport[];
+}
+
+export interface Contact {
+  id: string;
+  shopId: string;
+  phoneNumber: string;
+  name: string | null;
+  profileName: string | null;
+  customFields: Record<string, string> | null;
+  tags: string[] | null;
+  lastSeenAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactInput {
+  name?: string;
+  customFields?: Record<string, string>;
+  tags?: string[];
+}
+
+export interface ContactDetails extends Contact {
+  conversations: Array<{
+    id: string;
+    status: ConversationStatus;
+    lastAt: string;
+    unreadCount: number;
+    wabaAccount: { id: string; displayNumber: string };
+  }>;
+  campaigns: Array<{
+    id: string;
+    templateId: string | null;
+    status: string;
+    createdAt: string;
+    jobId: string;
+    jobStatus: string;
+    sentAt: string;
+  }>;
+}
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+export interface ConsentRecord {
+  id: string;
+  shopId: string;
+  phoneNumber: string;
+  status: ConsentStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConsentEvent {
+  id: string;
+  phoneNumber: string;
+  status: ConsentStatus;
+  source: 'keyword' | 'manual';
+  keyword: string | null;
+  messageId: string | null;
+  note: string | null;
+  user: { id: string; email: string } | null;
+  createdAt: string;
+}
+
+export interface ConsentHistory {
+  phoneNumber: string;
+  status: ConsentStatus;
+  events: ConsentEvent[];
+}
+
+export interface ConsentSettings {
+  optOutKeywords: string[];
+  optInKeywords: string[];
+  optOutReply: string | null;
+}
+
+export interface ContactList {
+  id: string;
+  shopId: string;
+  name: string;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ColumnMapping {
+  phone: string;
+  name?: string;
+  // Spreadsheet column -> contact custom field key
+  variables?: Record<string, string>;
+}
+
+export interface ContactImportPreview {
+  headers: string[];
+  sampleRows: Array<Record<string, string>>;
+  suggestedMapping: { phone: string | null; name: string | null };
+}
+
+export interface ContactImportReport {
+  totalRows: number;
+  imported: number;
+  alreadyInList: number;
+  invalid: number;
+  duplicates: number;
+  errors: Array<{ row: number; value: string; reason: 'invalid_number' | 'duplicate' }>;
 }
 
 export interface CampaignCost {
@@ -83,6 +534,15 @@ export interface CampaignCost {
   contactCount: number;
 }
 
+// Unique recipients the phone number may start conversations with in 24h
+export interface MessagingLimit {
+  tier: string;
+  limit: number | null; // null: unlimited tier
+  used: number;
+  remaining: number | null;
+  syncedAt: string | null;
+}
+
 export interface DashboardStats {
   messages_sent_24h: number;
   messages_delivered_24h: number;
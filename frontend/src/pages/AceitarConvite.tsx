@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { Loader2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { useActiveWaba } from "@/hooks/use-active-waba";
+import { ROLE_LABELS } from "@/lib/shop-roles";
+
+const AceitarConvite = () => {
+  const { token = "" } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { selectShop } = useActiveWaba();
+
+  const { data: invitation, isLoading, error } = useQuery({
+    queryKey: ["invitation", token],
+    queryFn: () => api.getInvitation(token),
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => api.acceptInvitation(token),
+    onSuccess: ({ shopId }) => {
+      selectShop(shopId);
+      queryClient.invalidateQueries({ queryKey: ["shops"] });
+      toast.success("Convite aceito!");
+      navigate("/", { replace: true });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Erro ao aceitar convite");
+    },
+  });
+
+  const emailMismatch =
+    !!invitation && !!user?.email && invitation.email !== user.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Users className="h-10 w-10 mx-auto text-primary mb-2" />
+          <CardTitle>Convite para equipe</CardTitle>
+          {invitation && (
+            <CardDescription>
+              Você foi convidado para <strong>{invitation.shopName}</strong> como{" "}
+              {ROLE_LABELS[invitation.role]}.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-destructive text-center">
+              {(error as Error).message || "Convite inválido ou expirado."}
+            </p>
+          )}
+          {emailMismatch && (
+            <p className="text-sm text-muted-foreground text-center">
+              Este convite foi enviado para {invitation.email}. Entre com esse e-mail para aceitá-lo.
+            </p>
+          )}
+          {invitation && (
+            <Button
+              className="w-full bg-[#25D366] hover:bg-[#25D366]/90"
+              onClick={() => acceptMutation.mutate()}
+              disabled={emailMismatch || acceptMutation.isPending}
+            >
+              {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Aceitar convite
+            </Button>
+          )}
+          <Button variant="ghost" className="w-full" onClick={() => navigate("/")}>
+            Voltar
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AceitarConvite;
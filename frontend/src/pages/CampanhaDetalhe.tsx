@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, FlaskConical, Loader2, Repeat, Trophy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/lib/api";
+import { FOLLOW_UP_LABELS, getStatusColor, getStatusLabel } from "@/lib/campaigns";
+import { CampaignRecipientsCard } from "@/components/campaigns/CampaignRecipientsCard";
+import type { AbTestMetric, Campaign, CampaignJobFilters, Template } from "@/lib/types";
+
+const METRIC_LABELS: Record<AbTestMetric, string> = {
+  read: "taxa de leitura",
+  reply: "taxa de resposta",
+};
+
+const percent = (count: number, total: number) => (total ? `${((count / total) * 100).toFixed(0)}%` : "—");
+
+const FunnelStats = ({ campaign }: { campaign: Campaign }) => (
+  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+    <div className="text-center">
+      <p className="text-2xl font-bold">{(campaign.sentCount || 0).toLocaleString()}</p>
+      <p className="text-xs text-muted-foreground mt-1">Enviadas</p>
+    </div>
+    <div className="text-center">
+      <p className="text-2xl font-bold text-success">{(campaign.deliveredCount || 0).toLocaleString()}</p>
+      <p className="text-xs text-muted-foreground mt-1">Entregues</p>
+    </div>
+    <div className="text-center">
+      <p className="text-2xl font-bold text-info">{(campaign.readCount || 0).toLocaleString()}</p>
+      <p className="text-xs text-muted-foreground mt-1">Lidas</p>
+    </div>
+    <div className="text-center">
+      <p className="text-2xl font-bold text-primary">
+        {percent(campaign.readCount || 0, campaign.sentCount || 0)}
+      </p>
+      <p className="text-xs text-muted-foreground mt-1">Taxa de Leitura</p>
+    </div>
+    <div className="text-center">
+      <p className="text-2xl font-bold text-destructive">{(campaign.failedCount || 0).toLocaleString()}</p>
+      <p className="text-xs text-muted-foreground mt-1">Falhas</p>
+    </div>
+  </div>
+);
+
+const CampanhaDetalhe = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const [jobFilters, setJobFilters] = useState<CampaignJobFilters>({});
+
+  const { data: campaign, isLoading, error } = useQuery({
+    queryKey: ["campaign", id, jobFilters],
+    queryFn: () => api.getCampaign(id, jobFilters),
+    // Keep the campaign on screen while another page of its recipients loads
+    placeholderData: (previous) => (previous?.id === id ? previous : undefined),
+    // Counts move while messages go out and status webhooks arrive
+    refetchInterval: (query) => (query.state.data?.status === "sending" ? 15000 : false),
+  });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["templates", campaign?.wabaAccountId],
+    queryFn: () => api.getTemplates(campaign!.wabaAccountId),
+    enabled: !!campaign?.wabaAccountId,
+  });
+
+  const templateName = (templateId: string | null) =>
+    templates.find((t) => t.id === templateId)?.name ?? templateId ?? "Mensagem de texto";
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !campaign) {
+    return (
+      <div className="p-8 text-center text-muted-foreground space-y-3">
+        <p>{(error as Error)?.message || "Campanha não encontrada."}</p>
+        <Button variant="outline" onClick={() => navigate("/campanhas")}>
+          Voltar
+        </Button>
+      </div>
+    );
+  }
+
+  const hasWinner = campaign.variants.some((variant) => variant.isWinner);
+
+  return (
+    <div className="p-8 space-y-8 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/campanhas")}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">Relatório da Campanha</h1>
+            <Badge className={getStatusColor(campaign.status)}>{getStatusLabel(campaign.status)}</Badge>
+            {campaign.followUpType && <Badge variant="outline">{FOLLOW_UP_LABELS[campaign.followUpType]}</Badge>}
+          </div>
+          <p className="text-muted-foreground mt-1">
+            {campaign.id} · {campaign.contactCount.toLocaleString()} destinatários
+            {campaign.createdAt && ` · Criada em ${new Date(campaign.createdAt).toLocaleString("pt-BR")}`}
+          </p>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle>Entrega</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FunnelStats campaign={campaign} />
+          {(!!campaign.pendingCount || !!campaign.heldCount || !!campaign.skippedCount) && (
+            <p className="text-sm text-muted-foreground">
+              {(campaign.pendingCount || 0).toLocaleString()} na fila
+              {!!campaign.heldCount && ` · ${campaign.heldCount.toLocaleString()} aguardando a variante vencedora`}
+              {!!campaign.skippedCount && ` · ${campaign.skippedCount.toLocaleString()} ignorados (descadastro ou limite de frequência)`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {campaign.variants.length > 0 && (
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Teste A/B
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {campaign.abTest && (
+              <p className="text-sm text-muted-foreground">
+                {hasWinner
+                  ? `A variante vencedora por ${METRIC_LABELS[campaign.abTest.metric]} foi enviada ao restante do público.`
+                  : `${campaign.abTest.testPercentage}% do público recebe as variantes. ${campaign.abTest.waitHours}h após o início, a de maior ${METRIC_LABELS[campaign.abTest.metric]} é enviada ao restante.`}
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variante</TableHead>
+                  <TableHead>Mensagem</TableHead>
+                  <TableHead className="text-right">Enviadas</TableHead>
+                  <TableHead className="text-right">Entrega</TableHead>
+                  <TableHead className="text-right">Leitura</TableHead>
+                  <TableHead className="text-right">Resposta</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaign.variants.map((variant) => (
+                  <TableRow key={variant.variantId}>
+                    <TableCell className="font-medium">
+                      <span className="flex items-center gap-2">
+                        {variant.label}
+                        {variant.isWinner && (
+                          <Badge className="bg-success/20 text-success border-success/30">
+                            <Trophy className="h-3 w-3 mr-1" />
+                            Vencedora
+                          </Badge>
+                        )}
+                      </span>
+                    </TableCell>
+                    <TableCell>{templateName(variant.templateId)}</TableCell>
+                    <TableCell className="text-right">{variant.sentCount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{variant.deliveryRate}%</TableCell>
+                    <TableCell className="text-right">{variant.readRate}%</TableCell>
+                    <TableCell className="text-right">{variant.replyRate}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {campaign.followUps.length > 0 && (
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Reenvios
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {campaign.followUps.map((followUp) => (
+              <div key={followUp.id} className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="link"
+                    className="p-0 h-auto font-medium"
+                    onClick={() => navigate(`/campanhas/${followUp.id}`)}
+                  >
+                    {followUp.followUpType ? FOLLOW_UP_LABELS[followUp.followUpType] : followUp.id}
+                  </Button>
+                  <Badge className={getStatusColor(followUp.status)}>{getStatusLabel(followUp.status)}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {followUp.contactCount.toLocaleString()} destinatários
+                  </span>
+                </div>
+                <FunnelStats campaign={followUp} />
+              </div>
+            ))}
+
+            {campaign.combined && (
+              <div className="border-t pt-4 grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold">{campaign.combined.contactCount.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground mt-1">Destinatários</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-success">
+                    {percent(campaign.combined.deliveredCount, campaign.combined.contactCount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">Entregues no total</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-info">
+                    {percent(campaign.combined.readCount, campaign.combined.contactCount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">Lidas no total</p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <CampaignRecipientsCard
+        campaignId={campaign.id}
+        jobs={campaign.jobs}
+        filters={jobFilters}
+        onFiltersChange={setJobFilters}
+      />
+    </div>
+  );
+};
+
+export default CampanhaDetalhe;
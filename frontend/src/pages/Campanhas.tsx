@@ -1,5 +1,6 @@
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,15 +13,30 @@ import {
   Users,
   TrendingUp,
   BarChart3,
+  Clock,
+  Repeat,
+  Workflow,
+  X,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { api } from "@/lib/api";
 import { useActiveWaba } from "@/hooks/use-active-waba";
+import { formatInTimezone } from "@/lib/timezone";
+import { FOLLOW_UP_LABELS, getStatusColor, getStatusLabel } from "@/lib/campaigns";
+import { RescheduleCampaignDialog } from "@/components/campaigns/RescheduleCampaignDialog";
+import { FollowUpCampaignDialog } from "@/components/campaigns/FollowUpCampaignDialog";
 import type { Campaign } from "@/lib/types";
 
+// Statuses the backend accepts on POST /campaigns/:id/cancel
+const CANCELLABLE_STATUSES = ["scheduled", "sending", "paused"];
+
 const Campanhas = () => {
   const navigate = useNavigate();
-  const { activeWaba } = useActiveWaba();
+  const queryClient = useQueryClient();
+  const { activeWaba, activeShop } = useActiveWaba();
+  const [rescheduling, setRescheduling] = useState<Campaign | null>(null);
+  const [followingUp, setFollowingUp] = useState<Campaign | null>(null);
+  const canManage = activeShop?.role === "owner" || activeShop?.role === "admin";
 
   const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
     queryKey: ["campaigns", activeWaba?.id],
@@ -37,39 +53,43 @@ const Campanhas = () => {
   };
   }, [campaigns]);
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "running":
-      case "sending":
-        return "Em Execução";
-      case "completed":
-        return "Concluída";
-      case "scheduled":
-        return "Agendada";
-      case "paused":
-        return "Pausada";
-      case "created":
-        return "Criada";
-      default:
-        return status;
-    }
-  };
+  const onActionError = (error: Error) => toast.error(error.message || "Erro ao atualizar campanha");
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "running":
-      case "sending":
-        return "bg-primary/20 text-primary border-primary/30";
-      case "completed":
-        return "bg-success/20 text-success border-success/30";
-      case "scheduled":
-        return "bg-info/20 text-info border-info/30";
-      case "paused":
-        return "bg-warning/20 text-warning border-warning/30";
-      default:
-        return "bg-muted/20 text-muted-foreground border-muted/30";
-    }
-  };
+  const startMutation = useMutation({
+    mutationFn: (id: string) => api.startCampaign(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", activeWaba?.id] });
+      toast.success("Envio iniciado");
+    },
+    onError: onActionError,
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: (id: string) => api.pauseCampaign(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", activeWaba?.id] });
+      toast.success("Campanha pausada");
+    },
+    onError: onActionError,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: (id: string) => api.resumeCampaign(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", activeWaba?.id] });
+      toast.success("Envio retomado");
+    },
+    onError: onActionError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => api.cancelCampaign(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", activeWaba?.id] });
+      toast.success("Campanha cancelada");
+    },
+    onError: onActionError,
+  });
 
   const calculateProgress = (sent: number, total: number) => {
     return total > 0 ? (sent / total) * 100 : 0;
@@ -98,13 +118,19 @@ const Campanhas = () => {
             Crie e gerencie suas campanhas de mensagens
           </p>
         </div>
-        <Button
-          className="bg-[#25D366] hover:bg-[#25D366]/90"
-          onClick={() => navigate("/campanhas/nova")}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Criar Campanha
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate("/campanhas/automacoes")}>
+            <Workflow className="h-4 w-4 mr-2" />
+            Automações
+          </Button>
+          <Button
+            className="bg-[#25D366] hover:bg-[#25D366]/90"
+            onClick={() => navigate("/campanhas/nova")}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Criar Campanha
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -176,6 +202,16 @@ const Campanhas = () => {
                     <Badge className={getStatusColor(campaign.status)}>
                       {getStatusLabel(campaign.status)}
                     </Badge>
+                    {campaign.followUpType && (
+                      <Badge variant="outline">{FOLLOW_UP_LABELS[campaign.followUpType]}</Badge>
+                    )}
+                    {campaign.recurringCampaignId && <Badge variant="outline">Recorrente</Badge>}
+                    {campaign.sequenceId && (
+                      <Badge variant="outline">Sequência · etapa {(campaign.sequenceStep ?? 0) + 1}</Badge>
+                    )}
+                    {!!campaign.heldCount && (
+                      <Badge variant="outline">Teste A/B em andamento</Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                     <span className="flex items-center gap-1">
@@ -184,6 +220,12 @@ const Campanhas = () => {
                         ? new Date(campaign.createdAt).toLocaleString("pt-BR")
                         : "—"}
                     </span>
+                    {campaign.status === "scheduled" && campaign.scheduledAt && (
+                      <span className="flex items-center gap-1 text-info">
+                        <Clock className="h-4 w-4" />
+                        Envio em {formatInTimezone(campaign.scheduledAt, activeShop?.timezone)}
+                      </span>
+                    )}
                     <span className="flex items-center gap-1">
                       <Users className="h-4 w-4" />
                       {(campaign.contactCount || 0).toLocaleString()} destinatários
@@ -192,19 +234,67 @@ const Campanhas = () => {
                   </div>
                 </div>
                 <div className="flex gap-2">
-                  {campaign.status === "running" && (
-                    <Button variant="outline" size="sm">
+                  {campaign.status === "sending" && canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pauseMutation.mutate(campaign.id)}
+                      disabled={pauseMutation.isPending}
+                    >
                       <Pause className="h-4 w-4 mr-1" />
                       Pausar
                     </Button>
                   )}
-                  {campaign.status === "scheduled" && (
-                    <Button variant="outline" size="sm">
+                  {campaign.status === "paused" && canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resumeMutation.mutate(campaign.id)}
+                      disabled={resumeMutation.isPending}
+                    >
                       <Play className="h-4 w-4 mr-1" />
-                      Iniciar Agora
+                      Retomar
+                    </Button>
+                  )}
+                  {campaign.status === "scheduled" && canManage && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => startMutation.mutate(campaign.id)}
+                        disabled={startMutation.isPending}
+                      >
+                        <Play className="h-4 w-4 mr-1" />
+                        Iniciar Agora
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setRescheduling(campaign)}>
+                        <Calendar className="h-4 w-4 mr-1" />
+                        Reagendar
+                      </Button>
+                    </>
+                  )}
+                  {CANCELLABLE_STATUSES.includes(campaign.status) && canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        if (window.confirm("Cancelar esta campanha? Os envios pendentes serão descartados.")) {
+                          cancelMutation.mutate(campaign.id);
+                        }
+                      }}
+                      disabled={cancelMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Cancelar
                     </Button>
                   )}
-                  <Button variant="outline" size="sm">
+                  {campaign.status === "completed" && canManage && (
+                    <Button variant="outline" size="sm" onClick={() => setFollowingUp(campaign)}>
+                      <Repeat className="h-4 w-4 mr-1" />
+                      Reenviar
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/campanhas/${campaign.id}`)}>
                     <TrendingUp className="h-4 w-4 mr-1" />
                     Ver Relatório
                   </Button>
@@ -275,6 +365,16 @@ const Campanhas = () => {
           </Card>
         )}
       </div>
+
+      <RescheduleCampaignDialog
+        campaign={rescheduling}
+        onOpenChange={(open) => !open && setRescheduling(null)}
+        timeZone={activeShop?.timezone}
+      />
+      <FollowUpCampaignDialog
+        campaign={followingUp}
+        onOpenChange={(open) => !open && setFollowingUp(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, Clock, ListOrdered, Play, Plus, Repeat, Trash2, X } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { api } from "@/lib/api";
+import { useActiveWaba } from "@/hooks/use-active-waba";
+import { formatInTimezone } from "@/lib/timezone";
+import { getStatusColor, getStatusLabel } from "@/lib/campaigns";
+import { RecurringCampaignDialog } from "@/components/campaigns/RecurringCampaignDialog";
+import { CampaignSequenceDialog } from "@/components/campaigns/CampaignSequenceDialog";
+import type { AutomatedCampaignRun, CampaignSequence, RecurringCampaign } from "@/lib/types";
+
+const formatDelay = (hours: number) => {
+  if (hours === 0) return "no início";
+  if (hours % 24 === 0) return `após ${hours / 24} dia${hours === 24 ? "" : "s"}`;
+  return `após ${hours}h`;
+};
+
+const CampaignRuns = ({ runs, onOpen }: { runs: AutomatedCampaignRun[]; onOpen: (id: string) => void }) =>
+  runs.length === 0 ? (
+    <p className="text-sm text-muted-foreground">Nenhuma campanha criada ainda</p>
+  ) : (
+    <div className="border rounded-lg divide-y">
+      {runs.map((run) => (
+        <button
+          key={run.id}
+          className="w-full flex items-center justify-between p-2 text-sm hover:bg-muted/50 text-left"
+          onClick={() => onOpen(run.id)}
+        >
+          <span>
+            {run.sequenceStep != null && `Etapa ${run.sequenceStep + 1} · `}
+            {new Date(run.createdAt).toLocaleString("pt-BR")}
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="text-muted-foreground">{run.contactCount.toLocaleString()} destinatários</span>
+            <Badge className={getStatusColor(run.status)}>{getStatusLabel(run.status)}</Badge>
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+
+const CampanhasAutomaticas = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { activeWaba, activeShop } = useActiveWaba();
+  const [creatingRecurring, setCreatingRecurring] = useState(false);
+  const [creatingSequence, setCreatingSequence] = useState(false);
+  const canManage = activeShop?.role === "owner" || activeShop?.role === "admin";
+
+  const { data: recurringCampaigns = [], isLoading: loadingRecurring } = useQuery<RecurringCampaign[]>({
+    queryKey: ["recurring-campaigns", activeWaba?.id],
+    queryFn: () => api.getRecurringCampaigns(activeWaba!.id),
+    enabled: !!activeWaba?.id,
+  });
+
+  const { data: sequences = [], isLoading: loadingSequences } = useQuery<CampaignSequence[]>({
+    queryKey: ["campaign-sequences", activeWaba?.id],
+    queryFn: () => api.getCampaignSequences(activeWaba!.id),
+    enabled: !!activeWaba?.id,
+  });
+
+  const onActionError = (error: Error) => toast.error(error.message || "Erro ao atualizar automação");
+  const refreshRecurring = () => queryClient.invalidateQueries({ queryKey: ["recurring-campaigns", activeWaba?.id] });
+  const refreshSequences = () => queryClient.invalidateQueries({ queryKey: ["campaign-sequences", activeWaba?.id] });
+
+  const toggleRecurringMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => api.updateRecurringCampaign(id, { active }),
+    onSuccess: (recurringCampaign) => {
+      refreshRecurring();
+      toast.success(recurringCampaign.active ? "Campanha recorrente ativada" : "Campanha recorrente pausada");
+    },
+    onError: onActionError,
+  });
+
+  const deleteRecurringMutation = useMutation({
+    mutationFn: (id: string) => api.deleteRecurringCampaign(id),
+    onSuccess: () => {
+      refreshRecurring();
+      toast.success("Campanha recorrente excluída");
+    },
+    onError: onActionError,
+  });
+
+  const startSequenceMutation = useMutation({
+    mutationFn: (id: string) => api.startCampaignSequence(id),
+    onSuccess: () => {
+      refreshSequences();
+      toast.success("Sequência iniciada");
+    },
+    onError: onActionError,
+  });
+
+  const cancelSequenceMutation = useMutation({
+    mutationFn: (id: string) => api.cancelCampaignSequence(id),
+    onSuccess: () => {
+      refreshSequences();
+      toast.success("Sequência cancelada");
+    },
+    onError: onActionError,
+  });
+
+  const deleteSequenceMutation = useMutation({
+    mutationFn: (id: string) => api.deleteCampaignSequence(id),
+    onSuccess: () => {
+      refreshSequences();
+      toast.success("Sequência excluída");
+    },
+    onError: onActionError,
+  });
+
+  const openCampaign = (id: string) => navigate(`/campanhas/${id}`);
+
+  if (!activeWaba || !activeShop) {
+    return (
+      <div className="p-8">
+        <div className="text-center text-muted-foreground space-y-3">
+          <p>Conecte uma conta WABA para visualizar campanhas.</p>
+          <Button onClick={() => (window.location.href = "/conectar-whatsapp")}>
+            Conectar WhatsApp
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-8 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/campanhas")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Automações</h1>
+          <p className="text-muted-foreground mt-1">
+            Campanhas recorrentes e sequências; cada envio aparece como uma campanha com relatório próprio
+          </p>
+        </div>
+      </div>
+
+      {/* Recurring campaigns */}
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Campanhas Recorrentes
+            </div>
+            {canManage && (
+              <Button size="sm" variant="outline" onClick={() => setCreatingRecurring(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Nova
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loadingRecurring ? (
+            <p className="text-sm text-muted-foreground">Carregando...</p>
+          ) : recurringCampaigns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Envie o mesmo template para uma lista em dias e horários fixos.
+            </p>
+          ) : (
+            recurringCampaigns.map((recurringCampaign) => (
+              <div key={recurringCampaign.id} className="space-y-3 border-b border-border pb-6 last:border-0 last:pb-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">{recurringCampaign.name}</p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Clock className="h-4 w-4" />
+                      <span className="font-mono">{recurringCampaign.cron}</span>
+                      {recurringCampaign.nextRunAt &&
+                        ` · próxima em ${formatInTimezone(recurringCampaign.nextRunAt, activeShop.timezone)}`}
+                    </p>
+                    {recurringCampaign.lastError && (
+                      <p className="text-sm text-destructive">Última execução falhou: {recurringCampaign.lastError}</p>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={recurringCampaign.active}
+                        onCheckedChange={(active) =>
+                          toggleRecurringMutation.mutate({ id: recurringCampaign.id, active })
+                        }
+                        disabled={toggleRecurringMutation.isPending}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (window.confirm("Excluir esta campanha recorrente? As campanhas já enviadas são mantidas.")) {
+                            deleteRecurringMutation.mutate(recurringCampaign.id);
+                          }
+                        }}
+                        disabled={deleteRecurringMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <CampaignRuns runs={recurringCampaign.campaigns} onOpen={openCampaign} />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sequences */}
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Sequências
+            </div>
+            {canManage && (
+              <Button size="sm" variant="outline" onClick={() => setCreatingSequence(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Nova
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loadingSequences ? (
+            <p className="text-sm text-muted-foreground">Carregando...</p>
+          ) : sequences.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Envie uma série de mensagens com intervalos, parando para quem responder ou se descadastrar.
+            </p>
+          ) : (
+            sequences.map((sequence) => (
+              <div key={sequence.id} className="space-y-3 border-b border-border pb-6 last:border-0 last:pb-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{sequence.name}</p>
+                      <Badge className={getStatusColor(sequence.status)}>{getStatusLabel(sequence.status)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {sequence.steps.map((step) => `Etapa ${step.position + 1} ${formatDelay(step.delayHours)}`).join(" · ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {sequence.exitOnReply ? "Sai ao responder ou se descadastrar" : "Sai ao se descadastrar"}
+                      {sequence.startedAt &&
+                        ` · iniciada em ${formatInTimezone(sequence.startedAt, activeShop.timezone)}`}
+                    </p>
+                    {sequence.lastError && (
+                      <p className="text-sm text-destructive">Última falha: {sequence.lastError}</p>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-2">
+                      {sequence.status === "draft" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startSequenceMutation.mutate(sequence.id)}
+                          disabled={startSequenceMutation.isPending}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Iniciar
+                        </Button>
+                      )}
+                      {sequence.status === "running" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (window.confirm("Cancelar esta sequência? As próximas etapas não serão enviadas.")) {
+                              cancelSequenceMutation.mutate(sequence.id);
+                            }
+                          }}
+                          disabled={cancelSequenceMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Cancelar
+                        </Button>
+                      )}
+                      {sequence.status !== "running" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (window.confirm("Excluir esta sequência? As campanhas já enviadas são mantidas.")) {
+                              deleteSequenceMutation.mutate(sequence.id);
+                            }
+                          }}
+                          disabled={deleteSequenceMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {sequence.status !== "draft" && <CampaignRuns runs={sequence.campaigns} onOpen={openCampaign} />}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <RecurringCampaignDialog
+        wabaAccountId={activeWaba.id}
+        shopId={activeShop.id}
+        open={creatingRecurring}
+        onOpenChange={setCreatingRecurring}
+      />
+      <CampaignSequenceDialog
+        wabaAccountId={activeWaba.id}
+        shopId={activeShop.id}
+        open={creatingSequence}
+        onOpenChange={setCreatingSequence}
+      />
+    </div>
+  );
+};
+
+export default CampanhasAutomaticas;
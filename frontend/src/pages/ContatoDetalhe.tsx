@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Ban, Loader2, Megaphone, MessageSquare, Plus, Save, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/lib/api";
+import { useActiveWaba } from "@/hooks/use-active-waba";
+import { contactDisplayName, parseTags } from "@/lib/contacts";
+import type { ConsentEvent, ConversationStatus } from "@/lib/types";
+
+const CONVERSATION_STATUS_LABELS: Record<ConversationStatus, string> = {
+  open: "Aberta",
+  pending: "Pendente",
+  snoozed: "Adiada",
+  resolved: "Resolvida",
+};
+
+const consentEventLabel = (event: ConsentEvent) => {
+  const action = event.status === "opted_out" ? "Descadastrado" : "Reativado";
+  if (event.source === "keyword") return `${action} ao responder "${event.keyword}"`;
+  return `${action} por ${event.user?.email ?? "um membro da equipe"}`;
+};
+
+const ContatoDetalhe = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { activeShop } = useActiveWaba();
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [fields, setFields] = useState<Array<{ key: string; value: string }>>([]);
+
+  const { data: contact, isLoading, error } = useQuery({
+    queryKey: ["contact", id],
+    queryFn: () => api.getContact(id),
+  });
+
+  useEffect(() => {
+    if (!contact) return;
+    setName(contact.name ?? "");
+    setTags((contact.tags ?? []).join(", "));
+    setFields(Object.entries(contact.customFields ?? {}).map(([key, value]) => ({ key, value })));
+  }, [contact]);
+
+  const { data: consent } = useQuery({
+    queryKey: ["consent-history", activeShop?.id, contact?.phoneNumber],
+    queryFn: () => api.getConsentHistory(activeShop!.id, contact!.phoneNumber),
+    enabled: !!activeShop?.id && !!contact?.phoneNumber,
+  });
+
+  const consentMutation = useMutation({
+    mutationFn: () =>
+      api.setConsent(
+        activeShop!.id,
+        contact!.phoneNumber,
+        consent?.status === "opted_out" ? "opted_in" : "opted_out",
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["consent-history", activeShop?.id] });
+      queryClient.invalidateQueries({ queryKey: ["consent", activeShop?.id] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Erro ao atualizar consentimento");
+    },
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["contact", id] });
+    queryClient.invalidateQueries({ queryKey: ["contacts"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      api.updateContact(id, {
+        name,
+        tags: parseTags(tags),
+        customFields: Object.fromEntries(
+          fields.filter((f) => f.key.trim()).map((f) => [f.key.trim(), f.value]),
+        ),
+      }),
+    onSuccess: () => {
+      onSuccess();
+      toast.success("Contato atualizado");
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Erro ao atualizar contato");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteContact(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      navigate("/contatos", { replace: true });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Erro ao excluir contato");
+    },
+  });
+
+  const canEdit = activeShop?.role !== "viewer";
+  const canDelete = activeShop?.role === "owner" || activeShop?.role === "admin";
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !contact) {
+    return (
+      <div className="p-8 text-center text-muted-foreground space-y-3">
+        <p>{(error as Error)?.message || "Contato não encontrado."}</p>
+        <Button variant="outline" onClick={() => navigate("/contatos")}>
+          Voltar
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/contatos")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{contactDisplayName(contact)}</h1>
+            <p className="text-muted-foreground mt-1">
+              {contact.phoneNumber}
+              {contact.profileName && ` · Perfil do WhatsApp: ${contact.profileName}`}
+            </p>
+          </div>
+        </div>
+        {canDelete && (
+          <Button
+            variant="outline"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+            Excluir
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle>Dados do contato</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Nome</Label>
+              <Input
+                id="name"
+                placeholder={contact.profileName ?? ""}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags (separadas por vírgula)</Label>
+              <Input
+                id="tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Campos personalizados</Label>
+              {fields.map((field, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Campo"
+                    value={field.key}
+                    onChange={(e) =>
+                      setFields(fields.map((f, i) => (i === index ? { ...f, key: e.target.value } : f)))
+                    }
+                    disabled={!canEdit}
+                  />
+                  <Input
+                    placeholder="Valor"
+                    value={field.value}
+                    onChange={(e) =>
+                      setFields(fields.map((f, i) => (i === index ? { ...f, value: e.target.value } : f)))
+                    }
+                    disabled={!canEdit}
+                  />
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFields([...fields, { key: "", value: "" }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar campo
+                </Button>
+              )}
+            </div>
+            {canEdit && (
+              <Button
+                className="bg-[#25D366] hover:bg-[#25D366]/90"
+                onClick={() => updateMutation.mutate()}
+                disabled={updateMutation.isPending}
+              >
+                {updateMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Salvar
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Ban className="h-5 w-5 text-primary" />
+                  Consentimento
+                </span>
+                {consent && (
+                  <Badge variant={consent.status === "opted_out" ? "destructive" : "secondary"}>
+                    {consent.status === "opted_out" ? "Descadastrado" : "Recebe mensagens"}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {consent?.events.map((event) => (
+                <div key={event.id} className="text-sm">
+                  <p>{consentEventLabel(event)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(event.createdAt).toLocaleString("pt-BR")}
+                    {event.note && ` · ${event.note}`}
+                  </p>
+                </div>
+              ))}
+              {consent && !consent.events.length && (
+                <p className="text-sm text-muted-foreground">Nenhuma alteração de consentimento.</p>
+              )}
+              {canEdit && consent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => consentMutation.mutate()}
+                  disabled={consentMutation.isPending}
+                >
+                  {consent.status === "opted_out" ? "Reativar envios" : "Descadastrar"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5 text-primary" />
+                Conversas
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {contact.conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className="flex items-center justify-between p-3 rounded-lg border border-border cursor-pointer hover:bg-muted/50"
+                  onClick={() => navigate("/conversas")}
+                >
+                  <div>
+                    <p className="text-sm font-medium">{conversation.wabaAccount.displayNumber}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(conversation.lastAt).toLocaleString("pt-BR")}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{CONVERSATION_STATUS_LABELS[conversation.status]}</Badge>
+                </div>
+              ))}
+              {!contact.conversations.length && (
+                <p className="text-sm text-muted-foreground">Nenhuma conversa com este contato.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Megaphone className="h-5 w-5 text-primary" />
+                Campanhas
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {contact.campaigns.map((campaign) => (
+                <div
+                  key={campaign.jobId}
+                  className="flex items-center justify-between p-3 rounded-lg border border-border"
+                >
+                  <div>
+                    <p className="text-sm font-medium">Campanha #{campaign.id.slice(-6)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(campaign.sentAt).toLocaleString("pt-BR")}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{campaign.jobStatus}</Badge>
+                </div>
+              ))}
+              {!contact.campaigns.length && (
+                <p className="text-sm text-muted-foreground">Este contato não recebeu campanhas.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContatoDetalhe;
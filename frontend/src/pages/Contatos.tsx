@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Plus, Search, User } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/lib/api";
+import { useActiveWaba } from "@/hooks/use-active-waba";
+import { parseTags } from "@/lib/contacts";
+
+const Contatos = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { activeShop } = useActiveWaba();
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["contacts", activeShop?.id, search, tag],
+    queryFn: () => api.getContacts(activeShop!.id, { search, tag }),
+    enabled: !!activeShop?.id,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createContact(activeShop!.id, phoneNumber, {
+        name: name.trim() || undefined,
+        tags: parseTags(tags),
+      }),
+    onSuccess: (contact) => {
+      queryClient.invalidateQueries({ queryKey: ["contacts", activeShop?.id] });
+      setDialogOpen(false);
+      setPhoneNumber("");
+      setName("");
+      setTags("");
+      navigate(`/contatos/${contact.id}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao criar contato");
+    },
+  });
+
+  const contacts = data?.data ?? [];
+  const canEdit = activeShop?.role !== "viewer";
+
+  if (!activeShop) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        Crie uma empresa para gerenciar contatos.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Contatos</h1>
+          <p className="text-muted-foreground mt-1">
+            Pessoas que conversaram com você ou receberam campanhas
+          </p>
+        </div>
+        {canEdit && (
+          <Button className="bg-[#25D366] hover:bg-[#25D366]/90" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Contato
+          </Button>
+        )}
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por nome ou número..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Input
+              placeholder="Filtrar por tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value.trim())}
+              className="md:w-48"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Número</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead>Última mensagem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contacts.map((contact) => (
+                <TableRow
+                  key={contact.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/contatos/${contact.id}`)}
+                >
+                  <TableCell className="flex items-center gap-2">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    {contact.name || contact.profileName || "Sem nome"}
+                  </TableCell>
+                  <TableCell>{contact.phoneNumber}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {(contact.tags ?? []).map((t) => (
+                        <Badge key={t} variant="secondary">
+                          {t}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {contact.lastSeenAt ? new Date(contact.lastSeenAt).toLocaleString("pt-BR") : "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!isLoading && !contacts.length && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-muted-foreground">
+                    Nenhum contato encontrado.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {isLoading && (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo contato</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone">Número (com DDI)</Label>
+              <Input
+                id="contact-phone"
+                placeholder="5511999999999"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Nome</Label>
+              <Input id="contact-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-tags">Tags (separadas por vírgula)</Label>
+              <Input
+                id="contact-tags"
+                placeholder="cliente, vip"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              className="bg-[#25D366] hover:bg-[#25D366]/90"
+              onClick={() => createMutation.mutate()}
+              disabled={!phoneNumber.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Contatos;
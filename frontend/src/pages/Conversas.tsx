@@ -1,10 +1,20 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Search,
   Send,
@@ -13,28 +23,170 @@ import {
   Clock,
   User,
   MessageSquare,
+  Paperclip,
+  X,
+  FileText,
+  Image as ImageIcon,
+  Video,
+  Mic,
+  Sticker,
+  Timer,
+  FileCheck,
 } from "lucide-react";
+import { toast } from "sonner";
 import { api } from "@/lib/api";
 import { useActiveWaba } from "@/hooks/use-active-waba";
-import type { Conversation, Message } from "@/lib/types";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
+import { MessageMedia } from "@/components/inbox/MessageMedia";
+import { SendTemplateDialog } from "@/components/inbox/SendTemplateDialog";
+import { ConversationAssignment } from "@/components/inbox/ConversationAssignment";
+import { ConversationStatusActions } from "@/components/inbox/ConversationStatusActions";
+import type {
+  AssignmentFilter,
+  Conversation,
+  ConversationStatus,
+  MediaMessageType,
+  Message,
+  MessageType,
+} from "@/lib/types";
+
+const MEDIA_LABELS: Record<MediaMessageType, string> = {
+  image: "Imagem",
+  video: "Vídeo",
+  audio: "Áudio",
+  document: "Documento",
+  sticker: "Figurinha",
+};
+
+const ACCEPTED_FILES =
+  "image/jpeg,image/png,image/webp,video/mp4,video/3gpp,audio/aac,audio/amr,audio/mpeg,audio/mp4,audio/ogg,application/pdf,text/plain,.doc,.docx,.xls,.xlsx,.ppt,.pptx";
+
+// WhatsApp sticker limits: 512x512 WebP, up to 100 KB (500 KB when animated)
+const STICKER_SIZE = 512;
+const MAX_STICKER_BYTES = 100 * 1024;
+const MAX_ANIMATED_STICKER_BYTES = 500 * 1024;
+
+const getMediaType = (file: File): MediaMessageType => {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  if (file.type.startsWith("audio/")) return "audio";
+  return "document";
+};
+
+// Animated WebP files carry an ANIM chunk right after the VP8X header
+const isAnimatedWebp = async (file: File) => {
+  const header = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  return new TextDecoder("ascii").decode(header).includes("ANIM");
+};
+
+/**
+ * WebP files go as stickers only when they already meet the sticker limits; other
+ * WebP images are sent as regular photos unless the user picks sticker
+ */
+const fitsStickerLimits = async (file: File) => {
+  if (file.type !== "image/webp") return false;
+  const maxBytes = (await isAnimatedWebp(file)) ? MAX_ANIMATED_STICKER_BYTES : MAX_STICKER_BYTES;
+  if (file.size > maxBytes) return false;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const fits = bitmap.width === STICKER_SIZE && bitmap.height === STICKER_SIZE;
+    bitmap.close();
+    return fits;
+  } catch {
+    return false;
+  }
+};
+
+interface Attachment {
+  file: File;
+  type: MediaMessageType;
+}
+
+const isMediaType = (type?: MessageType): type is MediaMessageType =>
+  !!type && type in MEDIA_LABELS;
+
+const MediaIcon = ({ type, className }: { type: MediaMessageType; className?: string }) => {
+  switch (type) {
+    case "image":
+      return <ImageIcon className={className} />;
+    case "video":
+      return <Video className={className} />;
+    case "audio":
+      return <Mic className={className} />;
+    case "sticker":
+      return <Sticker className={className} />;
+    default:
+      return <FileText className={className} />;
+  }
+};
+
+// Remaining time of the 24h window, e.g. "5h 12min"
+const formatRemaining = (expiresAt: string, now: number) => {
+  const minutes = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}min` : `${minutes}min`;
+};
 
 const Conversas = () => {
   const queryClient = useQueryClient();
-  const { activeWaba, isLoading: wabaLoading } = useActiveWaba();
+  const { activeShop, activeWaba, isLoading: wabaLoading } = useActiveWaba();
   const [searchTerm, setSearchTerm] = useState("");
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>("all");
+  const [statusFilter, setStatusFilter] = useState<ConversationStatus>("open");
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState("");
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Tick the window countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const realtimeConnected = useRealtimeEvents(activeShop?.id, (event) => {
+    if (event.type !== "message.status") {
+      queryClient.invalidateQueries({ queryKey: ["conversations", activeWaba?.id] });
+    }
+    if (event.type === "message.created" && event.conversationId) {
+      queryClient.invalidateQueries({ queryKey: ["conversation-messages", event.conversationId] });
+    } else if (event.type === "message.status") {
+      queryClient.invalidateQueries({ queryKey: ["conversation-messages"] });
+    }
+  });
+  // Poll only while the realtime stream is down
+  const refetchInterval = realtimeConnected ? false : 30000;
 
   const {
     data: conversationResponse,
     isLoading: conversationsLoading,
     isError: conversationsError,
   } = useQuery({
-    queryKey: ["conversations", activeWaba?.id],
-    queryFn: () => api.getConversations(activeWaba!.id, 1, 50),
+    queryKey: ["conversations", activeWaba?.id, assignmentFilter, statusFilter],
+    queryFn: () => api.getConversations(activeWaba!.id, 1, 50, assignmentFilter, statusFilter),
+    enabled: !!activeWaba?.id,
+    refetchInterval,
+  });
+
+  // Online agents receive new conversations when automatic routing is enabled
+  const { data: availability } = useQuery({
+    queryKey: ["availability", activeWaba?.id],
+    queryFn: () => api.getAvailability(activeWaba!.id),
     enabled: !!activeWaba?.id,
   });
 
+  const availabilityMutation = useMutation({
+    mutationFn: (available: boolean) => api.setAvailability(activeWaba!.id, available),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["availability", activeWaba?.id], data);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao alterar disponibilidade");
+    },
+  });
+
   const conversations = useMemo<Conversation[]>(() => {
     if (!conversationResponse) return [];
     return conversationResponse.data.map((conv) => ({
@@ -43,8 +195,9 @@ const Conversas = () => {
   }, [conversationResponse]);
 
   useEffect(() => {
-    if (!selectedConversationId && conversations.length) {
-      setSelectedConversationId(conversations[0].id);
+    // Also move on when the selected conversation leaves the current status tab
+    if (!selectedConversationId || !conversations.some((c) => c.id === selectedConversationId)) {
+      setSelectedConversationId(conversations[0]?.id ?? null);
     }
   }, [conversations, selectedConversationId]);
 
@@ -56,6 +209,7 @@ const Conversas = () => {
     queryKey: ["conversation-messages", selectedConversationId],
     queryFn: () => api.getConversationMessages(selectedConversationId!, 1, 50),
     enabled: !!selectedConversationId,
+    refetchInterval,
   });
 
   // Mark conversation as read when viewing messages
@@ -82,15 +236,31 @@ const Conversas = () => {
       const conversation = conversations.find((c) => c.id === selectedConversationId);
       if (!conversation) return;
       const to = conversation.contactNumber;
+      if (attachment) {
+        const { file, type: mediaType } = attachment;
+        // Audio and stickers cannot carry a caption
+        const caption =
+          mediaType === "audio" || mediaType === "sticker" ? undefined : newMessage.trim() || undefined;
+        return api.sendMediaMessage(activeWaba.id, to, mediaType, file, caption);
+      }
       return api.sendMessage(activeWaba.id, to, newMessage);
     },
     onSuccess: () => {
       setNewMessage("");
+      setAttachment(null);
       refetchMessages();
       queryClient.invalidateQueries({ queryKey: ["conversations", activeWaba?.id] });
     },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao enviar mensagem");
+    },
   });
 
+  const selectedConversation = conversations.find((c) => c.id === selectedConversationId);
+  const windowOpen =
+    !!selectedConversation?.windowExpiresAt &&
+    new Date(selectedConversation.windowExpiresAt).getTime() > now;
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "read":
@@ -105,10 +275,18 @@ const Conversas = () => {
   };
 
   const handleSendMessage = () => {
-    if (!newMessage.trim() || !selectedConversationId) return;
+    if ((!newMessage.trim() && !attachment) || !selectedConversationId || !windowOpen) return;
     sendMessageMutation.mutate();
   };
 
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow selecting the same file again after removing it
+    e.target.value = "";
+    if (!file) return;
+    setAttachment({ file, type: (await fitsStickerLimits(file)) ? "sticker" : getMediaType(file) });
+  };
+
   const filteredConversations = conversations.filter(
     (conv) =>
       conv.contactNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -133,11 +311,23 @@ const Conversas = () => {
 
   return (
     <div className="h-[calc(100vh-2rem)] flex flex-col p-4">
-      <div className="mb-4">
-        <h1 className="text-2xl font-bold">Conversas</h1>
-        <p className="text-muted-foreground text-sm">
-          Gerencie suas conversas com clientes
-        </p>
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Conversas</h1>
+          <p className="text-muted-foreground text-sm">
+            Gerencie suas conversas com clientes
+          </p>
+        </div>
+        {activeShop?.role !== "viewer" && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Disponível para atendimento
+            <Switch
+              checked={availability?.available ?? false}
+              onCheckedChange={(checked) => availabilityMutation.mutate(checked)}
+              disabled={!activeWaba || availabilityMutation.isPending}
+            />
+          </label>
+        )}
       </div>
 
       <div className="flex-1 flex gap-4 min-h-0">
@@ -153,6 +343,31 @@ const Conversas = () => {
                 className="pl-9"
               />
             </div>
+            <Tabs
+              value={statusFilter}
+              onValueChange={(value) => setStatusFilter(value as ConversationStatus)}
+              className="mt-3"
+            >
+              <TabsList className="grid grid-cols-4 w-full">
+                <TabsTrigger value="open" className="text-xs px-1">Abertas</TabsTrigger>
+                <TabsTrigger value="pending" className="text-xs px-1">Pendentes</TabsTrigger>
+                <TabsTrigger value="snoozed" className="text-xs px-1">Adiadas</TabsTrigger>
+                <TabsTrigger value="resolved" className="text-xs px-1">Resolvidas</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Select
+              value={assignmentFilter}
+              onValueChange={(value) => setAssignmentFilter(value as AssignmentFilter)}
+            >
+              <SelectTrigger className="mt-2 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os atendentes</SelectItem>
+                <SelectItem value="me">Atribuídas a mim</SelectItem>
+                <SelectItem value="unassigned">Na fila</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
           <ScrollArea className="flex-1">
             {filteredConversations.map((conv) => (
@@ -169,7 +384,7 @@ const Conversas = () => {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
-                      <h4 className="font-medium truncate">{conv.contactNumber}</h4>
+                      <h4 className="font-medium truncate">{conv.contactName || conv.contactNumber}</h4>
                       <span className="text-xs text-muted-foreground">
                         {conv.lastMessageAt
                           ? new Date(conv.lastMessageAt).toLocaleTimeString("pt-BR")
@@ -177,8 +392,21 @@ const Conversas = () => {
                       </span>
                     </div>
                     <p className="text-sm text-muted-foreground truncate">
-                      {conv.lastMessage || "Sem mensagens"}
+                      {conv.lastMessage ||
+                        (isMediaType(conv.lastMessageType)
+                          ? MEDIA_LABELS[conv.lastMessageType]
+                          : "Sem mensagens")}
                     </p>
+                    {conv.assignedTo && (
+                      <p className="text-xs text-muted-foreground truncate mt-1">
+                        {conv.assignedTo.email}
+                      </p>
+                    )}
+                    {conv.status === "snoozed" && conv.snoozedUntil && (
+                      <p className="text-xs text-muted-foreground truncate mt-1">
+                        Volta em {new Date(conv.snoozedUntil).toLocaleString("pt-BR")}
+                      </p>
+                    )}
                   </div>
                   {conv.unreadCount > 0 && (
                     <Badge className="bg-[#25D366]">{conv.unreadCount}</Badge>
@@ -204,7 +432,13 @@ const Conversas = () => {
                   </div>
                   <div>
                     <h3 className="font-semibold">
-                      {conversations.find((c) => c.id === selectedConversationId)?.contactNumber}
+                      {selectedConversation?.contactId ? (
+                        <Link to={`/contatos/${selectedConversation.contactId}`} className="hover:underline">
+                          {selectedConversation.contactName || selectedConversation.contactNumber}
+                        </Link>
+                      ) : (
+                        selectedConversation?.contactNumber
+                      )}
                     </h3>
                     <p className="text-sm text-muted-foreground">
                       {conversations.find((c) => c.id === selectedConversationId)?.lastMessageAt
@@ -214,6 +448,25 @@ const Conversas = () => {
                         : ""}
                     </p>
                   </div>
+                  {selectedConversation && activeShop && (
+                    <div className="ml-auto flex items-center gap-2">
+                      <ConversationAssignment
+                        conversation={selectedConversation}
+                        shop={activeShop}
+                        onChanged={() =>
+                          queryClient.invalidateQueries({ queryKey: ["conversations", activeWaba?.id] })
+                        }
+                      />
+                      {activeShop.role !== "viewer" && (
+                        <ConversationStatusActions
+                          conversation={selectedConversation}
+                          onChanged={() =>
+                            queryClient.invalidateQueries({ queryKey: ["conversations", activeWaba?.id] })
+                          }
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -234,7 +487,18 @@ const Conversas = () => {
                             : "bg-muted"
                         }`}
                       >
-                        <p className="text-sm">{msg.content}</p>
+                        {isMediaType(msg.type) && msg.hasMedia && (
+                          <MessageMedia message={msg} outbound={msg.direction === "outbound"} />
+                        )}
+                        {isMediaType(msg.type) && !msg.hasMedia && (
+                          <div className="flex items-center gap-2 text-sm font-medium mb-1">
+                            <MediaIcon type={msg.type} className="h-4 w-4" />
+                            <span className="truncate">
+                              {msg.mediaFilename || MEDIA_LABELS[msg.type]}
+                            </span>
+                          </div>
+                        )}
+                        {msg.content && <p className="text-sm">{msg.content}</p>}
                         <div
                           className={`flex items-center justify-end gap-1 mt-1 ${
                             msg.direction === "outbound"
@@ -258,26 +522,90 @@ const Conversas = () => {
 
               {/* Input de Mensagem */}
               <div className="p-4 border-t border-border">
+                {!windowOpen && (
+                  <div className="flex items-center gap-3 mb-3 px-3 py-2 rounded-md bg-warning/10 border border-warning/30 text-sm">
+                    <Clock className="h-4 w-4 text-warning shrink-0" />
+                    <span className="flex-1">
+                      A janela de 24h está fechada. Envie um template aprovado para retomar a conversa.
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => setTemplateDialogOpen(true)}>
+                      <FileCheck className="h-4 w-4 mr-2" />
+                      Enviar template
+                    </Button>
+                  </div>
+                )}
+                {attachment && (
+                  <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-md bg-muted text-sm">
+                    <MediaIcon type={attachment.type} className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{attachment.file.name}</span>
+                    {attachment.file.type === "image/webp" && (
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {MEDIA_LABELS.sticker}
+                        <Switch
+                          checked={attachment.type === "sticker"}
+                          onCheckedChange={(checked) =>
+                            setAttachment({ ...attachment, type: checked ? "sticker" : "image" })
+                          }
+                          disabled={sendMessageMutation.isPending}
+                        />
+                      </label>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setAttachment(null)}
+                      disabled={sendMessageMutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
                 <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_FILES}
+                    className="hidden"
+                    onChange={handleFileSelected}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!windowOpen || sendMessageMutation.isPending}
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
                   <Input
-                    placeholder="Digite sua mensagem..."
+                    placeholder={attachment ? "Adicione uma legenda..." : "Digite sua mensagem..."}
                     value={newMessage}
                     onChange={(e) => setNewMessage(e.target.value)}
                     onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
                     className="flex-1"
-                    disabled={sendMessageMutation.isPending}
+                    disabled={!windowOpen || sendMessageMutation.isPending}
                   />
                   <Button
                     onClick={handleSendMessage}
                     className="bg-[#25D366] hover:bg-[#25D366]/90"
-                    disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                    disabled={
+                      !windowOpen || (!newMessage.trim() && !attachment) || sendMessageMutation.isPending
+                    }
                   >
                     <Send className="h-4 w-4" />
                   </Button>
                 </div>
-                <p className="text-xs text-muted-foreground mt-2">
-                  Mensagens de sessão podem ser enviadas dentro da janela de 24h
-                </p>
+                {windowOpen ? (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                    <Timer className="h-3 w-3" />
+                    Janela de 24h fecha em{" "}
+                    {formatRemaining(selectedConversation!.windowExpiresAt!, now)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Mensagens de sessão podem ser enviadas dentro da janela de 24h
+                  </p>
+                )}
               </div>
             </>
           ) : (
@@ -290,6 +618,19 @@ const Conversas = () => {
           )}
         </Card>
       </div>
+
+      {activeWaba && selectedConversation && (
+        <SendTemplateDialog
+          open={templateDialogOpen}
+          onOpenChange={setTemplateDialogOpen}
+          wabaAccountId={activeWaba.id}
+          to={selectedConversation.contactNumber}
+          onSent={() => {
+            refetchMessages();
+            queryClient.invalidateQueries({ queryKey: ["conversations", activeWaba.id] });
+          }}
+        />
+      )}
     </div>
   );
 };
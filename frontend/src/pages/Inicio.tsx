@@ -1,5 +1,5 @@
 import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,11 +19,20 @@ import {
 import { useNavigate } from "react-router-dom";
 import { api } from "@/lib/api";
 import { useActiveWaba } from "@/hooks/use-active-waba";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
 
 const Inicio = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { activeShop, activeWaba, isLoading: shopsLoading } = useActiveWaba();
 
+  // Message counters and delivery rates move with every message and status update
+  useRealtimeEvents(activeShop?.id, (event) => {
+    if (event.type !== "conversation.updated") {
+      queryClient.invalidateQueries({ queryKey: ["dashboard", activeWaba?.id] });
+    }
+  });
+
   const {
     data: dashboard,
     isLoading: statsLoading,
@@ -14,13 +14,6 @@ import {
 } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Badge } from "@/components/ui/badge";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
 import {
   ArrowLeft,
   Send,
@@ -29,32 +22,35 @@ import {
   Users,
   Clock,
   AlertCircle,
-  Upload,
-  FileSpreadsheet,
-  X,
   Plus,
-  Pencil,
   Trash2,
   Download,
+  Gauge,
 } from "lucide-react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
 import { api } from "@/lib/api";
 import { useActiveWaba } from "@/hooks/use-active-waba";
-import type { Template, CampaignCost } from "@/lib/types";
-
-interface ContactList {
-  id: string;
-  name: string;
-  numbers: string[];
-  lastUpdate: string;
-}
+import { ContactListDialog } from "@/components/campaigns/ContactListDialog";
+import { DEFAULT_TIMEZONE, formatInTimezone } from "@/lib/timezone";
+import { TemplateVariablesCard } from "@/components/campaigns/TemplateVariablesCard";
+import { AbTestCard } from "@/components/campaigns/AbTestCard";
+import { CampaignCheckCard } from "@/components/campaigns/CampaignCheckCard";
+import type {
+  Template,
+  AbTestSettings,
+  CampaignCost,
+  CampaignInput,
+  CampaignVariable,
+  CampaignVariantInput,
+  ContactList,
+} from "@/lib/types";
 
 const NovaCampanha = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const preSelectedTemplate = searchParams.get("template");
-  const { activeWaba } = useActiveWaba();
+  const { activeWaba, activeShop } = useActiveWaba();
   const queryClient = useQueryClient();
 
   const [formData, setFormData] = useState({
@@ -68,35 +64,26 @@ const NovaCampanha = () => {
     scheduleDate: "",
   });
 
-  const [importedFile, setImportedFile] = useState<File | null>(null);
   const [isCreateListModalOpen, setIsCreateListModalOpen] = useState(false);
-  const [newListName, setNewListName] = useState("");
-  const [newListContacts, setNewListContacts] = useState("");
-  const [newListFile, setNewListFile] = useState<File | null>(null);
-
-  // Mock contact lists
-  const [contactLists, setContactLists] = useState<ContactList[]>([
-    {
-      id: "1",
-      name: "Clientes VIP",
-      numbers: ["5511999999999", "5511888888888", "5511777777777"],
-      lastUpdate: "10/12/2024",
-    },
-    {
-      id: "2",
-      name: "Leads de Instagram",
-      numbers: ["5511666666666", "5511555555555"],
-      lastUpdate: "08/12/2024",
-    },
-  ]);
 
-  // Mock templates
+  const { data: contactLists = [] } = useQuery<ContactList[]>({
+    queryKey: ["contact-lists", activeShop?.id],
+    queryFn: () => api.getContactLists(activeShop!.id),
+    enabled: !!activeShop?.id,
+  });
+
   const { data: templates = [] } = useQuery<Template[]>({
     queryKey: ["templates", activeWaba?.id],
     queryFn: () => api.getTemplates(activeWaba!.id),
     enabled: !!activeWaba?.id,
   });
 
+  const { data: messagingLimit } = useQuery({
+    queryKey: ["messaging-limit", activeWaba?.id],
+    queryFn: () => api.getMessagingLimit(activeWaba!.id),
+    enabled: !!activeWaba?.id,
+  });
+
   const selectedTemplate = templates.find((t) => t.id === formData.templateId);
   const selectedList = contactLists.find((l) => l.id === formData.selectedListId);
 
@@ -104,7 +91,7 @@ const NovaCampanha = () => {
   const manualContactCount = formData.contacts
     .split("\n")
     .filter((line) => line.trim()).length;
-  const listContactCount = selectedList?.numbers.length || 0;
+  const listContactCount = selectedList?.memberCount || 0;
   const contactCount = listContactCount + manualContactCount;
   const [cost, setCost] = useState<CampaignCost | null>(null);
 
@@ -127,32 +114,75 @@ const NovaCampanha = () => {
     fetchCost();
   }, [contactCount, formData.templateId, activeWaba]);
 
+  const [variables, setVariables] = useState<CampaignVariable[]>([]);
+  // A/B test variants besides the chosen template, which is variant A
+  const [variants, setVariants] = useState<CampaignVariantInput[]>([]);
+  const [abTest, setAbTest] = useState<AbTestSettings | null>(null);
+
+  // List members are resolved by the server, only the extra numbers are sent
+  const manualNumbers = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          formData.contacts
+            .split("\n")
+            .map((c) => c.replace(/\D/g, ""))
+            .filter((c) => c.length >= 10)
+        )
+      ),
+    [formData.contacts]
+  );
+  const listIds = useMemo(() => (selectedList ? [selectedList.id] : []), [selectedList]);
+
+  // Campaign as configured so far, also used by the validation and the test send
+  const buildCampaignInput = (): CampaignInput => {
+    if (!manualContactCount && !selectedList) {
+      throw new Error("Adicione pelo menos um contato");
+    }
+    if (!manualNumbers.length && !selectedList) {
+      throw new Error("Nenhum número válido encontrado");
+    }
+    if (variants.some((variant) => !variant.templateId)) {
+      throw new Error("Escolha a mensagem de cada variante do teste A/B");
+    }
+    return {
+      templateId: formData.templateId || null,
+      contactNumbers: manualNumbers,
+      contactListIds: listIds,
+      variables,
+      ...(variants.length > 0 && {
+        variants: [{ templateId: formData.templateId, variables }, ...variants],
+        abTest: abTest ?? undefined,
+      }),
+    };
+  };
+
   const createCampaignMutation = useMutation({
     mutationFn: async () => {
       if (!activeWaba) throw new Error("Conecte uma conta WABA");
-      const contacts = [
-        ...(selectedList?.numbers || []),
-        ...formData.contacts
-          .split("\n")
-          .map((c) => c.trim())
-          .filter(Boolean),
-      ];
-      if (!contacts.length) {
-        throw new Error("Adicione pelo menos um contato");
+      const input = buildCampaignInput();
+      const scheduled = formData.scheduleType === "schedule";
+      if (scheduled && !formData.scheduleDate) {
+        throw new Error("Escolha a data e hora do envio");
       }
-      const sanitized = Array.from(
-        new Set(contacts.map((c) => c.replace(/\D/g, "")).filter((c) => c.length >= 10))
-      );
-      if (!sanitized.length) {
-        throw new Error("Nenhum número válido encontrado");
-      }
-      return api.createCampaign(activeWaba.id, formData.templateId || null, sanitized);
-    },
-    onSuccess: () => {
-      toast({
-        title: "Campanha criada",
-        description: "Sua campanha foi enviada para processamento",
+      return api.createCampaign(activeWaba.id, {
+        ...input,
+        // Sent as wall-clock time, the server reads it in the shop's timezone
+        scheduledAt: scheduled ? formData.scheduleDate : undefined,
       });
+    },
+    onSuccess: (campaign) => {
+      toast(
+        campaign.status === "scheduled"
+          ? {
+              title: "Campanha agendada",
+              description: `O envio começa em ${formatInTimezone(campaign.scheduledAt!, activeShop?.timezone)}`,
+            }
+          : {
+              title: "Campanha criada",
+              description: "Sua campanha foi enviada para processamento",
+            }
+      );
       queryClient.invalidateQueries({ queryKey: ["campaigns", activeWaba?.id] });
       navigate("/campanhas");
     },
@@ -165,117 +195,54 @@ const NovaCampanha = () => {
     },
   });
 
-  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const validExtensions = [".csv", ".xlsx", ".xls"];
-      const extension = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
-      
-      if (!validExtensions.includes(extension)) {
-        toast({
-          title: "Formato inválido",
-          description: "Use arquivos CSV ou XLSX",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setImportedFile(file);
-      const mockContacts = "5511999999999\n5511888888888\n5511777777777\n5511666666666\n5511555555555";
-      setFormData({ ...formData, contacts: mockContacts });
-      
-      toast({
-        title: "Arquivo importado",
-        description: `${file.name} - 5 contatos encontrados`,
-      });
-    }
-  };
-
-  const handleRemoveFile = () => {
-    setImportedFile(null);
-    setFormData({ ...formData, contacts: "" });
-  };
-
   const handleListSelect = (listId: string) => {
     setFormData({ ...formData, selectedListId: listId });
     if (listId) {
       const list = contactLists.find(l => l.id === listId);
       toast({
         title: "Lista selecionada",
-        description: `${list?.name} - ${list?.numbers.length || 0} contatos`,
+        description: `${list?.name} - ${list?.memberCount || 0} contatos`,
       });
     }
   };
 
-  const handleCreateListFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setNewListFile(file);
-      // Mock: simula leitura do arquivo
-      setNewListContacts("5511999999999\n5511888888888\n5511777777777");
-    }
-  };
-
-  const handleCreateList = () => {
-    if (!newListName.trim()) {
+  const deleteListMutation = useMutation({
+    mutationFn: (listId: string) => api.deleteContactList(listId),
+    onSuccess: (_, listId) => {
+      queryClient.invalidateQueries({ queryKey: ["contact-lists", activeShop?.id] });
+      if (formData.selectedListId === listId) {
+        setFormData({ ...formData, selectedListId: "" });
+      }
+      toast({
+        title: "Lista excluída",
+        description: "A lista de contatos foi removida",
+      });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Nome obrigatório",
-        description: "Informe um nome para a lista",
+        title: "Erro ao excluir lista",
+        description: error.message || "Tente novamente",
         variant: "destructive",
       });
-      return;
-    }
+    },
+  });
 
-    const contacts = newListContacts.split("\n").filter(c => c.trim());
-    if (contacts.length === 0) {
+  const handleDownloadList = async (list: ContactList) => {
+    try {
+      const blob = await api.downloadContactList(list.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${list.name}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
       toast({
-        title: "Contatos obrigatórios",
-        description: "Adicione pelo menos um contato à lista",
+        title: "Erro ao baixar lista",
+        description: (error as Error).message || "Tente novamente",
         variant: "destructive",
       });
-      return;
     }
-
-    // Remove duplicados e valida formato
-    const uniqueContacts = [...new Set(contacts.map(c => c.trim().replace(/\D/g, "")))];
-    const validContacts = uniqueContacts.filter(c => c.length >= 10 && c.length <= 15);
-
-    const newList: ContactList = {
-      id: String(contactLists.length + 1),
-      name: newListName,
-      numbers: validContacts,
-      lastUpdate: new Date().toLocaleDateString("pt-BR"),
-    };
-
-    setContactLists([...contactLists, newList]);
-    setIsCreateListModalOpen(false);
-    setNewListName("");
-    setNewListContacts("");
-    setNewListFile(null);
-
-    toast({
-      title: "Lista criada",
-      description: `${newList.name} com ${validContacts.length} contatos`,
-    });
-  };
-
-  const handleDeleteList = (listId: string) => {
-    setContactLists(contactLists.filter(l => l.id !== listId));
-    if (formData.selectedListId === listId) {
-      setFormData({ ...formData, selectedListId: "" });
-    }
-    toast({
-      title: "Lista excluída",
-      description: "A lista de contatos foi removida",
-    });
-  };
-
-  const handleDownloadList = (list: ContactList) => {
-    // Mock: em produção, baixaria do backend
-    toast({
-      title: "Download iniciado",
-      description: `Baixando ${list.name}.csv`,
-    });
   };
 
   const handleSubmit = () => {
@@ -372,64 +339,12 @@ const NovaCampanha = () => {
                   <Users className="h-5 w-5" />
                   Lista de Contatos
                 </div>
-                <Dialog open={isCreateListModalOpen} onOpenChange={setIsCreateListModalOpen}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" size="sm">
-                      <Plus className="h-4 w-4 mr-1" />
-                      Criar Lista
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Criar Lista de Contatos</DialogTitle>
-                    </DialogHeader>
-                    <div className="space-y-4 py-4">
-                      <div>
-                        <Label htmlFor="listName">Nome da Lista</Label>
-                        <Input
-                          id="listName"
-                          placeholder="Ex: Clientes Premium"
-                          value={newListName}
-                          onChange={(e) => setNewListName(e.target.value)}
-                        />
-                      </div>
-
-                      <div>
-                        <Label>Importar CSV/XLSX</Label>
-                        <div className="relative mt-1">
-                          <input
-                            type="file"
-                            accept=".csv,.xlsx,.xls"
-                            onChange={handleCreateListFileImport}
-                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                          />
-                          <Button variant="outline" className="w-full">
-                            <Upload className="h-4 w-4 mr-2" />
-                            {newListFile ? newListFile.name : "Selecionar arquivo"}
-                          </Button>
-                        </div>
-                      </div>
-
-                      <div>
-                        <Label htmlFor="listContacts">Ou cole os números</Label>
-                        <Textarea
-                          id="listContacts"
-                          placeholder="Cole os números aqui (um por linha)&#10;5511999999999&#10;5511888888888"
-                          rows={5}
-                          value={newListContacts}
-                          onChange={(e) => setNewListContacts(e.target.value)}
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Duplicados serão removidos automaticamente
-                        </p>
-                      </div>
-
-                      <Button className="w-full bg-[#25D366] hover:bg-[#25D366]/90" onClick={handleCreateList}>
-                        Salvar Lista
-                      </Button>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                {activeShop && activeShop.role !== "viewer" && (
+                  <Button variant="outline" size="sm" onClick={() => setIsCreateListModalOpen(true)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Criar Lista
+                  </Button>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -449,7 +364,7 @@ const NovaCampanha = () => {
                         <div className="flex items-center gap-2">
                           <span>{list.name}</span>
                           <Badge variant="secondary" className="text-xs">
-                            {list.numbers.length} contatos
+                            {list.memberCount.toLocaleString()} contatos
                           </Badge>
                         </div>
                       </SelectItem>
@@ -466,55 +381,30 @@ const NovaCampanha = () => {
                       <div>
                         <p className="font-medium">{list.name}</p>
                         <p className="text-xs text-muted-foreground">
-                          {list.numbers.length} contatos • Atualizado em {list.lastUpdate}
+                          {list.memberCount.toLocaleString()} contatos • Atualizado em{" "}
+                          {new Date(list.updatedAt).toLocaleDateString("pt-BR")}
                         </p>
                       </div>
                       <div className="flex items-center gap-1">
                         <Button variant="ghost" size="icon" onClick={() => handleDownloadList(list)}>
                           <Download className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="icon" onClick={() => handleDeleteList(list.id)}>
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {(activeShop?.role === "owner" || activeShop?.role === "admin") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteListMutation.mutate(list.id)}
+                            disabled={deleteListMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
               )}
 
-              {/* Importar arquivo adicional */}
-              <div>
-                {importedFile ? (
-                  <div className="flex items-center justify-between p-3 border rounded-lg bg-muted/30">
-                    <div className="flex items-center gap-2">
-                      <FileSpreadsheet className="h-5 w-5 text-primary" />
-                      <div>
-                        <p className="text-sm font-medium">{importedFile.name}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {manualContactCount} contatos adicionais
-                        </p>
-                      </div>
-                    </div>
-                    <Button variant="ghost" size="sm" onClick={handleRemoveFile}>
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="relative">
-                    <input
-                      type="file"
-                      accept=".csv,.xlsx,.xls"
-                      onChange={handleFileImport}
-                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                    />
-                    <Button variant="outline" className="w-full">
-                      <Upload className="h-4 w-4 mr-2" />
-                      Importar Contatos (CSV, XLSX)
-                    </Button>
-                  </div>
-                )}
-              </div>
-
               {/* Contatos manuais complementares */}
               <div className="relative">
                 <div className="absolute left-0 right-0 top-0 flex items-center justify-center">
@@ -592,6 +482,37 @@ const NovaCampanha = () => {
             </CardContent>
           </Card>
 
+          {/* Variáveis */}
+          {activeWaba && selectedTemplate && (
+            <TemplateVariablesCard
+              wabaAccountId={activeWaba.id}
+              template={selectedTemplate}
+              contactNumbers={manualNumbers}
+              contactListIds={listIds}
+              variables={variables}
+              onChange={setVariables}
+            />
+          )}
+
+          {/* Teste A/B */}
+          {activeWaba && selectedTemplate && (
+            <AbTestCard
+              wabaAccountId={activeWaba.id}
+              templates={templates}
+              contactNumbers={manualNumbers}
+              contactListIds={listIds}
+              variants={variants}
+              onVariantsChange={setVariants}
+              abTest={abTest}
+              onAbTestChange={setAbTest}
+            />
+          )}
+
+          {/* Validação e envio de teste */}
+          {activeWaba && selectedTemplate && contactCount > 0 && (
+            <CampaignCheckCard wabaAccountId={activeWaba.id} getInput={buildCampaignInput} />
+          )}
+
           {/* Agendamento */}
           <Card className="bg-card border-border">
             <CardHeader>
@@ -625,6 +546,9 @@ const NovaCampanha = () => {
                     value={formData.scheduleDate}
                     onChange={(e) => setFormData({ ...formData, scheduleDate: e.target.value })}
                   />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Horário de {activeShop?.timezone ?? DEFAULT_TIMEZONE}
+                  </p>
                 </div>
               )}
             </CardContent>
@@ -687,6 +611,28 @@ const NovaCampanha = () => {
                 </div>
               )}
 
+              {messagingLimit && (
+                <div className="border-t border-border pt-4 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground flex items-center gap-2">
+                      <Gauge className="h-4 w-4" />
+                      Limite diário do número
+                    </span>
+                    <span className="font-medium">
+                      {messagingLimit.limit === null
+                        ? "Ilimitado"
+                        : `${messagingLimit.remaining!.toLocaleString()} de ${messagingLimit.limit.toLocaleString()} livres`}
+                    </span>
+                  </div>
+                  {messagingLimit.remaining !== null && contactCount > messagingLimit.remaining && (
+                    <p className="text-xs text-warning">
+                      A campanha passa do limite de conversas do número em 24h. Os envios excedentes
+                      aguardam e continuam automaticamente conforme o limite for liberado.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <Button
                 className="w-full bg-[#25D366] hover:bg-[#25D366]/90"
                 size="lg"
@@ -706,6 +652,15 @@ const NovaCampanha = () => {
           </Card>
         </div>
       </div>
+
+      {activeShop && (
+        <ContactListDialog
+          open={isCreateListModalOpen}
+          onOpenChange={setIsCreateListModalOpen}
+          shopId={activeShop.id}
+          onCreated={(list) => setFormData((current) => ({ ...current, selectedListId: list.id }))}
+        />
+      )}
     </div>
   );
 };
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,11 +19,16 @@ import {
   Save,
   Instagram,
   Globe,
+  Megaphone,
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { useActiveWaba } from "@/hooks/use-active-waba";
 import { api } from "@/lib/api";
+import { ShopMembersCard } from "@/components/shop/ShopMembersCard";
+import { ConsentSettingsCard } from "@/components/shop/ConsentSettingsCard";
+import { DEFAULT_TIMEZONE, TIMEZONES } from "@/lib/timezone";
+import type { BusinessHours, Weekday } from "@/lib/types";
 
 const NICHOS = [
   { value: "restaurante", label: "Restaurantes/Delivery" },
@@ -40,14 +46,29 @@ const NICHOS = [
   { value: "outro", label: "Outro" },
 ];
 
-const DIAS_SEMANA = [
-  { key: "segunda", label: "Segunda-feira" },
-  { key: "terca", label: "Terça-feira" },
-  { key: "quarta", label: "Quarta-feira" },
-  { key: "quinta", label: "Quinta-feira" },
-  { key: "sexta", label: "Sexta-feira" },
-  { key: "sabado", label: "Sábado" },
-  { key: "domingo", label: "Domingo" },
+// Used for numbers typed without a country code (same list as the backend)
+const PAISES = [
+  { value: "BR", label: "Brasil (+55)" },
+  { value: "PT", label: "Portugal (+351)" },
+  { value: "US", label: "Estados Unidos (+1)" },
+  { value: "CA", label: "Canadá (+1)" },
+  { value: "AR", label: "Argentina (+54)" },
+  { value: "MX", label: "México (+52)" },
+  { value: "CO", label: "Colômbia (+57)" },
+  { value: "CL", label: "Chile (+56)" },
+  { value: "PY", label: "Paraguai (+595)" },
+  { value: "UY", label: "Uruguai (+598)" },
+  { value: "ES", label: "Espanha (+34)" },
+];
+
+const DIAS_SEMANA: { key: string; weekday: Weekday; label: string }[] = [
+  { key: "segunda", weekday: "monday", label: "Segunda-feira" },
+  { key: "terca", weekday: "tuesday", label: "Terça-feira" },
+  { key: "quarta", weekday: "wednesday", label: "Quarta-feira" },
+  { key: "quinta", weekday: "thursday", label: "Quinta-feira" },
+  { key: "sexta", weekday: "friday", label: "Sexta-feira" },
+  { key: "sabado", weekday: "saturday", label: "Sábado" },
+  { key: "domingo", weekday: "sunday", label: "Domingo" },
 ];
 
 interface HorariosDia {
@@ -62,6 +83,38 @@ type HorariosType = {
   [key: string]: HorariosDia;
 };
 
+// Stored by the backend as opening intervals per weekday; empty slots are left out
+const toBusinessHours = (horarios: HorariosType): BusinessHours =>
+  Object.fromEntries(
+    DIAS_SEMANA.map(({ key, weekday }) => {
+      const dia = horarios[key];
+      const intervals = [
+        { start: dia.horario1Inicio, end: dia.horario1Fim },
+        { start: dia.horario2Inicio, end: dia.horario2Fim },
+      ].filter((interval) => interval.start && interval.end);
+      return [weekday, { open: dia.aberto, intervals }];
+    })
+  );
+
+const fromBusinessHours = (businessHours: BusinessHours, current: HorariosType): HorariosType =>
+  Object.fromEntries(
+    DIAS_SEMANA.map(({ key, weekday }) => {
+      const day = businessHours[weekday];
+      if (!day) return [key, current[key]];
+      const [first, second] = day.intervals;
+      return [
+        key,
+        {
+          aberto: day.open,
+          horario1Inicio: first?.start ?? "",
+          horario1Fim: first?.end ?? "",
+          horario2Inicio: second?.start ?? "",
+          horario2Fim: second?.end ?? "",
+        },
+      ];
+    })
+  );
+
 import * as React from "react";
 
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean, error?: any}> {
@@ -95,8 +148,11 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
 const PerfilEmpresa = () => {
   const { user } = useAuth();
   const { activeShop } = useActiveWaba();
+  const queryClient = useQueryClient();
   const [formData, setFormData] = useState({
     nome: "",
+    paisPadrao: "BR",
+    fusoHorario: DEFAULT_TIMEZONE,
     email: "",
     telefone: "",
     nicho: "outro",
@@ -104,6 +160,9 @@ const PerfilEmpresa = () => {
     linkPrincipal: "",
     linkSecundario: "",
     instagram: "",
+    campanhasNoHorario: false,
+    limiteMensagens: "",
+    limiteHoras: "24",
   });
 
   const [horarios, setHorarios] = useState<HorariosType>({
@@ -118,7 +177,19 @@ const PerfilEmpresa = () => {
 
   useEffect(() => {
     if (activeShop) {
-      setFormData((prev) => ({ ...prev, nome: activeShop.name || "" }));
+      setFormData((prev) => ({
+        ...prev,
+        nome: activeShop.name || "",
+        paisPadrao: activeShop.defaultCountry || "BR",
+        fusoHorario: activeShop.timezone || DEFAULT_TIMEZONE,
+        campanhasNoHorario: activeShop.campaignQuietHours ?? false,
+        limiteMensagens: activeShop.frequencyCapCount ? String(activeShop.frequencyCapCount) : "",
+        limiteHoras: String(activeShop.frequencyCapHours ?? 24),
+      }));
+      if (activeShop.businessHours) {
+        const businessHours = activeShop.businessHours;
+        setHorarios((prev) => fromBusinessHours(businessHours, prev));
+      }
     }
     if (user?.email) {
       setFormData((prev) => ({ ...prev, email: user.email || "" }));
@@ -138,7 +209,16 @@ const PerfilEmpresa = () => {
   const handleSave = async () => {
     try {
       if (activeShop && formData.nome) {
-        await api.updateShop(activeShop.id, formData.nome);
+        await api.updateShop(activeShop.id, {
+          name: formData.nome,
+          defaultCountry: formData.paisPadrao,
+          timezone: formData.fusoHorario,
+          businessHours: toBusinessHours(horarios),
+          campaignQuietHours: formData.campanhasNoHorario,
+          frequencyCapCount: Number(formData.limiteMensagens) || null,
+          frequencyCapHours: Number(formData.limiteHoras) || 24,
+        });
+        queryClient.invalidateQueries({ queryKey: ["shops"] });
       }
       if (user?.email && formData.email && formData.email !== user.email) {
         await api.updateUserEmail(formData.email);
@@ -208,6 +288,48 @@ const PerfilEmpresa = () => {
                 onChange={(e) => setFormData({ ...formData, telefone: e.target.value })}
               />
             </div>
+            <div>
+              <Label htmlFor="paisPadrao">País padrão dos números</Label>
+              <Select
+                value={formData.paisPadrao}
+                onValueChange={(value) => setFormData({ ...formData, paisPadrao: value })}
+              >
+                <SelectTrigger id="paisPadrao">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAISES.map((pais) => (
+                    <SelectItem key={pais.value} value={pais.value}>
+                      {pais.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Usado quando um número é digitado ou importado sem o código do país
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="fusoHorario">Fuso horário</Label>
+              <Select
+                value={formData.fusoHorario}
+                onValueChange={(value) => setFormData({ ...formData, fusoHorario: value })}
+              >
+                <SelectTrigger id="fusoHorario">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((fuso) => (
+                    <SelectItem key={fuso.value} value={fuso.value}>
+                      {fuso.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Usado para os horários de agendamento das campanhas
+              </p>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -383,6 +505,63 @@ const PerfilEmpresa = () => {
         </CardContent>
       </Card>
 
+      {/* Limites de envio das campanhas */}
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5 text-primary" />
+            Envio de Campanhas
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <label className="flex items-center justify-between gap-4">
+            <span>
+              <span className="font-medium">Enviar somente no horário de funcionamento</span>
+              <span className="block text-sm text-muted-foreground">
+                Mensagens de campanhas fora do horário aguardam a próxima abertura
+              </span>
+            </span>
+            <Switch
+              checked={formData.campanhasNoHorario}
+              onCheckedChange={(checked) => setFormData({ ...formData, campanhasNoHorario: checked })}
+            />
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="limiteMensagens">Máximo de mensagens de marketing por contato</Label>
+              <Input
+                id="limiteMensagens"
+                type="number"
+                min={1}
+                placeholder="Sem limite"
+                value={formData.limiteMensagens}
+                onChange={(e) => setFormData({ ...formData, limiteMensagens: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="limiteHoras">A cada (horas)</Label>
+              <Input
+                id="limiteHoras"
+                type="number"
+                min={1}
+                max={720}
+                value={formData.limiteHoras}
+                onChange={(e) => setFormData({ ...formData, limiteHoras: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            Contatos que já atingiram o limite são pulados e aparecem como ignorados no relatório
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Bloco E - Equipe */}
+      {activeShop && <ShopMembersCard shop={activeShop} />}
+
+      {activeShop && <ConsentSettingsCard shop={activeShop} />}
+
       {/* Footer Save Button */}
       <div className="flex justify-end">
         <Button onClick={handleSave} className="bg-[#25D366] hover:bg-[#25D366]/90" size="lg">